@@ -0,0 +1,179 @@
+import type {
+  CustomerSupportErrorCode,
+  CustomerSupportServerEvent,
+  Representative,
+} from '@repo/api';
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  /** Who answered; unset for customer messages. */
+  representative?: Representative;
+  status: 'streaming' | 'done';
+}
+
+export interface ChatError {
+  code: CustomerSupportErrorCode;
+  content: string;
+  threadId?: string;
+}
+
+export interface ChatState {
+  /** Messages per server-side thread, oldest first. */
+  threads: Record<string, ChatMessage[]>;
+  /** Threads waiting for the current reply to finish. */
+  pending: Record<string, boolean>;
+  error?: ChatError;
+}
+
+export type ChatAction =
+  | { type: 'send'; threadId: string; id: string; content: string }
+  | { type: 'event'; event: CustomerSupportServerEvent; id: string }
+  | { type: 'dismissError' };
+
+export const initialChatState: ChatState = { threads: {}, pending: {} };
+
+/**
+ * Inserts `message`, or merges it into the message with the same id so
+ * deltas and the final response end up in one bubble.
+ */
+const upsert = (
+  messages: ChatMessage[] = [],
+  message: ChatMessage,
+  merge: (existing: ChatMessage) => ChatMessage,
+) => {
+  const index = messages.findIndex(({ id }) => id === message.id);
+
+  return index === -1
+    ? [...messages, message]
+    : messages.map((existing, i) => (i === index ? merge(existing) : existing));
+};
+
+const withMessages = (
+  state: ChatState,
+  threadId: string,
+  update: (messages: ChatMessage[] | undefined) => ChatMessage[],
+): ChatState => ({
+  ...state,
+  threads: { ...state.threads, [threadId]: update(state.threads[threadId]) },
+});
+
+const withPending = (
+  state: ChatState,
+  threadId: string,
+  pending: boolean,
+): ChatState => ({
+  ...state,
+  pending: { ...state.pending, [threadId]: pending },
+});
+
+/**
+ * Folds customer support socket events into per-thread chat history.
+ * `id` on `event` actions is used for messages the server sends without one.
+ */
+export function chatReducer(state: ChatState, action: ChatAction): ChatState {
+  switch (action.type) {
+    case 'send':
+      return withPending(
+        withMessages(state, action.threadId, (messages = []) => [
+          ...messages,
+          {
+            id: action.id,
+            role: 'user',
+            content: action.content,
+            status: 'done',
+          },
+        ]),
+        action.threadId,
+        true,
+      );
+
+    case 'dismissError':
+      return { ...state, error: undefined };
+
+    case 'event':
+      break;
+  }
+
+  const { event } = action;
+  switch (event.type) {
+    case 'user_message':
+      return withPending(
+        withMessages(state, event.threadId, (messages = []) => [
+          ...messages,
+          {
+            id: action.id,
+            role: 'user',
+            content: event.content,
+            status: 'done',
+          },
+        ]),
+        event.threadId,
+        true,
+      );
+
+    case 'delta':
+      return withMessages(state, event.threadId, (messages) =>
+        upsert(
+          messages,
+          {
+            id: event.messageId,
+            role: 'assistant',
+            content: event.content,
+            representative: event.representative,
+            status: 'streaming',
+          },
+          (existing) => ({
+            ...existing,
+            content: existing.content + event.content,
+          }),
+        ),
+      );
+
+    case 'response': {
+      const message: ChatMessage = {
+        id: event.messageId ?? action.id,
+        role: 'assistant',
+        content: event.content,
+        representative: event.representative,
+        status: 'done',
+      };
+
+      return withMessages(state, event.threadId, (messages) =>
+        upsert(messages, message, (existing) => ({ ...existing, ...message })),
+      );
+    }
+
+    case 'refund_pending':
+      return withMessages(state, event.threadId, (messages = []) => [
+        ...messages,
+        {
+          id: action.id,
+          role: 'assistant',
+          content: event.content,
+          representative: 'HANDLE REFUND',
+          status: 'done',
+        },
+      ]);
+
+    case 'completed':
+      return withPending(state, event.threadId, false);
+
+    case 'error': {
+      const error = {
+        code: event.code,
+        content: event.details
+          ? `${event.content}: ${event.details}`
+          : event.content,
+        threadId: event.threadId,
+      };
+      // Errors are sent to the socket that caused them, not to a thread,
+      // so whatever this tab was waiting for is not coming.
+      return { ...state, pending: {}, error };
+    }
+
+    default:
+      return state;
+  }
+}
@@ -0,0 +1,102 @@
+import { useCallback, useEffect, useReducer, useRef, useState } from 'react';
+import { io, type Socket } from 'socket.io-client';
+import {
+  CUSTOMER_SUPPORT_EVENTS_VERSION,
+  CUSTOMER_SUPPORT_NAMESPACE,
+  CustomerSupportServerEventSchema,
+  CustomerSupportSocketEvent,
+  type JoinThreadEvent,
+  type SendMessageEvent,
+} from '@repo/api';
+import { chatReducer, initialChatState } from './chat-state';
+
+const SERVER_URL =
+  process.env.NEXT_PUBLIC_SERVER_URL ?? 'http://localhost:3000';
+
+export type ConnectionState = 'connecting' | 'connected' | 'disconnected';
+
+/**
+ * Chats with the customer support graph over socket.io. The socket follows
+ * `threadId`, so replies (including refund decisions made later by a
+ * supervisor) for that thread arrive here and in any other tab on it.
+ */
+export function useCustomerSupportChat(threadId: string | undefined) {
+  const [state, dispatch] = useReducer(chatReducer, initialChatState);
+  const [connection, setConnection] = useState<ConnectionState>('connecting');
+  const socketRef = useRef<Socket>();
+  const threadIdRef = useRef(threadId);
+  threadIdRef.current = threadId;
+
+  const join = useCallback((socket: Socket, id: string | undefined) => {
+    if (!id || !socket.connected) return;
+
+    const event: JoinThreadEvent = {
+      version: CUSTOMER_SUPPORT_EVENTS_VERSION,
+      threadId: id,
+    };
+    socket.emit(CustomerSupportSocketEvent.Join, event);
+  }, []);
+
+  useEffect(() => {
+    const socket = io(`${SERVER_URL}${CUSTOMER_SUPPORT_NAMESPACE}`, {
+      transports: ['websocket', 'polling'],
+    });
+    socketRef.current = socket;
+
+    socket.on('connect', () => {
+      setConnection('connected');
+      // Rooms do not survive a reconnect
+      join(socket, threadIdRef.current);
+    });
+    socket.on('disconnect', () => setConnection('disconnected'));
+    socket.on('connect_error', () => setConnection('disconnected'));
+    socket.on(CustomerSupportSocketEvent.Message, (payload: unknown) => {
+      const result = CustomerSupportServerEventSchema.safeParse(payload);
+      if (!result.success) {
+        console.warn('Ignoring unexpected customer support event', payload);
+        return;
+      }
+
+      dispatch({ type: 'event', event: result.data, id: crypto.randomUUID() });
+    });
+
+    return () => {
+      socket.disconnect();
+      socketRef.current = undefined;
+    };
+  }, [join]);
+
+  useEffect(() => {
+    if (socketRef.current) join(socketRef.current, threadId);
+  }, [join, threadId]);
+
+  const send = useCallback(
+    (content: string) => {
+      const socket = socketRef.current;
+      if (!threadId || !socket) return;
+
+      dispatch({ type: 'send', threadId, id: crypto.randomUUID(), content });
+      const event: SendMessageEvent = {
+        version: CUSTOMER_SUPPORT_EVENTS_VERSION,
+        message: content,
+        threadId,
+      };
+      socket.emit(CustomerSupportSocketEvent.Message, event);
+    },
+    [threadId],
+  );
+
+  const dismissError = useCallback(
+    () => dispatch({ type: 'dismissError' }),
+    [],
+  );
+
+  return {
+    connection,
+    messages: (threadId && state.threads[threadId]) || [],
+    isRequesting: Boolean(threadId && state.pending[threadId]),
+    error: state.error,
+    send,
+    dismissError,
+  };
+}
@@ -1,4 +1,4 @@
-"use client"
+'use client';
 import {
   Attachments,
   Bubble,
@@ -6,10 +6,18 @@ import {
   Prompts,
   Sender,
   Welcome,
-  useXAgent,
-  useXChat,
 } from '@ant-design/x';
-import { Layout, Button, Space, Badge, type GetProp, Card, ConfigProvider, theme } from 'antd';
+import {
+  Layout,
+  Button,
+  Space,
+  Badge,
+  type GetProp,
+  Card,
+  ConfigProvider,
+  theme,
+  Alert,
+} from 'antd';
 import {
   CloudUploadOutlined,
   CommentOutlined,
@@ -27,6 +35,10 @@ import {
 } from '@ant-design/icons';
 import React, { useEffect } from 'react';
 import styled from 'styled-components';
+import {
+  useCustomerSupportChat,
+  type ConnectionState,
+} from './customer-support/use-customer-support-chat';
 
 const { Header, Content, Sider } = Layout;
 
@@ -42,7 +54,13 @@ const Logo = ({ className }: { className: string }) => (
   </div>
 );
 
-const TitleWithIcon = ({ icon, title }: { icon: React.ReactElement; title: string }) => (
+const TitleWithIcon = ({
+  icon,
+  title,
+}: {
+  icon: React.ReactElement;
+  title: string;
+}) => (
   <Space align="start">
     {icon}
     <span>{title}</span>
@@ -62,6 +80,15 @@ const CHAT_ROLES: GetProp<typeof Bubble.List, 'roles'> = {
   },
 };
 
+const CONNECTION_BADGES: Record<
+  ConnectionState,
+  GetProp<typeof Badge, 'status'>
+> = {
+  connecting: 'processing',
+  connected: 'success',
+  disconnected: 'error',
+};
+
 const DEFAULT_CONVERSATIONS = [
   {
     key: '0',
@@ -72,7 +99,12 @@ const DEFAULT_CONVERSATIONS = [
 const PROMPT_ITEMS = [
   {
     key: '1',
-    label: <TitleWithIcon icon={<FireOutlined style={{ color: '#FF4D4F' }} />} title="Hot Topics" />,
+    label: (
+      <TitleWithIcon
+        icon={<FireOutlined style={{ color: '#FF4D4F' }} />}
+        title="Hot Topics"
+      />
+    ),
     description: 'What are you interested in?',
     children: [
       { key: '1-1', description: `What's new in X?` },
@@ -82,21 +114,39 @@ const PROMPT_ITEMS = [
   },
   {
     key: '2',
-    label: <TitleWithIcon icon={<ReadOutlined style={{ color: '#1890FF' }} />} title="Design Guide" />,
+    label: (
+      <TitleWithIcon
+        icon={<ReadOutlined style={{ color: '#1890FF' }} />}
+        title="Design Guide"
+      />
+    ),
     description: 'How to design a good product?',
     children: [
       { key: '2-1', icon: <HeartOutlined />, description: `Know the well` },
       { key: '2-2', icon: <SmileOutlined />, description: `Set the AI role` },
-      { key: '2-3', icon: <CommentOutlined />, description: `Express the feeling` },
+      {
+        key: '2-3',
+        icon: <CommentOutlined />,
+        description: `Express the feeling`,
+      },
     ],
   },
   {
     key: '3',
-    label: <TitleWithIcon icon={<RocketOutlined style={{ color: '#722ED1' }} />} title="Start Creating" />,
+    label: (
+      <TitleWithIcon
+        icon={<RocketOutlined style={{ color: '#722ED1' }} />}
+        title="Start Creating"
+      />
+    ),
     description: 'How to start a new project?',
     children: [
       { key: '3-1', label: 'Fast Start', description: `Install Ant Design X` },
-      { key: '3-2', label: 'Online Playground', description: `Play on the web without installing` },
+      {
+        key: '3-2',
+        label: 'Online Playground',
+        description: `Play on the web without installing`,
+      },
     ],
   },
 ];
@@ -119,32 +169,39 @@ const ChatInterface: React.FC = () => {
   const [collapsed, setCollapsed] = React.useState(false);
   const [headerOpen, setHeaderOpen] = React.useState(false);
   const [content, setContent] = React.useState('');
-  const [conversationsItems, setConversationsItems] = React.useState(DEFAULT_CONVERSATIONS);
-  const [activeKey, setActiveKey] = React.useState(DEFAULT_CONVERSATIONS[0]?.key);
-  const [attachedFiles, setAttachedFiles] = React.useState<GetProp<typeof Attachments, 'items'>>([]);
-
-  const [agent] = useXAgent({
-    request: async ({ message }, { onSuccess }) => {
-      onSuccess(`Mock success return. You said: ${message}`);
-    },
-  });
-
-  const { onRequest, messages, setMessages } = useXChat({ agent });
+  const [conversationsItems, setConversationsItems] = React.useState(
+    DEFAULT_CONVERSATIONS,
+  );
+  const [activeKey, setActiveKey] = React.useState(
+    DEFAULT_CONVERSATIONS[0]?.key,
+  );
+  const [attachedFiles, setAttachedFiles] = React.useState<
+    GetProp<typeof Attachments, 'items'>
+  >([]);
+  // Each conversation in the sidebar is its own server-side thread
+  const [threadIds, setThreadIds] = React.useState<Record<string, string>>({});
 
   useEffect(() => {
-    if (activeKey !== undefined) {
-      setMessages([]);
+    if (activeKey !== undefined && !threadIds[activeKey]) {
+      setThreadIds((ids) => ({ ...ids, [activeKey]: crypto.randomUUID() }));
     }
-  }, [activeKey]);
+  }, [activeKey, threadIds]);
+
+  const { connection, messages, isRequesting, error, send, dismissError } =
+    useCustomerSupportChat(
+      activeKey !== undefined ? threadIds[activeKey] : undefined,
+    );
 
   const handleSubmit = (nextContent: string) => {
     if (!nextContent) return;
-    onRequest(nextContent);
+    send(nextContent);
     setContent('');
   };
 
-  const handlePromptsItemClick: GetProp<typeof Prompts, 'onItemClick'> = (info) => {
-    onRequest(info.data.description as string);
+  const handlePromptsItemClick: GetProp<typeof Prompts, 'onItemClick'> = (
+    info,
+  ) => {
+    send(info.data.description as string);
   };
 
   const handleAddConversation = () => {
@@ -159,12 +216,18 @@ const ChatInterface: React.FC = () => {
   const handleFileChange: GetProp<typeof Attachments, 'onChange'> = (info) =>
     setAttachedFiles(info.fileList);
 
-  const items: GetProp<typeof Bubble.List, 'items'> = messages.map(({ id, message, status }) => ({
-    key: id,
-    loading: status === 'loading',
-    role: status === 'local' ? 'local' : 'ai',
-    content: message,
-  }));
+  const items: GetProp<typeof Bubble.List, 'items'> = messages.map(
+    ({ id, role, content, representative, status }) => ({
+      key: id,
+      loading: status === 'streaming' && !content,
+      role: role === 'user' ? 'local' : 'ai',
+      header: representative,
+      content,
+    }),
+  );
+  if (isRequesting && messages.at(-1)?.role === 'user') {
+    items.push({ key: 'pending', role: 'ai', loading: true, content: '' });
+  }
 
   const welcomeSection = (
     <ConfigProvider
@@ -177,7 +240,12 @@ const ChatInterface: React.FC = () => {
         },
       }}
     >
-      <Space direction="vertical" size={16} className="placeholder" style={{ width: '100%' }}>
+      <Space
+        direction="vertical"
+        size={16}
+        className="placeholder"
+        style={{ width: '100%' }}
+      >
         <Welcome
           variant="borderless"
           icon="https://mdn.alipayobjects.com/huamei_iwk9zp/afts/img/A*s5sNRo5LjfQAAAAAAAAAAAAADgCCAQ/fmt.webp"
@@ -196,18 +264,19 @@ const ChatInterface: React.FC = () => {
             items={PROMPT_ITEMS}
             wrap
             styles={{
-              list: { 
-                width: '100%', 
-                display: 'flex', 
-                justifyContent: 'center', 
+              list: {
+                width: '100%',
+                display: 'flex',
+                justifyContent: 'center',
                 gap: '12px',
-                flexWrap: 'wrap'
+                flexWrap: 'wrap',
               },
               item: {
                 flex: 'none',
                 width: '30%',
                 minWidth: '250px',
-                backgroundImage: 'linear-gradient(137deg, #e5f4ff 0%, #efe7ff 100%)',
+                backgroundImage:
+                  'linear-gradient(137deg, #e5f4ff 0%, #efe7ff 100%)',
                 border: 0,
               },
               subItem: {
@@ -224,9 +293,9 @@ const ChatInterface: React.FC = () => {
 
   return (
     <MainLayout>
-      <StyledSider 
-        width={280} 
-        collapsible 
+      <StyledSider
+        width={280}
+        collapsible
         collapsed={collapsed}
         onCollapse={setCollapsed}
         trigger={null}
@@ -238,7 +307,7 @@ const ChatInterface: React.FC = () => {
           icon={<PlusOutlined />}
           style={{ margin: '0 12px 24px', width: 'calc(100% - 24px)' }}
         >
-          {!collapsed && "New Conversation"}
+          {!collapsed && 'New Conversation'}
         </Button>
         <Conversations
           items={conversationsItems}
@@ -248,37 +317,61 @@ const ChatInterface: React.FC = () => {
         />
       </StyledSider>
       <Layout>
-        <Header style={{ padding: '0 16px', background: '#fff', borderBottom: '1px solid #f0f0f0' }}>
+        <Header
+          style={{
+            padding: '0 16px',
+            background: '#fff',
+            borderBottom: '1px solid #f0f0f0',
+          }}
+        >
           <Button
             type="text"
             icon={collapsed ? <MenuUnfoldOutlined /> : <MenuFoldOutlined />}
             onClick={() => setCollapsed(!collapsed)}
             style={{ fontSize: '16px', width: 64, height: 64 }}
           />
+          <Badge
+            status={CONNECTION_BADGES[connection]}
+            text={`Support ${connection}`}
+          />
         </Header>
         <MainContent>
           <ChatContainer>
+            {error && (
+              <Alert
+                type="error"
+                message={error.content}
+                closable
+                onClose={dismissError}
+                showIcon
+              />
+            )}
             <MessagesContainer>
               <Bubble.List
-                items={items.length > 0 ? items : [{ content: welcomeSection, variant: 'borderless' }]}
+                items={
+                  items.length > 0
+                    ? items
+                    : [{ content: welcomeSection, variant: 'borderless' }]
+                }
                 roles={CHAT_ROLES}
               />
             </MessagesContainer>
             <InputContainer>
-              <Prompts 
-                items={SENDER_PROMPTS} 
+              <Prompts
+                items={SENDER_PROMPTS}
                 onItemClick={handlePromptsItemClick}
                 styles={{
-                  list: { 
-                    width: '100%', 
-                    display: 'flex', 
-                    justifyContent: 'center', 
-                    gap: '12px' 
+                  list: {
+                    width: '100%',
+                    display: 'flex',
+                    justifyContent: 'center',
+                    gap: '12px',
                   },
                   item: {
                     flex: 'none',
                     minWidth: '120px',
-                    backgroundImage: 'linear-gradient(137deg, #e5f4ff 0%, #efe7ff 100%)',
+                    backgroundImage:
+                      'linear-gradient(137deg, #e5f4ff 0%, #efe7ff 100%)',
                     border: 0,
                   },
                 }}
@@ -302,7 +395,8 @@ const ChatInterface: React.FC = () => {
                           : {
                               icon: <CloudUploadOutlined />,
                               title: 'Upload files',
-                              description: 'Click or drag files to this area to upload',
+                              description:
+                                'Click or drag files to this area to upload',
                             }
                       }
                     />
@@ -312,14 +406,15 @@ const ChatInterface: React.FC = () => {
                 onChange={setContent}
                 prefix={
                   <Badge dot={attachedFiles.length > 0 && !headerOpen}>
-                    <Button 
-                      type="text" 
-                      icon={<PaperClipOutlined />} 
-                      onClick={() => setHeaderOpen(!headerOpen)} 
+                    <Button
+                      type="text"
+                      icon={<PaperClipOutlined />}
+                      onClick={() => setHeaderOpen(!headerOpen)}
                     />
                   </Badge>
                 }
-                loading={agent.isRequesting()}
+                loading={isRequesting}
+                disabled={connection !== 'connected'}
                 style={{ boxShadow: '0 2px 8px rgba(0,0,0,0.15)' }}
               />
             </InputContainer>
@@ -344,7 +439,7 @@ const MainContent = styled(Content)`
   grid-column-gap: 32px;
   position: relative;
   padding: 24px;
-  
+
   & > * {
     grid-column: 2;
   }
@@ -361,7 +456,7 @@ const MessagesContainer = styled.div`
   flex: 1;
   overflow-y: auto;
   padding-bottom: 16px;
-  
+
   .placeholder {
     display: flex;
     justify-content: center;
@@ -391,7 +486,7 @@ const InputContainer = styled.div`
 
 const StyledSider = styled(Sider)`
   &.ant-layout-sider {
-    background: rgba(0,0,0,0.02);
+    background: rgba(0, 0, 0, 0.02);
     border-right: 1px solid #f0f0f0;
   }
-`;
\ No newline at end of file
+`;
@@ -0,0 +1,99 @@
+import { describe, it, expect } from '@jest/globals';
+import type { CustomerSupportServerEvent } from '@repo/api';
+import {
+  chatReducer,
+  initialChatState,
+  type ChatState,
+} from '../app/customer-support/chat-state';
+
+const receive = (state: ChatState, event: CustomerSupportServerEvent) =>
+  chatReducer(state, { type: 'event', event, id: 'generated' });
+
+describe('chatReducer', () => {
+  const sent = chatReducer(initialChatState, {
+    type: 'send',
+    threadId: 'thread-1',
+    id: 'user-1',
+    content: 'Where is my invoice?',
+  });
+
+  it('keeps the thread pending until the reply completes', () => {
+    expect(sent.pending['thread-1']).toBe(true);
+
+    const completed = receive(sent, {
+      version: 1,
+      type: 'completed',
+      threadId: 'thread-1',
+      totalSteps: 1,
+    });
+
+    expect(completed.pending['thread-1']).toBe(false);
+  });
+
+  it('joins deltas and the final response into one message', () => {
+    const delta = (content: string): CustomerSupportServerEvent => ({
+      version: 1,
+      type: 'delta',
+      threadId: 'thread-1',
+      messageId: 'run-1',
+      representative: 'BILLING SUPPORT',
+      content,
+    });
+
+    const streaming = receive(receive(sent, delta('Your ')), delta('invoice'));
+    expect(streaming.threads['thread-1']?.at(-1)).toEqual({
+      id: 'run-1',
+      role: 'assistant',
+      content: 'Your invoice',
+      representative: 'BILLING SUPPORT',
+      status: 'streaming',
+    });
+
+    const done = receive(streaming, {
+      version: 1,
+      type: 'response',
+      threadId: 'thread-1',
+      stepCount: 1,
+      messageId: 'run-1',
+      representative: 'BILLING SUPPORT',
+      content: 'Your invoice is attached.',
+    });
+    expect(done.threads['thread-1']).toHaveLength(2);
+    expect(done.threads['thread-1']?.at(-1)).toMatchObject({
+      content: 'Your invoice is attached.',
+      status: 'done',
+    });
+  });
+
+  it('keeps threads apart', () => {
+    const other = receive(sent, {
+      version: 1,
+      type: 'user_message',
+      threadId: 'thread-2',
+      content: 'Hello from another tab',
+    });
+
+    expect(other.threads['thread-1']).toHaveLength(1);
+    expect(other.threads['thread-2']).toEqual([
+      expect.objectContaining({ role: 'user', id: 'generated' }),
+    ]);
+  });
+
+  it('surfaces error events and stops waiting', () => {
+    const failed = receive(sent, {
+      version: 1,
+      type: 'error',
+      code: 'PROCESSING_FAILED',
+      content: 'Failed to process message',
+      details: 'rate limited',
+    });
+
+    expect(failed.error).toEqual({
+      code: 'PROCESSING_FAILED',
+      content: 'Failed to process message: rate limited',
+      threadId: undefined,
+    });
+    expect(failed.pending).toEqual({});
+    expect(chatReducer(failed, { type: 'dismissError' }).error).toBeUndefined();
+  });
+});
@@ -7,6 +7,10 @@ import { WorkflowModule } from './workflow/workflow.module';
 import { VercelAiSdkModule } from './vercel-ai-sdk/vercel-ai-sdk.module';
 import { StreamModule } from './stream/stream.module';
 import { CustomerSupportChatbotModule } from './customer-support-chatbot/customer-support-chatbot.module';
+import { RagAgentModule } from './rag-agent/rag-agent.module';
+import { McpClientModule } from './mcp-client/mcp-client.module';
+import { McpServerModule } from './mcp-server/mcp-server.module';
+import { WorkflowDefinitionModule } from './workflow-definition/workflow-definition.module';
 
 @Module({
   imports: [
@@ -15,6 +19,10 @@ import { CustomerSupportChatbotModule } from './customer-support-chatbot/custome
     VercelAiSdkModule,
     StreamModule,
     CustomerSupportChatbotModule,
+    RagAgentModule,
+    McpClientModule,
+    McpServerModule,
+    WorkflowDefinitionModule,
   ],
   controllers: [AppController],
   providers: [AppService],
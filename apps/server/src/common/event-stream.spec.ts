@@ -0,0 +1,52 @@
+import { EventEmitter } from 'events';
+import { Response } from 'express';
+import { describe, it, expect } from '@jest/globals';
+import { pipeEventStream, ServerSentEvent } from './event-stream';
+
+const fakeResponse = () => {
+  const res = Object.assign(new EventEmitter(), {
+    written: [] as string[],
+    ended: false,
+    status: () => res,
+    setHeader: () => res,
+    flushHeaders: () => undefined,
+    write: (chunk: string) => res.written.push(chunk),
+    end: () => {
+      res.ended = true;
+    },
+  });
+  return res;
+};
+
+describe('pipeEventStream', () => {
+  it('writes each event and ends the response', async () => {
+    const res = fakeResponse();
+
+    await pipeEventStream(res as unknown as Response, async function* () {
+      yield { event: 'done', data: { state: 1 } };
+    });
+
+    expect(res.written).toEqual(['event: done\ndata: {"state":1}\n\n']);
+    expect(res.ended).toBe(true);
+  });
+
+  it('aborts the run when the client disconnects', async () => {
+    const res = fakeResponse();
+    let runSignal: AbortSignal | undefined;
+
+    await pipeEventStream(
+      res as unknown as Response,
+      async function* (signal): AsyncGenerator<ServerSentEvent> {
+        runSignal = signal;
+        yield { event: 'token', data: 'a' };
+        res.emit('close');
+        yield { event: 'token', data: 'b' };
+        yield { event: 'token', data: 'c' };
+      },
+    );
+
+    expect(runSignal?.aborted).toBe(true);
+    expect(res.written).toHaveLength(1);
+    expect(res.ended).toBe(false);
+  });
+});
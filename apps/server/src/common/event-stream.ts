@@ -0,0 +1,40 @@
+import { Response } from 'express';
+
+export interface ServerSentEvent {
+  event: string;
+  data: unknown;
+}
+
+/**
+ * Writes an async sequence of events to the response as Server-Sent Events.
+ * `events` is handed a signal that is aborted as soon as the client
+ * disconnects, so the run behind the stream stops instead of spending tokens
+ * on a response no one reads.
+ */
+export async function pipeEventStream(
+  res: Response,
+  events: (signal: AbortSignal) => AsyncGenerator<ServerSentEvent>,
+) {
+  const controller = new AbortController();
+  res.on('close', () => controller.abort());
+
+  // Started before the headers are sent so that invalid input still gets
+  // an error response
+  const stream = events(controller.signal);
+
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.flushHeaders();
+
+  for await (const { event, data } of stream) {
+    if (controller.signal.aborted) {
+      await stream.return(undefined);
+      return;
+    }
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+
+  res.end();
+}
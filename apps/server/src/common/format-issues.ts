@@ -0,0 +1,9 @@
+import { ZodError } from 'zod';
+
+/** One line listing every issue of a failed parse, with its path. */
+export const formatIssues = ({ issues }: ZodError) =>
+  issues
+    .map(({ path, message }) =>
+      path.length ? `${path.join('.')}: ${message}` : message,
+    )
+    .join('; ');
@@ -0,0 +1,67 @@
+import { WorkflowStreamEvent } from '@repo/api';
+import {
+  CompiledStateGraph,
+  LangGraphRunnableConfig,
+} from '@langchain/langgraph';
+
+export type AnyCompiledGraph = CompiledStateGraph<any, any, any, any, any, any>;
+
+export interface GraphStreamConfig extends LangGraphRunnableConfig {
+  /** Tokens of LLM calls carrying one of these tags are not streamed. */
+  hiddenTags?: string[];
+}
+
+/**
+ * Runs a compiled graph and translates its output into stream events:
+ * one `update` per node that finished, `token` deltas while the LLM is
+ * generating, and a terminal `done` (with the final state) or `error`.
+ * A run aborted through `config.signal` ends without a terminal event.
+ */
+export async function* streamGraphEvents(
+  graph: AnyCompiledGraph,
+  input: unknown,
+  { hiddenTags = [], ...config }: GraphStreamConfig = {},
+): AsyncGenerator<WorkflowStreamEvent> {
+  try {
+    let state: unknown;
+    const stream = await graph.stream(input, {
+      ...config,
+      streamMode: ['updates', 'messages', 'values'],
+    });
+
+    for await (const [mode, chunk] of stream) {
+      if (mode === 'updates') {
+        for (const [node, update] of Object.entries(chunk)) {
+          yield { event: 'update', data: { node, update } };
+        }
+      } else if (mode === 'messages') {
+        const [message, metadata] = chunk;
+        if (
+          message._getType() === 'ai' &&
+          typeof message.content === 'string' &&
+          message.content &&
+          !metadata.tags?.some((tag: string) => hiddenTags.includes(tag))
+        ) {
+          yield {
+            event: 'token',
+            data: { node: metadata.langgraph_node, content: message.content },
+          };
+        }
+      } else {
+        state = chunk;
+      }
+    }
+
+    yield { event: 'done', data: { state } };
+  } catch (error) {
+    if (config.signal?.aborted) {
+      return;
+    }
+    yield {
+      event: 'error',
+      data: {
+        message: error instanceof Error ? error.message : String(error),
+      },
+    };
+  }
+}
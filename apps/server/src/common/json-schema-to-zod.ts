@@ -0,0 +1,134 @@
+import { z, ZodTypeAny } from 'zod';
+
+/** The subset of JSON Schema MCP servers describe tool arguments with. */
+export interface JsonSchema {
+  type?: string | string[];
+  description?: string;
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+}
+
+const literal = (value: unknown): ZodTypeAny =>
+  value === null || ['string', 'number', 'boolean'].includes(typeof value)
+    ? z.literal(value as z.Primitive)
+    : z.unknown();
+
+const union = (types: ZodTypeAny[]): ZodTypeAny =>
+  types.length === 1
+    ? types[0]
+    : z.union(types as [ZodTypeAny, ZodTypeAny, ...ZodTypeAny[]]);
+
+const convertObject = (schema: JsonSchema) => {
+  const required = new Set(schema.required ?? []);
+  const shape = Object.fromEntries(
+    Object.entries(schema.properties ?? {}).map(([key, property]) => {
+      const type = jsonSchemaToZod(property);
+      return [key, required.has(key) ? type : type.optional()];
+    }),
+  );
+
+  const object = z.object(shape);
+  if (schema.additionalProperties === false) {
+    return object.strict();
+  }
+  return typeof schema.additionalProperties === 'object'
+    ? object.catchall(jsonSchemaToZod(schema.additionalProperties))
+    : object.passthrough();
+};
+
+const convertType = (type: string, schema: JsonSchema): ZodTypeAny => {
+  switch (type) {
+    case 'string': {
+      let string = z.string();
+      if (schema.minLength !== undefined) {
+        string = string.min(schema.minLength);
+      }
+      if (schema.maxLength !== undefined) {
+        string = string.max(schema.maxLength);
+      }
+      return string;
+    }
+    case 'number':
+    case 'integer': {
+      let number = type === 'integer' ? z.number().int() : z.number();
+      if (schema.minimum !== undefined) {
+        number = number.gte(schema.minimum);
+      }
+      if (schema.maximum !== undefined) {
+        number = number.lte(schema.maximum);
+      }
+      return number;
+    }
+    case 'boolean':
+      return z.boolean();
+    case 'null':
+      return z.null();
+    case 'array': {
+      let array = z.array(
+        schema.items ? jsonSchemaToZod(schema.items) : z.unknown(),
+      );
+      if (schema.minItems !== undefined) {
+        array = array.min(schema.minItems);
+      }
+      if (schema.maxItems !== undefined) {
+        array = array.max(schema.maxItems);
+      }
+      return array;
+    }
+    case 'object':
+      return convertObject(schema);
+    default:
+      return z.unknown();
+  }
+};
+
+const convert = (schema: JsonSchema): ZodTypeAny => {
+  if (schema.const !== undefined) {
+    return literal(schema.const);
+  }
+  if (schema.enum?.length) {
+    return union(schema.enum.map(literal));
+  }
+  const variants = schema.anyOf ?? schema.oneOf;
+  if (variants?.length) {
+    return union(variants.map(jsonSchemaToZod));
+  }
+  if (Array.isArray(schema.type)) {
+    return schema.type.length
+      ? union(schema.type.map((type) => convertType(type, schema)))
+      : z.unknown();
+  }
+  if (schema.type) {
+    return convertType(schema.type, schema);
+  }
+  return schema.properties ? convertObject(schema) : z.unknown();
+};
+
+/**
+ * Converts the JSON Schema of MCP tool arguments to zod, so the tools bind to
+ * models and are validated like the built-in ones. Keywords zod cannot express
+ * simply (`$ref`, `allOf`, formats, patterns…) are left to the server to
+ * check.
+ */
+export const jsonSchemaToZod = (schema: JsonSchema): ZodTypeAny => {
+  const type = convert(schema);
+  return schema.description ? type.describe(schema.description) : type;
+};
+
+/** Arguments of a tool: always an object, as models expect. */
+export const jsonSchemaToZodObject = (schema: JsonSchema): z.AnyZodObject => {
+  const type = convertObject(schema);
+  return schema.description ? type.describe(schema.description) : type;
+};
@@ -0,0 +1,23 @@
+import { describe, it, expect } from '@jest/globals';
+import { AIMessage } from '@langchain/core/messages';
+import { messageText } from './message-text';
+
+describe('messageText', () => {
+  it('joins the text parts of list content', () => {
+    expect(messageText(new AIMessage('Agents use tools [1].'))).toBe(
+      'Agents use tools [1].',
+    );
+    expect(
+      messageText(
+        new AIMessage({
+          content: [
+            { type: 'text', text: 'Agents use tools ' },
+            { type: 'tool_use', id: 't1', name: 'retrieve', input: {} },
+            { type: 'text', text: '[1].' },
+          ],
+        }),
+      ),
+    ).toBe('Agents use tools [1].');
+    expect(messageText(undefined)).toBe('');
+  });
+});
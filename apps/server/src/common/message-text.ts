@@ -0,0 +1,15 @@
+import { BaseMessage } from '@langchain/core/messages';
+
+/**
+ * Text of a message. Some providers (e.g. Anthropic) return content as a list
+ * of parts; their text parts are joined and the others left out.
+ */
+export const messageText = (message?: BaseMessage) => {
+  const content = message?.content ?? '';
+  if (typeof content === 'string') {
+    return content;
+  }
+  return content
+    .map((part) => (part.type === 'text' ? (part.text as string) : ''))
+    .join('');
+};
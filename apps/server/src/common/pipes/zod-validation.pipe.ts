@@ -0,0 +1,27 @@
+import { BadRequestException, Injectable, PipeTransform } from '@nestjs/common';
+import { ZodSchema } from 'zod';
+
+/**
+ * Validates (and applies defaults to) an incoming value against a zod schema.
+ * Invalid input is rejected with a 400 listing every failing field.
+ */
+@Injectable()
+export class ZodValidationPipe<T> implements PipeTransform<unknown, T> {
+  constructor(private readonly schema: ZodSchema<T>) {}
+
+  transform(value: unknown): T {
+    const result = this.schema.safeParse(value);
+
+    if (!result.success) {
+      throw new BadRequestException({
+        message: 'Validation failed',
+        errors: result.error.issues.map((issue) => ({
+          path: issue.path.join('.'),
+          message: issue.message,
+        })),
+      });
+    }
+
+    return result.data;
+  }
+}
@@ -0,0 +1,69 @@
+import { ZodTypeAny } from 'zod';
+import { RunnableConfig } from '@langchain/core/runnables';
+import { StructuredToolInterface } from '@langchain/core/tools';
+import { ToolCall } from '@langchain/core/messages/tool';
+import { ToolMessage } from '@langchain/core/messages';
+import { formatIssues } from './format-issues';
+
+const toolError = ({ id, name }: ToolCall, message: string) =>
+  new ToolMessage({
+    content: `Error: ${message}`,
+    tool_call_id: id ?? '',
+    name,
+    status: 'error',
+  });
+
+const isZodSchema = (schema: unknown): schema is ZodTypeAny =>
+  typeof (schema as ZodTypeAny | undefined)?.safeParse === 'function';
+
+/**
+ * Runs the tool calls of one model turn concurrently and answers each with a
+ * `ToolMessage`, in the order of the calls. Unknown tools, arguments that do
+ * not match the tool's zod schema and tools that throw are reported back to
+ * the model as error messages instead of failing the run.
+ */
+export const executeToolCalls = (
+  tools: StructuredToolInterface[],
+  toolCalls: ToolCall[],
+  config?: RunnableConfig,
+) => {
+  const toolsByName = new Map(tools.map((tool) => [tool.name, tool]));
+
+  return Promise.all(
+    toolCalls.map(async (toolCall): Promise<ToolMessage> => {
+      const tool = toolsByName.get(toolCall.name);
+      if (!tool) {
+        return toolError(
+          toolCall,
+          `Unknown tool ${toolCall.name}; available tools are ${[...toolsByName.keys()].join(', ')}`,
+        );
+      }
+
+      let args = toolCall.args;
+      if (isZodSchema(tool.schema)) {
+        const parsed = tool.schema.safeParse(args);
+        if (!parsed.success) {
+          return toolError(
+            toolCall,
+            `Invalid arguments for ${tool.name}: ${formatIssues(parsed.error)}`,
+          );
+        }
+        args = parsed.data;
+      }
+
+      try {
+        const output = await tool.invoke(args, config);
+        return new ToolMessage({
+          content: typeof output === 'string' ? output : JSON.stringify(output),
+          tool_call_id: toolCall.id ?? '',
+          name: tool.name,
+        });
+      } catch (error) {
+        return toolError(
+          toolCall,
+          error instanceof Error ? error.message : String(error),
+        );
+      }
+    }),
+  );
+};
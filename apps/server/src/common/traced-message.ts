@@ -0,0 +1,29 @@
+import {
+  AIMessage,
+  BaseMessage,
+  ToolMessage,
+  isBaseMessage,
+} from '@langchain/core/messages';
+import { TracedMessage } from '@repo/api';
+
+export const toTracedMessage = (message: BaseMessage): TracedMessage => {
+  const { tool_calls: toolCalls } = message as AIMessage;
+  const { tool_call_id: toolCallId } = message as ToolMessage;
+
+  return {
+    role: message._getType(),
+    content: message.content,
+    ...(toolCalls?.length && {
+      toolCalls: toolCalls.map(({ id, name, args }) => ({ id, name, args })),
+    }),
+    ...(toolCallId && { toolCallId }),
+  };
+};
+
+/** JSON of a graph state or update, with messages in their traced form. */
+export const toJson = (value: unknown) =>
+  JSON.stringify(value ?? null, function (key, encoded) {
+    // `this[key]` is the value before its own `toJSON` ran
+    const original = (this as Record<string, unknown>)[key];
+    return isBaseMessage(original) ? toTracedMessage(original) : encoded;
+  });
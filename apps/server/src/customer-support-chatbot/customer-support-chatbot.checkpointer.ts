@@ -0,0 +1,34 @@
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { FactoryProvider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { BaseCheckpointSaver, MemorySaver } from '@langchain/langgraph';
+import { SqliteSaver } from '@langchain/langgraph-checkpoint-sqlite';
+
+export const CUSTOMER_SUPPORT_CHECKPOINTER = Symbol(
+  'CUSTOMER_SUPPORT_CHECKPOINTER',
+);
+
+/**
+ * Where customer support conversations are checkpointed. Defaults to a SQLite
+ * file so threads survive restarts; set `CUSTOMER_SUPPORT_CHECKPOINTER=memory`
+ * to keep them in process only.
+ */
+export const customerSupportCheckpointerProvider: FactoryProvider<BaseCheckpointSaver> =
+  {
+    provide: CUSTOMER_SUPPORT_CHECKPOINTER,
+    inject: [ConfigService],
+    useFactory: (configService: ConfigService) => {
+      if (configService.get('CUSTOMER_SUPPORT_CHECKPOINTER') === 'memory') {
+        return new MemorySaver();
+      }
+
+      const path = configService.get(
+        'CUSTOMER_SUPPORT_SQLITE_PATH',
+        'data/customer-support.sqlite',
+      );
+      mkdirSync(dirname(path), { recursive: true });
+
+      return SqliteSaver.fromConnString(path);
+    },
+  };
@@ -0,0 +1,267 @@
+import { Test } from '@nestjs/testing';
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { MemorySaver } from '@langchain/langgraph';
+import { Server, Socket } from 'socket.io';
+import { CustomerSupportChatbotGateway } from './customer-support-chatbot.gateway';
+import { CustomerSupportChatbotService } from './customer-support-chatbot.service';
+import { CUSTOMER_SUPPORT_CHECKPOINTER } from './customer-support-chatbot.checkpointer';
+import { RefundApprovalService } from './refund-approval.service';
+import { LlmProviderService } from '../llm-provider/llm-provider.service';
+import { RunHistoryService } from '../run-history/run-history.service';
+import { FakeChatModel } from '../llm-provider/fake/fake-chat-model';
+import { CustomerSupportServerEventSchema } from '@repo/api';
+
+/**
+ * Just enough of socket.io's room semantics to see who receives what.
+ */
+class FakeSockets {
+  readonly received = new Map<string, any[]>();
+  private readonly sockets = new Map<string, Socket>();
+
+  readonly server = {
+    to: (room: string) => ({
+      emit: (_event: string, data: any) =>
+        this.deliver((socket) => socket.rooms.has(room), data),
+    }),
+  } as unknown as Server;
+
+  connect(id: string) {
+    const rooms = new Set([id]);
+    const socket = {
+      id,
+      rooms,
+      emit: (_event: string, data: any) =>
+        this.deliver((s) => s === socket, data),
+      to: (room: string) => ({
+        emit: (_event: string, data: any) =>
+          this.deliver((s) => s !== socket && s.rooms.has(room), data),
+      }),
+      join: async (room: string) => void rooms.add(room),
+      leave: async (room: string) => void rooms.delete(room),
+    } as unknown as Socket;
+
+    this.sockets.set(id, socket);
+    this.received.set(id, []);
+    return socket;
+  }
+
+  private deliver(to: (socket: Socket) => boolean, data: any) {
+    for (const socket of this.sockets.values()) {
+      if (to(socket)) this.received.get(socket.id)?.push(data);
+    }
+    return true;
+  }
+}
+
+describe('CustomerSupportChatbotGateway', () => {
+  let gateway: CustomerSupportChatbotGateway;
+  let refundApprovalService: RefundApprovalService;
+  let runHistory: RunHistoryService;
+  let sockets: FakeSockets;
+  let llm: FakeChatModel;
+
+  const received = (id: string, type?: string) =>
+    sockets.received.get(id).filter((event) => !type || event.type === type);
+
+  // Deltas are covered separately; here we only care who gets what
+  const types = (id: string) =>
+    received(id)
+      .map(({ type }) => type)
+      .filter((type) => type !== 'delta');
+
+  beforeEach(async () => {
+    llm = new FakeChatModel({
+      responses: [
+        'Hi! How can I help?',
+        { json: { nextRepresentative: 'RESPOND' } },
+      ],
+    });
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        CustomerSupportChatbotGateway,
+        CustomerSupportChatbotService,
+        RefundApprovalService,
+        { provide: LlmProviderService, useValue: { chatModel: () => llm } },
+        {
+          provide: RunHistoryService,
+          useFactory: () => new RunHistoryService(':memory:').open(),
+        },
+        { provide: CUSTOMER_SUPPORT_CHECKPOINTER, useValue: new MemorySaver() },
+      ],
+    }).compile();
+
+    sockets = new FakeSockets();
+    gateway = moduleRef.get(CustomerSupportChatbotGateway);
+    gateway.server = sockets.server;
+    refundApprovalService = moduleRef.get(RefundApprovalService);
+    runHistory = moduleRef.get(RunHistoryService);
+  });
+
+  it('only confirms the connection to the socket that connected', () => {
+    gateway.handleConnection(sockets.connect('a'));
+    sockets.connect('b');
+
+    expect(types('a')).toEqual(['connection']);
+    expect(types('b')).toEqual([]);
+  });
+
+  it('sends replies to the sender and tabs on the same thread only', async () => {
+    const sender = sockets.connect('sender');
+    const otherTab = sockets.connect('other-tab');
+    const stranger = sockets.connect('stranger');
+    await gateway.handleJoin({ threadId: 'thread-1' }, otherTab);
+    await gateway.handleJoin({ threadId: 'thread-2' }, stranger);
+
+    await gateway.handleMessage(
+      { message: 'Hello', threadId: 'thread-1' },
+      sender,
+    );
+
+    expect(types('sender')).toEqual(['thread', 'response', 'completed']);
+    expect(types('other-tab')).toEqual([
+      'joined',
+      'user_message',
+      'response',
+      'completed',
+    ]);
+    expect(types('stranger')).toEqual(['joined']);
+  });
+
+  it('records each customer message as a run', async () => {
+    await gateway.handleMessage({ message: 'Hello' }, sockets.connect('a'));
+
+    expect(runHistory.list({ limit: 10 })).toEqual([
+      expect.objectContaining({
+        graph: 'customer-support',
+        status: 'succeeded',
+      }),
+    ]);
+  });
+
+  it('streams representative replies token by token', async () => {
+    const sender = sockets.connect('sender');
+
+    await gateway.handleMessage({ message: 'Hello' }, sender);
+
+    const deltas = received('sender', 'delta');
+    const [response] = received('sender', 'response');
+    expect(deltas.map(({ content }) => content)).toEqual([
+      'Hi! ',
+      'How ',
+      'can ',
+      'I ',
+      'help?',
+    ]);
+    expect(deltas).toContainEqual(
+      expect.objectContaining({
+        representative: 'INITIAL SUPPORT',
+        messageId: response.messageId,
+      }),
+    );
+    expect(response).toMatchObject({
+      content: 'Hi! How can I help?',
+      representative: 'INITIAL SUPPORT',
+    });
+  });
+
+  it('does not stream the categorization calls', async () => {
+    llm = new FakeChatModel({
+      responses: [
+        'Let me transfer you.',
+        { json: { nextRepresentative: 'BILLING' } },
+        'Your invoice is attached.',
+        { json: { nextRepresentative: 'RESPOND' } },
+      ],
+    });
+    const sender = sockets.connect('sender');
+
+    await gateway.handleMessage({ message: 'Where is my invoice?' }, sender);
+
+    const deltas = received('sender', 'delta');
+    expect(deltas.some(({ content }) => content.includes('{'))).toBe(false);
+    expect(
+      deltas
+        .filter(({ representative }) => representative === 'BILLING SUPPORT')
+        .map(({ content }) => content)
+        .join(''),
+    ).toBe('Your invoice is attached.');
+  });
+
+  it('leaves the previous thread when a socket switches conversations', async () => {
+    const socket = sockets.connect('a');
+    await gateway.handleJoin({ threadId: 'thread-1' }, socket);
+    await gateway.handleJoin({ threadId: 'thread-2' }, socket);
+
+    expect([...socket.rooms]).toEqual(['a', 'thread:thread-2']);
+  });
+
+  it('reports invalid messages to the sender only', async () => {
+    const sender = sockets.connect('sender');
+    const otherTab = sockets.connect('other-tab');
+    await gateway.handleJoin({ threadId: 'thread-1' }, otherTab);
+
+    await gateway.handleMessage({ threadId: 'thread-1' }, sender);
+
+    expect(types('sender')).toEqual(['error']);
+    expect(types('other-tab')).toEqual(['joined']);
+  });
+
+  it('answers invalid payloads with structured error events', async () => {
+    const sender = sockets.connect('sender');
+
+    await gateway.handleMessage({ message: '', threadId: 42 }, sender);
+    await gateway.handleMessage({ version: 2, message: 'Hello' }, sender);
+
+    expect(received('sender')).toEqual([
+      {
+        version: 1,
+        type: 'error',
+        code: 'INVALID_PAYLOAD',
+        content: 'Invalid payload',
+        issues: [
+          expect.objectContaining({ path: 'message' }),
+          expect.objectContaining({ path: 'threadId' }),
+        ],
+      },
+      expect.objectContaining({ code: 'UNSUPPORTED_VERSION' }),
+    ]);
+  });
+
+  it('stamps every event with the contract version', async () => {
+    const sender = sockets.connect('sender');
+
+    await gateway.handleMessage({ message: 'Hello' }, sender);
+
+    for (const event of received('sender')) {
+      expect(CustomerSupportServerEventSchema.parse(event).version).toBe(1);
+    }
+  });
+
+  it('keeps delivering refund decisions after one fails', async () => {
+    const socket = sockets.connect('a');
+    await gateway.handleJoin({ threadId: 'thread-1' }, socket);
+    jest.spyOn(gateway['logger'], 'error').mockImplementation(() => undefined);
+    gateway.afterInit(sockets.server);
+
+    refundApprovalService.resolutions$.next({
+      threadId: 'thread-1',
+      status: 'approved',
+      steps: [{ handle_refund: null }],
+    });
+    refundApprovalService.resolutions$.next({
+      threadId: 'thread-1',
+      status: 'approved',
+      steps: [
+        { handle_refund: { messages: { content: 'Refund processed!' } } },
+      ],
+    });
+
+    expect(received('a', 'response')).toEqual([
+      expect.objectContaining({ content: 'Refund processed!' }),
+    ]);
+    expect(received('a', 'completed')).toEqual([
+      expect.objectContaining({ refund: 'approved', totalSteps: 1 }),
+    ]);
+  });
+});
@@ -8,35 +8,104 @@ import {
   OnGatewayDisconnect,
   OnGatewayInit,
 } from '@nestjs/websockets';
-import { CustomerSupportChatbotService } from './customer-support-chatbot.service';
+import {
+  CATEGORIZATION_TAG,
+  CustomerSupportChatbotService,
+} from './customer-support-chatbot.service';
+import { RefundApprovalService } from './refund-approval.service';
 import { HumanMessage } from '@langchain/core/messages';
 import { Server, Socket } from 'socket.io';
 import { Logger } from '@nestjs/common';
 import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
+import {
+  CUSTOMER_SUPPORT_EVENTS_VERSION,
+  CUSTOMER_SUPPORT_NAMESPACE,
+  CustomerSupportServerEvent,
+  CustomerSupportServerEventSchema,
+  CustomerSupportSocketEvent,
+  JoinThreadEventSchema,
+  Representative,
+  SendMessageEventSchema,
+} from '@repo/api';
+
+/** A server event before the gateway stamps the contract version on it. */
+type OutgoingEvent<Event = CustomerSupportServerEvent> = Event extends unknown
+  ? Omit<Event, 'version'>
+  : never;
+
+/** A socket, a room or the whole namespace. */
+interface EventTarget {
+  emit(event: string, ...args: unknown[]): unknown;
+}
+
+/** A message in a graph step, either an instance or its serialized form. */
+interface StepMessage {
+  id?: string;
+  content?: unknown;
+  kwargs?: { id?: string; content?: unknown };
+}
+
+const THREAD_ROOM_PREFIX = 'thread:';
+
+/** Every socket following a conversation (e.g. several browser tabs) joins its room. */
+const threadRoom = (threadId: string) => `${THREAD_ROOM_PREFIX}${threadId}`;
+
+/** `billing_support` → `BILLING SUPPORT` */
+const toRepresentative = (nodeName: string) =>
+  nodeName.replace('_', ' ').toUpperCase() as Representative;
 
 @WebSocketGateway({
   cors: { origin: '*' },
-  namespace: '/customer-support',
-  transports: ['websocket', 'polling']
+  namespace: CUSTOMER_SUPPORT_NAMESPACE,
+  transports: ['websocket', 'polling'],
 })
-export class CustomerSupportChatbotGateway implements OnGatewayConnection, OnGatewayDisconnect, OnGatewayInit {
+export class CustomerSupportChatbotGateway
+  implements OnGatewayConnection, OnGatewayDisconnect, OnGatewayInit
+{
   @WebSocketServer() server: Server;
   private readonly logger = new Logger(CustomerSupportChatbotGateway.name);
 
   constructor(
     private readonly customerSupportChatbotService: CustomerSupportChatbotService,
+    private readonly refundApprovalService: RefundApprovalService,
   ) {}
 
   afterInit(server: Server) {
     this.logger.log('WebSocket Gateway initialized');
+
+    // Deliver supervisor decisions to whoever is chatting on the thread. A
+    // failing delivery is logged so later resolutions still reach customers.
+    this.refundApprovalService.resolutions$.subscribe(
+      ({ threadId, status, steps }) => {
+        try {
+          const room = this.server.to(threadRoom(threadId));
+          steps.forEach((step, index) =>
+            this.sendStep(room, threadId, index + 1, step),
+          );
+          this.send(room, {
+            type: 'completed',
+            threadId,
+            totalSteps: steps.length,
+            refund: status,
+          });
+        } catch (error) {
+          this.logger.error(
+            `Failed to deliver the refund decision for thread ${threadId}:`,
+            error,
+          );
+        }
+      },
+    );
   }
 
   handleConnection(client: Socket) {
     this.logger.log(`Client connected: ${client.id}`);
     // Send a message back to confirm connection
-    this.server.emit('message', { 
+    this.send(client, {
       type: 'connection',
-      content: `Connected to customer support chatbot. Client ID: ${client.id}`
+      clientId: client.id,
+      content: `Connected to customer support chatbot. Client ID: ${client.id}`,
     });
   }
 
@@ -44,65 +113,150 @@ export class CustomerSupportChatbotGateway implements OnGatewayConnection, OnGat
     this.logger.log(`Client disconnected: ${client.id}`);
   }
 
-  private extractMessageContent(step: any): { content: string; representative: string } {
+  /**
+   * Emits an event of the shared contract. Events are checked against the
+   * schema so the server cannot drift from what clients validate.
+   */
+  private send(target: EventTarget, event: OutgoingEvent) {
+    target.emit(
+      CustomerSupportSocketEvent.Message,
+      CustomerSupportServerEventSchema.parse({
+        version: CUSTOMER_SUPPORT_EVENTS_VERSION,
+        ...event,
+      }),
+    );
+  }
+
+  /**
+   * Validates a client event, answering invalid ones with an error event.
+   */
+  private parse<Schema extends z.ZodTypeAny>(
+    client: Socket,
+    schema: Schema,
+    payload: unknown,
+  ): z.infer<Schema> | undefined {
+    const result = schema.safeParse(payload);
+    if (result.success) {
+      return result.data;
+    }
+
+    const issues = result.error.issues.map(({ path, message }) => ({
+      path: path.join('.'),
+      message,
+    }));
+    this.logger.error(`Invalid payload from ${client.id}:`, issues);
+
+    const unsupportedVersion = issues.some(({ path }) => path === 'version');
+    this.send(client, {
+      type: 'error',
+      code: unsupportedVersion ? 'UNSUPPORTED_VERSION' : 'INVALID_PAYLOAD',
+      content: unsupportedVersion
+        ? `Unsupported event version; this server speaks version ${CUSTOMER_SUPPORT_EVENTS_VERSION}`
+        : 'Invalid payload',
+      issues,
+    });
+    return undefined;
+  }
+
+  /**
+   * Moves the socket into the thread's room, leaving any conversation it was
+   * following before, so replies reach every tab on the thread and no one else.
+   */
+  private async joinThread(client: Socket, threadId: string) {
+    const room = threadRoom(threadId);
+
+    await Promise.all(
+      [...client.rooms]
+        .filter((joined) => joined.startsWith(THREAD_ROOM_PREFIX))
+        .filter((joined) => joined !== room)
+        .map((joined) => client.leave(joined)),
+    );
+    await client.join(room);
+
+    return room;
+  }
+
+  @SubscribeMessage(CustomerSupportSocketEvent.Join)
+  async handleJoin(
+    @MessageBody() payload: unknown,
+    @ConnectedSocket() client: Socket,
+  ) {
+    const event = this.parse(client, JoinThreadEventSchema, payload);
+    if (!event) {
+      return;
+    }
+
+    await this.joinThread(client, event.threadId);
+    this.logger.log(`Client ${client.id} joined thread ${event.threadId}`);
+    this.send(client, { type: 'joined', threadId: event.threadId });
+  }
+
+  private extractMessageContent(step: Record<string, unknown>): {
+    content: string;
+    representative: Representative;
+    messageId?: string;
+  } {
     this.logger.debug('Extracting message content from step:', step);
-    
+
     // Get the node name (e.g., 'initial_support', 'billing_support')
     const nodeName = Object.keys(step)[0];
-    const nodeOutput = step[nodeName];
+    const nodeOutput = step[nodeName] as {
+      messages?: StepMessage | StepMessage[];
+    };
 
     // Extract the message content
     let content = '';
-    if (Array.isArray(nodeOutput.messages)) {
-      // Handle array of messages
-      const message = nodeOutput.messages[0];
-      content = message?.kwargs?.content || message?.content || '';
-    } else if (nodeOutput.messages?.kwargs?.content) {
-      // Handle single message with kwargs
-      content = nodeOutput.messages.kwargs.content;
-    } else if (nodeOutput.messages?.content) {
-      // Handle single message without kwargs
-      content = nodeOutput.messages.content;
+    const message = Array.isArray(nodeOutput.messages)
+      ? nodeOutput.messages[0]
+      : nodeOutput.messages;
+    if (typeof message?.kwargs?.content === 'string') {
+      // Handle serialized message with kwargs
+      content = message.kwargs.content;
+    } else if (typeof message?.content === 'string') {
+      content = message.content;
     }
 
     const response = {
       content,
-      representative: nodeName.replace('_', ' ').toUpperCase(),
+      representative: toRepresentative(nodeName),
+      // Matches the `messageId` of the deltas that streamed this message
+      messageId: message?.id ?? message?.kwargs?.id,
     };
 
     this.logger.debug('Extracted response:', response);
     return response;
   }
 
-  @SubscribeMessage('message')
+  /** Sends the message a graph step produced as a `response` event. */
+  private sendStep(
+    target: EventTarget,
+    threadId: string,
+    stepCount: number,
+    step: Record<string, unknown>,
+  ) {
+    const messageToSend = {
+      type: 'response' as const,
+      threadId,
+      stepCount,
+      ...this.extractMessageContent(step),
+    };
+
+    this.logger.log(`Emitting response to thread ${threadId}:`, messageToSend);
+    this.send(target, messageToSend);
+  }
+
+  @SubscribeMessage(CustomerSupportSocketEvent.Message)
   async handleMessage(
-    @MessageBody() payload: any,
+    @MessageBody() payload: unknown,
     @ConnectedSocket() client: Socket,
   ) {
     this.logger.log(`Received raw payload from ${client.id}:`, payload);
 
-    // Extract message from payload, handling different formats
-    let message = '';
-    try {
-      if (typeof payload === 'string') {
-        const parsed = JSON.parse(payload);
-        message = parsed?.data?.message || parsed?.message || parsed;
-      } else {
-        message = payload?.data?.message || payload?.message || payload;
-      }
-    } catch (e) {
-      message = payload;
-    }
-
-    if (!message || typeof message !== 'string') {
-      const errorMsg = 'Invalid or no message provided';
-      this.logger.error(errorMsg);
-      this.server.emit('message', { 
-        type: 'error',
-        content: errorMsg 
-      });
+    const event = this.parse(client, SendMessageEventSchema, payload);
+    if (!event) {
       return;
     }
+    const { message, threadId: requestedThreadId } = event;
 
     this.logger.log(`Processing message from client ${client.id}: ${message}`);
 
@@ -110,60 +264,108 @@ export class CustomerSupportChatbotGateway implements OnGatewayConnection, OnGat
       this.logger.log('Creating graph...');
       const graph = await this.customerSupportChatbotService.graph();
       this.logger.log('Graph created successfully');
-      
-      const threadId = uuidv4();
-      this.logger.log(`Created thread ID: ${threadId}`);
 
-      this.logger.log('Initializing stream...');
-      const stream = await graph.stream({
-        messages: [
-          {
-            role: 'user',
-            content: message,
-          }
-        ],
-        nextRepresentative: null,
-        refundAuthorized: false,
-      }, {
-        configurable: {
-          thread_id: threadId,
-        }
+      // Continue the client's thread, or start a new one it can resume later
+      const threadId = requestedThreadId || uuidv4();
+      const { values } = await graph.getState({
+        configurable: { thread_id: threadId },
+      });
+      const resumed = Boolean(values?.messages?.length);
+      this.logger.log(
+        `${resumed ? 'Resuming' : 'Created'} thread ID: ${threadId}`,
+      );
+      const room = await this.joinThread(client, threadId);
+      this.send(client, { type: 'thread', threadId, resumed });
+      // Let the thread's other tabs show what this one sent
+      this.send(client.to(room), {
+        type: 'user_message',
+        threadId,
+        content: message,
       });
+
+      this.logger.log('Initializing stream...');
+      // `messages` yields tokens as representatives speak, `updates` the
+      // finished message of each node
+      const stream = await graph.stream(
+        {
+          messages: [
+            {
+              role: 'user',
+              content: message,
+            },
+          ],
+          nextRepresentative: null,
+          refundAuthorized: false,
+        },
+        {
+          ...this.customerSupportChatbotService.runConfig(threadId),
+          streamMode: ['messages', 'updates'],
+        },
+      );
       this.logger.log('Stream initialized successfully');
 
       let stepCount = 0;
       // Stream each response to the client
-      for await (const step of stream) {
+      for await (const [mode, chunk] of stream) {
+        if (mode === 'messages') {
+          const [token, metadata] = chunk;
+          if (
+            metadata.tags?.includes(CATEGORIZATION_TAG) ||
+            typeof token.content !== 'string' ||
+            !token.content
+          ) {
+            continue;
+          }
+
+          this.send(this.server.to(room), {
+            type: 'delta',
+            threadId,
+            messageId: token.id,
+            representative: toRepresentative(metadata.langgraph_node),
+            content: token.content,
+          });
+          continue;
+        }
+
+        const step = chunk;
+        // Interrupts are reported once the stream completes
+        if (Object.keys(step)[0]?.startsWith('__')) {
+          continue;
+        }
+
         stepCount++;
         this.logger.log(`Processing step ${stepCount}:`, step);
-        
-        const response = this.extractMessageContent(step);
-        const messageToSend = {
-          type: 'response',
-          threadId,
-          stepCount,
-          ...response
-        };
-        
-        this.logger.log(`Emitting response to client ${client.id}:`, messageToSend);
-        this.server.emit('message', messageToSend);
+        this.sendStep(this.server.to(room), threadId, stepCount, step);
       }
       this.logger.log(`Stream completed. Total steps: ${stepCount}`);
 
+      const approval =
+        await this.refundApprovalService.recordIfInterrupted(threadId);
+      if (approval) {
+        this.send(this.server.to(room), {
+          type: 'refund_pending',
+          threadId,
+          content: 'Your refund request is waiting for approval.',
+        });
+      }
+
       // Send completion notification
-      this.server.emit('message', { 
+      this.send(this.server.to(room), {
         type: 'completed',
-        threadId, 
-        totalSteps: stepCount 
+        threadId,
+        totalSteps: stepCount,
       });
-
     } catch (error) {
       this.logger.error('Chat error:', error);
-      this.logger.error('Error stack:', error instanceof Error ? error.stack : 'No stack trace');
-      this.server.emit('message', { 
+      this.logger.error(
+        'Error stack:',
+        error instanceof Error ? error.stack : 'No stack trace',
+      );
+      this.send(client, {
         type: 'error',
+        code: 'PROCESSING_FAILED',
         content: 'Failed to process message',
-        details: error instanceof Error ? error.message : String(error)
+        details: error instanceof Error ? error.message : String(error),
       });
     }
   }
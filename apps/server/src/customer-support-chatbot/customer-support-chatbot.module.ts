@@ -1,8 +1,55 @@
-import { Module } from '@nestjs/common';
-import { CustomerSupportChatbotService } from './customer-support-chatbot.service';
+import { Module, OnModuleInit } from '@nestjs/common';
+import { SendMessageEventSchema } from '@repo/api';
+import {
+  CUSTOMER_SUPPORT_GRAPH,
+  CustomerSupportChatbotService,
+} from './customer-support-chatbot.service';
 import { CustomerSupportChatbotGateway } from './customer-support-chatbot.gateway';
+import { customerSupportCheckpointerProvider } from './customer-support-chatbot.checkpointer';
+import { RefundApprovalService } from './refund-approval.service';
+import { RefundApprovalController } from './refund-approval.controller';
+import { LlmProviderModule } from '../llm-provider/llm-provider.module';
+import { ConfigModule } from '@nestjs/config';
+import { GraphRegistryModule } from '../graph-registry/graph-registry.module';
+import {
+  GraphRegistryService,
+  registeredGraph,
+} from '../graph-registry/graph-registry.service';
+import { RunHistoryModule } from '../run-history/run-history.module';
 
 @Module({
-  providers: [CustomerSupportChatbotGateway, CustomerSupportChatbotService],
+  imports: [
+    ConfigModule,
+    LlmProviderModule,
+    GraphRegistryModule,
+    RunHistoryModule,
+  ],
+  controllers: [RefundApprovalController],
+  providers: [
+    CustomerSupportChatbotGateway,
+    CustomerSupportChatbotService,
+    customerSupportCheckpointerProvider,
+    RefundApprovalService,
+  ],
 })
-export class CustomerSupportChatbotModule {}
+export class CustomerSupportChatbotModule implements OnModuleInit {
+  constructor(
+    private readonly graphRegistry: GraphRegistryService,
+    private readonly customerSupportChatbotService: CustomerSupportChatbotService,
+    private readonly refundApprovalService: RefundApprovalService,
+  ) {}
+
+  onModuleInit() {
+    this.graphRegistry.register(
+      registeredGraph({
+        name: CUSTOMER_SUPPORT_GRAPH,
+        description:
+          'Routes a customer message to billing or technical support, pausing refunds for approval.',
+        schema: SendMessageEventSchema.required({ threadId: true }),
+        build: () => this.customerSupportChatbotService.graph(),
+        stream: ({ message, threadId }, signal) =>
+          this.refundApprovalService.streamEvents(message, threadId, signal),
+      }),
+    );
+  }
+}
@@ -0,0 +1,144 @@
+import { Test } from '@nestjs/testing';
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { MemorySaver } from '@langchain/langgraph';
+import { CustomerSupportChatbotService } from './customer-support-chatbot.service';
+import { CUSTOMER_SUPPORT_CHECKPOINTER } from './customer-support-chatbot.checkpointer';
+import { LlmProviderService } from '../llm-provider/llm-provider.service';
+import { RunHistoryService } from '../run-history/run-history.service';
+import {
+  FakeChatModel,
+  FakeChatModelInput,
+} from '../llm-provider/fake/fake-chat-model';
+
+describe('CustomerSupportChatbotService', () => {
+  let service: CustomerSupportChatbotService;
+  let llm: FakeChatModel;
+
+  const script = (responses: FakeChatModelInput['responses']) => {
+    llm = new FakeChatModel({ responses });
+  };
+
+  const config = { configurable: { thread_id: 'thread-1' } };
+
+  const ask = async (content: string) => {
+    const graph = await service.graph();
+    const state = await graph.invoke(
+      {
+        messages: [{ role: 'user', content }],
+        nextRepresentative: null,
+        refundAuthorized: false,
+      },
+      config,
+    );
+
+    return { graph, state };
+  };
+
+  beforeEach(async () => {
+    llm = new FakeChatModel();
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        CustomerSupportChatbotService,
+        { provide: LlmProviderService, useValue: { chatModel: () => llm } },
+        {
+          provide: RunHistoryService,
+          useFactory: () => new RunHistoryService(':memory:').open(),
+        },
+        { provide: CUSTOMER_SUPPORT_CHECKPOINTER, useValue: new MemorySaver() },
+      ],
+    }).compile();
+
+    service = moduleRef.get(CustomerSupportChatbotService);
+  });
+
+  it('answers conversational messages directly', async () => {
+    script([
+      'Hi! How can I help?',
+      { json: { nextRepresentative: 'RESPOND' } },
+    ]);
+
+    const { state } = await ask('Hello');
+
+    expect(state.nextRepresentative).toBe('RESPOND');
+    expect(state.messages.at(-1)?.content).toBe('Hi! How can I help?');
+    expect(llm.calls).toHaveLength(2);
+  });
+
+  it('continues earlier conversations on the same thread', async () => {
+    script([
+      'Hi! How can I help?',
+      { json: { nextRepresentative: 'RESPOND' } },
+      'You said hello earlier.',
+      { json: { nextRepresentative: 'RESPOND' } },
+    ]);
+
+    await ask('Hello');
+    const { state } = await ask('What did I say?');
+
+    expect(state.messages.map(({ content }) => content)).toEqual([
+      'Hello',
+      'Hi! How can I help?',
+      'What did I say?',
+      'You said hello earlier.',
+    ]);
+  });
+
+  it('hands technical problems to technical support', async () => {
+    script([
+      'Let me transfer you.',
+      { json: { nextRepresentative: 'TECHNICAL' } },
+      'Try turning it off and on again.',
+    ]);
+
+    const { state } = await ask('My laptop does not boot');
+
+    expect(state.messages.at(-1)?.content).toBe(
+      'Try turning it off and on again.',
+    );
+    // The transfer message is trimmed from the technical support prompt.
+    expect(llm.calls[2]?.map(({ content }) => content)).toEqual([
+      expect.stringContaining('diagnosing technical computer issues'),
+      'My laptop does not boot',
+    ]);
+  });
+
+  it('lets billing support answer without a refund', async () => {
+    script([
+      'Let me transfer you.',
+      { json: { nextRepresentative: 'BILLING' } },
+      'Your invoice is attached.',
+      { json: { nextRepresentative: 'RESPOND' } },
+    ]);
+
+    const { graph, state } = await ask('Where is my invoice?');
+
+    expect(state.messages.at(-1)?.content).toBe('Your invoice is attached.');
+    expect((await graph.getState(config)).next).toEqual([]);
+  });
+
+  it('interrupts refunds until a human authorizes them', async () => {
+    script([
+      'Let me transfer you.',
+      { json: { nextRepresentative: 'BILLING' } },
+      'I will refund you.',
+      { json: { nextRepresentative: 'REFUND' } },
+    ]);
+
+    const { graph, state } = await ask('I want my money back');
+
+    expect(state.messages.at(-1)?.content).toBe('I will refund you.');
+
+    const interrupted = await graph.getState(config);
+    expect(interrupted.next).toEqual(['handle_refund']);
+    expect(interrupted.tasks[0]?.interrupts[0]?.value).toBe(
+      'Human authorization required.',
+    );
+
+    await graph.updateState(config, { refundAuthorized: true });
+    const resumed = await graph.invoke(null, config);
+
+    expect(resumed.messages.at(-1)?.content).toBe('Refund processed!');
+    expect((await graph.getState(config)).next).toEqual([]);
+  });
+});
@@ -1,9 +1,10 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { ChatTogetherAI } from '@langchain/community/chat_models/togetherai';
+import { Inject, Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
 import { BaseMessage, isAIMessage } from '@langchain/core/messages';
+import { BaseChatModelCallOptions } from '@langchain/core/language_models/chat_models';
 import {
   Annotation,
-  MemorySaver,
+  BaseCheckpointSaver,
+  LangGraphRunnableConfig,
   MessagesAnnotation,
   NodeInterrupt,
   StateGraph,
@@ -11,6 +12,11 @@ import {
 import { RoleTemplates } from './role.templates';
 import zodToJsonSchema from 'zod-to-json-schema';
 import { z } from 'zod';
+import { SqliteSaver } from '@langchain/langgraph-checkpoint-sqlite';
+import { LlmProviderService } from '../llm-provider/llm-provider.service';
+import { CUSTOMER_SUPPORT_CHECKPOINTER } from './customer-support-chatbot.checkpointer';
+import { streamGraphEvents } from '../common/graph-stream';
+import { RunHistoryService } from '../run-history/run-history.service';
 
 const RepresentativeType = {
   BILLING: 'BILLING',
@@ -21,16 +27,77 @@ const RepresentativeType = {
 
 type RepresentativeTypeKeys = keyof typeof RepresentativeType;
 
+/**
+ * Tags the internal routing calls so streamed tokens from them can be told
+ * apart from what the representatives say to the customer.
+ */
+export const CATEGORIZATION_TAG = 'categorization';
+
+/** Name the support graph is registered and recorded in the run history as. */
+export const CUSTOMER_SUPPORT_GRAPH = 'customer-support';
+
+/**
+ * Asks for a JSON object matching `schema`. Only honoured by OpenAI-compatible
+ * providers (e.g. TogetherAI); the prompts also spell the format out.
+ */
+const jsonObjectResponse = (schema: z.ZodTypeAny) =>
+  ({
+    response_format: {
+      type: 'json_object',
+      schema: zodToJsonSchema(schema),
+    },
+  }) as Partial<BaseChatModelCallOptions>;
+
 @Injectable()
-export class CustomerSupportChatbotService {
-  private readonly model: ChatTogetherAI;
+export class CustomerSupportChatbotService implements OnModuleDestroy {
   private readonly logger = new Logger(CustomerSupportChatbotService.name);
 
-  constructor() {
-    this.model = new ChatTogetherAI({
-      model: 'meta-llama/Meta-Llama-3.1-8B-Instruct-Turbo',
-      temperature: 0,
-    });
+  constructor(
+    private readonly llmProvider: LlmProviderService,
+    @Inject(CUSTOMER_SUPPORT_CHECKPOINTER)
+    private readonly checkpointer: BaseCheckpointSaver,
+    private readonly runHistory: RunHistoryService,
+  ) {}
+
+  onModuleDestroy() {
+    if (this.checkpointer instanceof SqliteSaver) {
+      this.checkpointer.db.close();
+    }
+  }
+
+  /**
+   * Config for a run on `threadId`, recorded in the run history; a run
+   * aborted through `signal` is recorded as cancelled.
+   */
+  runConfig(threadId: string, signal?: AbortSignal) {
+    return {
+      configurable: { thread_id: threadId },
+      signal,
+      callbacks: [this.runHistory.tracer(CUSTOMER_SUPPORT_GRAPH, signal)],
+    };
+  }
+
+  /** Every thread the checkpointer holds, each listed once. */
+  async threadIds() {
+    const threadIds = new Set<string>();
+    for await (const { config } of this.checkpointer.list({})) {
+      const threadId = config.configurable?.thread_id;
+      if (typeof threadId === 'string') {
+        threadIds.add(threadId);
+      }
+    }
+    return [...threadIds];
+  }
+
+  /**
+   * Chat model for this run; `configurable.model` overrides the configured one.
+   */
+  private model(config?: LangGraphRunnableConfig) {
+    return this.llmProvider.chatModel(
+      'customerSupport',
+      config?.configurable?.model,
+      { temperature: 0 },
+    );
   }
 
   private StateAnnotation = Annotation.Root({
@@ -39,9 +106,11 @@ export class CustomerSupportChatbotService {
     refundAuthorized: Annotation<boolean>,
   });
 
+  /**
+   * Compiles the support graph. Every compiled instance shares the same
+   * checkpointer, so a `thread_id` resumes the same conversation.
+   */
   async graph() {
-    const checkpointer = new MemorySaver();
-
     return new StateGraph(this.StateAnnotation)
       .addNode('initial_support', this.initialSupport)
       .addNode('billing_support', this.billingSupport)
@@ -52,7 +121,7 @@ export class CustomerSupportChatbotService {
         'initial_support',
         async (state) => {
           this.logger.log('Routing state:', state);
-          
+
           switch (state.nextRepresentative) {
             case 'BILLING':
               return 'billing';
@@ -80,12 +149,33 @@ export class CustomerSupportChatbotService {
         },
       )
       .addEdge('handle_refund', '__end__')
-      .compile({ checkpointer });
-  };
+      .compile({ checkpointer: this.checkpointer });
+  }
+
+  /**
+   * Continues `threadId` with a customer message as generic stream events.
+   * Categorization calls are not streamed as tokens.
+   */
+  async *streamEvents(message: string, threadId: string, signal?: AbortSignal) {
+    const graph = await this.graph();
+
+    yield* streamGraphEvents(
+      graph,
+      {
+        messages: [{ role: 'user', content: message }],
+        nextRepresentative: null,
+        refundAuthorized: false,
+      },
+      { ...this.runConfig(threadId, signal), hiddenTags: [CATEGORIZATION_TAG] },
+    );
+  }
 
-  initialSupport = async (state: typeof this.StateAnnotation.State) => {
+  initialSupport = async (
+    state: typeof this.StateAnnotation.State,
+    config?: LangGraphRunnableConfig,
+  ) => {
     console.log('State received in initialSupport:', state);
-    const supportResponse = await this.model.invoke([
+    const supportResponse = await this.model(config).invoke([
       {
         role: 'system',
         content: RoleTemplates.INITIAL_SUPPORT_SYSTEM_TEMPLATE,
@@ -93,7 +183,7 @@ export class CustomerSupportChatbotService {
       ...state.messages,
     ]);
 
-    const categorizationResponse = await this.model.invoke(
+    const categorizationResponse = await this.model(config).invoke(
       [
         {
           role: 'system',
@@ -106,14 +196,12 @@ export class CustomerSupportChatbotService {
         },
       ],
       {
-        response_format: {
-          type: 'json_object',
-          schema: zodToJsonSchema(
-            z.object({
-              nextRepresentative: z.enum(['BILLING', 'TECHNICAL', 'RESPOND']),
-            }),
-          ),
-        },
+        ...jsonObjectResponse(
+          z.object({
+            nextRepresentative: z.enum(['BILLING', 'TECHNICAL', 'RESPOND']),
+          }),
+        ),
+        tags: [CATEGORIZATION_TAG],
       },
     );
 
@@ -126,10 +214,13 @@ export class CustomerSupportChatbotService {
     };
   };
 
-  billingSupport = async (state: typeof this.StateAnnotation.State) => {
+  billingSupport = async (
+    state: typeof this.StateAnnotation.State,
+    config?: LangGraphRunnableConfig,
+  ) => {
     const trimmedHistory = this.trimMessageHistory(state.messages);
 
-    const billingRepResponse = await this.model.invoke([
+    const billingRepResponse = await this.model(config).invoke([
       {
         role: 'system',
         content: RoleTemplates.BILLING_SUPPORT_SYSTEM_TEMPLATE,
@@ -137,7 +228,7 @@ export class CustomerSupportChatbotService {
       ...trimmedHistory,
     ]);
 
-    const categorizationResponse = await this.model.invoke(
+    const categorizationResponse = await this.model(config).invoke(
       [
         {
           role: 'system',
@@ -151,14 +242,12 @@ export class CustomerSupportChatbotService {
         },
       ],
       {
-        response_format: {
-          type: 'json_object',
-          schema: zodToJsonSchema(
-            z.object({
-              nextRepresentative: z.enum(['REFUND', 'RESPOND']),
-            }),
-          ),
-        },
+        ...jsonObjectResponse(
+          z.object({
+            nextRepresentative: z.enum(['REFUND', 'RESPOND']),
+          }),
+        ),
+        tags: [CATEGORIZATION_TAG],
       },
     );
 
@@ -171,10 +260,13 @@ export class CustomerSupportChatbotService {
     };
   };
 
-  technicalSupport = async (state: typeof this.StateAnnotation.State) => {
+  technicalSupport = async (
+    state: typeof this.StateAnnotation.State,
+    config?: LangGraphRunnableConfig,
+  ) => {
     const trimmedHistory = this.trimMessageHistory(state.messages);
 
-    const response = await this.model.invoke([
+    const response = await this.model(config).invoke([
       {
         role: 'system',
         content: RoleTemplates.TEHNICAL_SUPPORT_SYSTEM_TEMPLATE,
@@ -0,0 +1,44 @@
+import { Body, Controller, Get, Param, Post, Query } from '@nestjs/common';
+import { z } from 'zod';
+import {
+  RefundApprovalStatus,
+  ResolveRefundDto,
+  ResolveRefundSchema,
+} from '@repo/api';
+import { RefundApprovalService } from './refund-approval.service';
+import { ZodValidationPipe } from '../common/pipes/zod-validation.pipe';
+
+const StatusFilterPipe = new ZodValidationPipe(
+  z.enum(['pending', 'approved', 'denied']).optional(),
+);
+
+@Controller('customer-support/refunds')
+export class RefundApprovalController {
+  constructor(private readonly refundApprovalService: RefundApprovalService) {}
+
+  @Get()
+  list(@Query('status', StatusFilterPipe) status?: RefundApprovalStatus) {
+    return this.refundApprovalService.list(status);
+  }
+
+  @Get(':threadId')
+  get(@Param('threadId') threadId: string) {
+    return this.refundApprovalService.get(threadId);
+  }
+
+  @Post(':threadId/approve')
+  approve(
+    @Param('threadId') threadId: string,
+    @Body(new ZodValidationPipe(ResolveRefundSchema)) body: ResolveRefundDto,
+  ) {
+    return this.refundApprovalService.approve(threadId, body.note);
+  }
+
+  @Post(':threadId/deny')
+  deny(
+    @Param('threadId') threadId: string,
+    @Body(new ZodValidationPipe(ResolveRefundSchema)) body: ResolveRefundDto,
+  ) {
+    return this.refundApprovalService.deny(threadId, body.note);
+  }
+}
@@ -0,0 +1,203 @@
+import { Test } from '@nestjs/testing';
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { MemorySaver } from '@langchain/langgraph';
+import { CustomerSupportChatbotService } from './customer-support-chatbot.service';
+import { CUSTOMER_SUPPORT_CHECKPOINTER } from './customer-support-chatbot.checkpointer';
+import {
+  RefundApprovalService,
+  RefundResolution,
+} from './refund-approval.service';
+import { LlmProviderService } from '../llm-provider/llm-provider.service';
+import { RunHistoryService } from '../run-history/run-history.service';
+import { FakeChatModel } from '../llm-provider/fake/fake-chat-model';
+
+describe('RefundApprovalService', () => {
+  let service: RefundApprovalService;
+  let chatbot: CustomerSupportChatbotService;
+  let llm: FakeChatModel;
+  let resolutions: RefundResolution[];
+  let runHistory: RunHistoryService;
+
+  const config = { configurable: { thread_id: 'thread-1' } };
+
+  const requestRefund = async () => {
+    llm = new FakeChatModel({
+      responses: [
+        'Let me transfer you.',
+        { json: { nextRepresentative: 'BILLING' } },
+        'I will refund you.',
+        { json: { nextRepresentative: 'REFUND' } },
+      ],
+    });
+
+    const graph = await chatbot.graph();
+    await graph.invoke(
+      {
+        messages: [{ role: 'user', content: 'I want my money back' }],
+        nextRepresentative: null,
+        refundAuthorized: false,
+      },
+      config,
+    );
+
+    return graph;
+  };
+
+  beforeEach(async () => {
+    llm = new FakeChatModel();
+    resolutions = [];
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        RefundApprovalService,
+        CustomerSupportChatbotService,
+        { provide: LlmProviderService, useValue: { chatModel: () => llm } },
+        {
+          provide: RunHistoryService,
+          useFactory: () => new RunHistoryService(':memory:').open(),
+        },
+        { provide: CUSTOMER_SUPPORT_CHECKPOINTER, useValue: new MemorySaver() },
+      ],
+    }).compile();
+
+    service = moduleRef.get(RefundApprovalService);
+    chatbot = moduleRef.get(CustomerSupportChatbotService);
+    runHistory = moduleRef.get(RunHistoryService);
+    service.resolutions$.subscribe((resolution) =>
+      resolutions.push(resolution),
+    );
+  });
+
+  it('records interrupted refunds with the conversation so far', async () => {
+    await requestRefund();
+
+    const approval = await service.recordIfInterrupted('thread-1');
+
+    expect(approval).toMatchObject({
+      threadId: 'thread-1',
+      status: 'pending',
+      reason: 'Human authorization required.',
+      messages: [
+        { role: 'user', content: 'I want my money back' },
+        { role: 'assistant', content: 'Let me transfer you.' },
+        { role: 'assistant', content: 'I will refund you.' },
+      ],
+    });
+    expect(service.list('pending')).toEqual([approval]);
+  });
+
+  it('records refunds requested through the generic event stream', async () => {
+    llm = new FakeChatModel({
+      responses: [
+        'Let me transfer you.',
+        { json: { nextRepresentative: 'BILLING' } },
+        'I will refund you.',
+        { json: { nextRepresentative: 'REFUND' } },
+      ],
+    });
+
+    const events = [];
+    for await (const event of service.streamEvents(
+      'I want my money back',
+      'thread-1',
+    )) {
+      events.push(event);
+    }
+
+    expect(events.at(-1)?.event).toBe('done');
+    expect(service.list('pending')).toEqual([
+      expect.objectContaining({ threadId: 'thread-1' }),
+    ]);
+  });
+
+  it('ignores threads that are not waiting on a refund', async () => {
+    expect(await service.recordIfInterrupted('thread-1')).toBeUndefined();
+    expect(() => service.get('thread-1')).toThrow(NotFoundException);
+  });
+
+  it('restores pending approvals from the checkpointer after a restart', async () => {
+    await requestRefund();
+    await service.recordIfInterrupted('thread-1');
+
+    const restarted = new RefundApprovalService(chatbot);
+    await restarted.onModuleInit();
+
+    expect(restarted.list('pending')).toEqual([
+      expect.objectContaining({
+        threadId: 'thread-1',
+        reason: 'Human authorization required.',
+      }),
+    ]);
+    await expect(restarted.approve('thread-1')).resolves.toMatchObject({
+      status: 'approved',
+    });
+  });
+
+  it('resumes the thread when a refund is approved', async () => {
+    const graph = await requestRefund();
+    await service.recordIfInterrupted('thread-1');
+
+    const approval = await service.approve('thread-1', 'Looks legitimate');
+
+    expect(approval).toMatchObject({
+      status: 'approved',
+      note: 'Looks legitimate',
+    });
+    expect(resolutions).toHaveLength(1);
+    expect(resolutions[0]).toMatchObject({
+      threadId: 'thread-1',
+      status: 'approved',
+    });
+    const state = await graph.getState(config);
+    expect(state.next).toEqual([]);
+    expect(state.values.messages.at(-1)?.content).toBe('Refund processed!');
+    expect(runHistory.list({ graph: 'customer-support', limit: 10 })).toEqual([
+      expect.objectContaining({ status: 'succeeded' }),
+    ]);
+  });
+
+  it('ends the thread with the supervisor note when a refund is denied', async () => {
+    const graph = await requestRefund();
+    await service.recordIfInterrupted('thread-1');
+
+    await service.deny('thread-1', 'Outside the refund window');
+
+    const state = await graph.getState(config);
+    expect(state.next).toEqual([]);
+    expect(state.values.messages.at(-1)?.content).toBe(
+      'Your refund request was not approved: Outside the refund window',
+    );
+    expect(resolutions[0]?.status).toBe('denied');
+  });
+
+  it('rejects resolving the same refund twice', async () => {
+    await requestRefund();
+    await service.recordIfInterrupted('thread-1');
+    await service.approve('thread-1');
+
+    await expect(service.deny('thread-1')).rejects.toBeInstanceOf(
+      ConflictException,
+    );
+  });
+
+  it('rejects a second resolution while the first is in progress', async () => {
+    await requestRefund();
+    await service.recordIfInterrupted('thread-1');
+
+    const [approved, denied] = await Promise.allSettled([
+      service.approve('thread-1'),
+      service.deny('thread-1'),
+    ]);
+
+    expect(approved).toMatchObject({
+      status: 'fulfilled',
+      value: { status: 'approved' },
+    });
+    expect(denied).toMatchObject({ status: 'rejected' });
+    expect((denied as PromiseRejectedResult).reason).toBeInstanceOf(
+      ConflictException,
+    );
+    expect(resolutions).toHaveLength(1);
+  });
+});
@@ -0,0 +1,266 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { Subject } from 'rxjs';
+import {
+  AIMessage,
+  BaseMessage,
+  isHumanMessage,
+} from '@langchain/core/messages';
+import {
+  RefundApproval,
+  RefundApprovalMessage,
+  RefundApprovalStatus,
+} from '@repo/api';
+import { CustomerSupportChatbotService } from './customer-support-chatbot.service';
+
+/**
+ * Graph steps produced when a supervisor resolves a refund, in the same
+ * `{ [node]: output }` shape `graph.stream()` yields for customer messages.
+ */
+export interface RefundResolution {
+  threadId: string;
+  status: Exclude<RefundApprovalStatus, 'pending'>;
+  steps: Record<string, unknown>[];
+}
+
+/**
+ * Tracks refunds waiting on the `handle_refund` interrupt and resumes the
+ * customer's thread once a supervisor approves or denies them.
+ *
+ * Approvals are kept in memory and rebuilt at startup from the threads the
+ * chatbot checkpointer holds, so refunds interrupted before a restart can
+ * still be resolved. Only pending approvals survive a restart.
+ */
+@Injectable()
+export class RefundApprovalService implements OnModuleInit {
+  private readonly logger = new Logger(RefundApprovalService.name);
+  private readonly approvals = new Map<string, RefundApproval>();
+  /** Threads an approve or deny is currently resuming. */
+  private readonly resolving = new Set<string>();
+
+  /** Emits once per resolved refund so the gateway can notify the customer. */
+  readonly resolutions$ = new Subject<RefundResolution>();
+
+  constructor(
+    private readonly customerSupportChatbotService: CustomerSupportChatbotService,
+  ) {}
+
+  /** Records the approval of every thread waiting at `handle_refund`. */
+  async onModuleInit() {
+    const threadIds = await this.customerSupportChatbotService.threadIds();
+    for (const threadId of threadIds) {
+      const approval = await this.pendingApproval(threadId);
+      if (approval) {
+        this.approvals.set(threadId, approval);
+      }
+    }
+    if (this.approvals.size) {
+      this.logger.log(
+        `Restored ${this.approvals.size} pending refund approvals`,
+      );
+    }
+  }
+
+  /**
+   * Records a pending approval if the thread stopped at `handle_refund`.
+   * Returns the approval, or `undefined` when the thread is not interrupted.
+   */
+  async recordIfInterrupted(threadId: string) {
+    const approval = await this.pendingApproval(threadId);
+    if (!approval) {
+      return undefined;
+    }
+
+    this.approvals.set(threadId, approval);
+    this.logger.log(`Refund approval requested for thread ${threadId}`);
+
+    return approval;
+  }
+
+  /**
+   * Continues a thread like `CustomerSupportChatbotService.streamEvents`,
+   * recording the pending approval before the terminal event when the run
+   * stops at `handle_refund`. Used where the gateway's own bookkeeping does
+   * not run, e.g. for the generic stream gateway.
+   */
+  async *streamEvents(message: string, threadId: string, signal?: AbortSignal) {
+    for await (const event of this.customerSupportChatbotService.streamEvents(
+      message,
+      threadId,
+      signal,
+    )) {
+      if (event.event === 'done') {
+        await this.recordIfInterrupted(threadId);
+      }
+      yield event;
+    }
+  }
+
+  list(status?: RefundApprovalStatus) {
+    return [...this.approvals.values()].filter(
+      (approval) => !status || approval.status === status,
+    );
+  }
+
+  get(threadId: string) {
+    const approval = this.approvals.get(threadId);
+
+    if (!approval) {
+      throw new NotFoundException(`No refund approval for thread ${threadId}`);
+    }
+
+    return approval;
+  }
+
+  /**
+   * Authorizes the refund and lets `handle_refund` run to completion.
+   */
+  approve(threadId: string, note?: string) {
+    return this.resolveOnce(threadId, async (approval) => {
+      const graph = await this.customerSupportChatbotService.graph();
+      const config = this.config(threadId);
+
+      await graph.updateState(config, { refundAuthorized: true });
+
+      const steps = [];
+      const run = await graph.stream(
+        null,
+        this.customerSupportChatbotService.runConfig(threadId),
+      );
+      for await (const step of run) {
+        steps.push(step);
+      }
+
+      return this.resolve(approval, 'approved', steps, note);
+    });
+  }
+
+  /**
+   * Answers on behalf of `handle_refund` so the thread ends without a refund.
+   */
+  deny(threadId: string, note?: string) {
+    return this.resolveOnce(threadId, async (approval) => {
+      const graph = await this.customerSupportChatbotService.graph();
+
+      const messages = new AIMessage(
+        note
+          ? `Your refund request was not approved: ${note}`
+          : 'Your refund request was not approved.',
+      );
+      await graph.updateState(
+        this.config(threadId),
+        { messages, refundAuthorized: false },
+        'handle_refund',
+      );
+
+      return this.resolve(
+        approval,
+        'denied',
+        [{ handle_refund: { messages } }],
+        note,
+      );
+    });
+  }
+
+  /**
+   * Runs `resolution` for a pending approval, at most once at a time. The
+   * approval is claimed before anything is awaited, so a concurrent approve
+   * or deny of the same thread is rejected instead of resuming it twice.
+   *
+   * @throws NotFoundException if the thread has no approval
+   * @throws ConflictException if the approval is resolved or being resolved
+   */
+  private async resolveOnce(
+    threadId: string,
+    resolution: (approval: RefundApproval) => Promise<RefundApproval>,
+  ) {
+    const approval = this.get(threadId);
+
+    if (approval.status !== 'pending') {
+      throw new ConflictException(
+        `Refund for thread ${threadId} was already ${approval.status}`,
+      );
+    }
+    if (this.resolving.has(threadId)) {
+      throw new ConflictException(
+        `Refund for thread ${threadId} is already being resolved`,
+      );
+    }
+
+    this.resolving.add(threadId);
+    try {
+      const graph = await this.customerSupportChatbotService.graph();
+      const state = await graph.getState(this.config(threadId));
+      if (!state.next.includes('handle_refund')) {
+        this.approvals.delete(threadId);
+        throw new ConflictException(
+          `Thread ${threadId} is no longer waiting for a refund approval`,
+        );
+      }
+
+      return await resolution(approval);
+    } finally {
+      this.resolving.delete(threadId);
+    }
+  }
+
+  private resolve(
+    approval: RefundApproval,
+    status: RefundResolution['status'],
+    steps: RefundResolution['steps'],
+    note?: string,
+  ) {
+    const resolved: RefundApproval = {
+      ...approval,
+      status,
+      note,
+      resolvedAt: new Date().toISOString(),
+    };
+
+    this.approvals.set(approval.threadId, resolved);
+    this.resolutions$.next({ threadId: approval.threadId, status, steps });
+    this.logger.log(`Refund for thread ${approval.threadId} ${status}`);
+
+    return resolved;
+  }
+
+  /** The approval a thread interrupted at `handle_refund` is waiting on. */
+  private async pendingApproval(
+    threadId: string,
+  ): Promise<RefundApproval | undefined> {
+    const graph = await this.customerSupportChatbotService.graph();
+    const state = await graph.getState(this.config(threadId));
+
+    if (!state.next.includes('handle_refund')) {
+      return undefined;
+    }
+
+    const interrupt = state.tasks.flatMap(({ interrupts }) => interrupts).at(0);
+    return {
+      threadId,
+      status: 'pending',
+      reason: String(interrupt?.value ?? 'Human authorization required.'),
+      messages: this.toContext(state.values.messages ?? []),
+      requestedAt: state.createdAt ?? new Date().toISOString(),
+    };
+  }
+
+  private toContext(messages: BaseMessage[]): RefundApprovalMessage[] {
+    return messages.map((message) => ({
+      role: isHumanMessage(message) ? 'user' : 'assistant',
+      content:
+        typeof message.content === 'string'
+          ? message.content
+          : JSON.stringify(message.content),
+    }));
+  }
+
+  private config(threadId: string) {
+    return { configurable: { thread_id: threadId } };
+  }
+}
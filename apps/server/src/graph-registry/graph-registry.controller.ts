@@ -0,0 +1,29 @@
+import { Controller, Get, Header, Param } from '@nestjs/common';
+import { GraphRegistryService } from './graph-registry.service';
+
+@Controller('graphs')
+export class GraphRegistryController {
+  constructor(private readonly graphRegistry: GraphRegistryService) {}
+
+  @Get()
+  list() {
+    return this.graphRegistry.list();
+  }
+
+  /**
+   * Nodes, edges and input schema of a graph.
+   */
+  @Get(':name')
+  describe(@Param('name') name: string) {
+    return this.graphRegistry.describe(name);
+  }
+
+  /**
+   * Mermaid flowchart source of a graph, e.g. for docs or mermaid.live.
+   */
+  @Get(':name/mermaid')
+  @Header('Content-Type', 'text/plain; charset=utf-8')
+  mermaid(@Param('name') name: string) {
+    return this.graphRegistry.mermaid(name);
+  }
+}
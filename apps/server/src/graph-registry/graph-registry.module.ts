@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { GraphRegistryService } from './graph-registry.service';
+import { GraphRegistryController } from './graph-registry.controller';
+
+@Module({
+  controllers: [GraphRegistryController],
+  providers: [GraphRegistryService],
+  exports: [GraphRegistryService],
+})
+export class GraphRegistryModule {}
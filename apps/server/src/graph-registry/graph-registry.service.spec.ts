@@ -0,0 +1,97 @@
+import { Test } from '@nestjs/testing';
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { GraphRegistryService } from './graph-registry.service';
+import { WorkflowService } from '../workflow/workflow.service';
+import { workflowGraphs } from '../workflow/workflow.graphs';
+import { LlmProviderService } from '../llm-provider/llm-provider.service';
+import { ToolCatalogModule } from '../tool-catalog/tool-catalog.module';
+import { RunHistoryService } from '../run-history/run-history.service';
+import { FakeChatModel } from '../llm-provider/fake/fake-chat-model';
+
+describe('GraphRegistryService', () => {
+  let registry: GraphRegistryService;
+  let workflowService: WorkflowService;
+
+  beforeEach(async () => {
+    const moduleRef = await Test.createTestingModule({
+      imports: [ToolCatalogModule],
+      providers: [
+        GraphRegistryService,
+        WorkflowService,
+        {
+          provide: RunHistoryService,
+          useFactory: () => new RunHistoryService(':memory:').open(),
+        },
+        {
+          provide: LlmProviderService,
+          useValue: { chatModel: () => new FakeChatModel() },
+        },
+      ],
+    }).compile();
+    await moduleRef.init();
+
+    registry = moduleRef.get(GraphRegistryService);
+    workflowService = moduleRef.get(WorkflowService);
+    registry.register(...workflowGraphs(workflowService));
+  });
+
+  it('lists the registered graphs', () => {
+    expect(registry.list().map(({ name }) => name)).toEqual([
+      'prompt-chain',
+      'parallelization',
+      'routing',
+      'orchestrator-worker',
+      'evaluator-optimizer',
+      'agent',
+    ]);
+  });
+
+  it('describes the nodes, edges and input of a graph', async () => {
+    const description = await registry.describe('prompt-chain');
+
+    expect(description.nodes.map(({ id }) => id)).toEqual([
+      '__start__',
+      'generateJoke',
+      'improveJoke',
+      'polishJoke',
+      '__end__',
+    ]);
+    expect(description.edges).toEqual(
+      expect.arrayContaining([
+        {
+          source: '__start__',
+          target: 'generateJoke',
+          conditional: false,
+          label: undefined,
+        },
+        {
+          source: 'generateJoke',
+          target: 'improveJoke',
+          conditional: true,
+          label: 'Pass',
+        },
+      ]),
+    );
+    expect(description.inputSchema).toMatchObject({
+      type: 'object',
+      required: ['topic'],
+    });
+  });
+
+  it('exports graphs as Mermaid flowcharts', async () => {
+    const mermaid = await registry.mermaid('routing');
+
+    expect(mermaid).toContain('llmCallRouter');
+    expect(mermaid).toMatch(/llmCallRouter -\.->.*llmCall1/);
+  });
+
+  it('rejects unknown and duplicate names', async () => {
+    await expect(registry.describe('nope')).rejects.toBeInstanceOf(
+      NotFoundException,
+    );
+    expect(() => registry.register(...workflowGraphs(workflowService))).toThrow(
+      ConflictException,
+    );
+  });
+});
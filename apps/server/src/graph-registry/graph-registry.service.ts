@@ -0,0 +1,109 @@
+import {
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { z, ZodTypeAny } from 'zod';
+import zodToJsonSchema from 'zod-to-json-schema';
+import { GraphDescription, GraphSummary, WorkflowStreamEvent } from '@repo/api';
+import { AnyCompiledGraph } from '../common/graph-stream';
+
+/**
+ * A graph feature modules make available by name: to be started over the
+ * stream gateway and to be inspected.
+ */
+export interface RegisteredGraph<Schema extends ZodTypeAny = ZodTypeAny> {
+  name: string;
+  description: string;
+  /** Input accepted by `stream`. */
+  schema: Schema;
+  /** Compiles the graph with the default model, without running it. */
+  build: () => AnyCompiledGraph | Promise<AnyCompiledGraph>;
+  /** Runs the graph, recording the run in the run history. */
+  stream(
+    input: z.infer<Schema>,
+    signal: AbortSignal,
+  ): AsyncGenerator<WorkflowStreamEvent>;
+}
+
+/** Keeps the input type of `stream` tied to `schema`. */
+export const registeredGraph = <Schema extends ZodTypeAny>(
+  graph: RegisteredGraph<Schema>,
+): RegisteredGraph => graph;
+
+@Injectable()
+export class GraphRegistryService {
+  private readonly graphs = new Map<string, RegisteredGraph>();
+
+  register(...graphs: RegisteredGraph[]) {
+    for (const graph of graphs) {
+      if (this.graphs.has(graph.name)) {
+        throw new ConflictException(
+          `A graph named ${graph.name} is already registered`,
+        );
+      }
+      this.graphs.set(graph.name, graph);
+    }
+  }
+
+  /**
+   * @throws NotFoundException if no graph has that name
+   */
+  unregister(name: string) {
+    this.get(name);
+    this.graphs.delete(name);
+  }
+
+  names() {
+    return [...this.graphs.keys()];
+  }
+
+  find(name: string) {
+    return this.graphs.get(name);
+  }
+
+  /**
+   * @throws NotFoundException if no graph has that name
+   */
+  get(name: string) {
+    const graph = this.find(name);
+    if (!graph) {
+      throw new NotFoundException(`No graph named ${name}`);
+    }
+    return graph;
+  }
+
+  list(): GraphSummary[] {
+    return [...this.graphs.values()].map(({ name, description }) => ({
+      name,
+      description,
+    }));
+  }
+
+  async describe(name: string): Promise<GraphDescription> {
+    const { description, schema } = this.get(name);
+    const { nodes, edges } = await this.drawable(name);
+
+    return {
+      name,
+      description,
+      nodes: Object.values(nodes).map(({ id }) => ({ id })),
+      edges: edges.map(({ source, target, conditional, data }) => ({
+        source,
+        target,
+        conditional: Boolean(conditional),
+        label: data,
+      })),
+      inputSchema: zodToJsonSchema(schema),
+    };
+  }
+
+  async mermaid(name: string) {
+    return (await this.drawable(name)).drawMermaid();
+  }
+
+  private async drawable(name: string) {
+    const graph = await this.get(name).build();
+    return graph.getGraphAsync();
+  }
+}
@@ -0,0 +1,300 @@
+import {
+  BaseChatModel,
+  BaseChatModelCallOptions,
+  BaseChatModelParams,
+  BindToolsInput,
+} from '@langchain/core/language_models/chat_models';
+import { CallbackManagerForLLMRun } from '@langchain/core/callbacks/manager';
+import {
+  AIMessage,
+  AIMessageChunk,
+  BaseMessage,
+  ToolMessage,
+} from '@langchain/core/messages';
+import { ChatGenerationChunk, ChatResult } from '@langchain/core/outputs';
+import { convertToOpenAITool } from '@langchain/core/utils/function_calling';
+import { JsonSchema } from '../../common/json-schema-to-zod';
+
+/**
+ * One scripted reply:
+ * - a string is returned as plain text content;
+ * - `{ toolCalls }` is returned as an AI message requesting those tool calls;
+ * - `{ json }` is returned as a tool call to the single bound tool (which is
+ *   how `withStructuredOutput` works), or as JSON text when no tool is bound
+ *   (which covers `response_format: { type: 'json_object' }`).
+ * A function entry is called with the prompt and returns one of the above.
+ */
+export type FakeResponse =
+  | string
+  | {
+      content?: string;
+      toolCalls: Array<{ name: string; args: Record<string, unknown> }>;
+    }
+  | { json: Record<string, unknown> };
+
+export type FakeResponder = (messages: BaseMessage[]) => FakeResponse;
+
+export interface FakeChatModelInput extends BaseChatModelParams {
+  responses?: Array<FakeResponse | FakeResponder>;
+  /** Whether prompts are kept in `calls`; off for models that live on. */
+  recordCalls?: boolean;
+}
+
+export interface FakeChatModelCallOptions extends BaseChatModelCallOptions {
+  tools?: BindToolsInput[];
+  /** OpenAI-style JSON mode; a `schema` shapes unscripted replies. */
+  response_format?: { type: string; schema?: JsonSchema };
+}
+
+/**
+ * Deterministic, offline chat model used by the `fake` provider and by tests.
+ * Replies are taken from `responses` in order. Once the script runs out (or
+ * when there is none) the model calls a single bound tool, as
+ * `withStructuredOutput` expects, with arguments made up from its schema;
+ * answers a JSON response format the same way; and otherwise echoes the last
+ * message back, so flows can be exercised locally without any vendor API
+ * keys. A tool is not called again right after its result, so agent loops
+ * end. When streamed, text replies
+ * arrive word by word and tool calls arrive as a single chunk; streaming
+ * stops when the call's `signal` is aborted. Non-streamed replies report one
+ * token per word as their usage.
+ */
+export class FakeChatModel extends BaseChatModel<FakeChatModelCallOptions> {
+  /** Prompts received so far, one entry per call, if `recordCalls` is on. */
+  readonly calls: BaseMessage[][] = [];
+
+  private readonly responses: Array<FakeResponse | FakeResponder>;
+
+  private readonly recordCalls: boolean;
+
+  private toolCallCount = 0;
+
+  static lc_name() {
+    return 'FakeChatModel';
+  }
+
+  constructor({
+    responses = [],
+    recordCalls = true,
+    ...fields
+  }: FakeChatModelInput = {}) {
+    super(fields);
+    this.responses = [...responses];
+    this.recordCalls = recordCalls;
+  }
+
+  _llmType() {
+    return 'fake';
+  }
+
+  bindTools(
+    tools: BindToolsInput[],
+    kwargs?: Partial<FakeChatModelCallOptions>,
+  ) {
+    return this.bind({ tools, ...kwargs });
+  }
+
+  async _generate(
+    messages: BaseMessage[],
+    options: this['ParsedCallOptions'],
+  ): Promise<ChatResult> {
+    const message = this.reply(messages, options);
+    const input_tokens = messages.reduce(
+      (count, { content }) => count + countWords(content),
+      0,
+    );
+    const output_tokens =
+      countWords(message.content) +
+      (message.tool_calls?.length ? countWords(message.tool_calls) : 0);
+    message.usage_metadata = {
+      input_tokens,
+      output_tokens,
+      total_tokens: input_tokens + output_tokens,
+    };
+
+    return {
+      generations: [{ text: message.content as string, message }],
+    };
+  }
+
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    options: this['ParsedCallOptions'],
+    runManager?: CallbackManagerForLLMRun,
+  ): AsyncGenerator<ChatGenerationChunk> {
+    const message = this.reply(messages, options);
+    const content = message.content as string;
+
+    const chunks = message.tool_calls?.length
+      ? [
+          new AIMessageChunk({
+            content,
+            tool_call_chunks: message.tool_calls.map(({ id, name, args }) => ({
+              id,
+              name,
+              args: JSON.stringify(args),
+              index: 0,
+              type: 'tool_call_chunk' as const,
+            })),
+          }),
+        ]
+      : content
+          .split(/(?<=\s)/)
+          .map((token) => new AIMessageChunk({ content: token }));
+
+    for (const messageChunk of chunks) {
+      // Like a real provider, stop generating once the caller aborts
+      options.signal?.throwIfAborted();
+
+      const text = messageChunk.content as string;
+      const chunk = new ChatGenerationChunk({ text, message: messageChunk });
+
+      yield chunk;
+      await runManager?.handleLLMNewToken(
+        text,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        { chunk },
+      );
+    }
+  }
+
+  private reply(messages: BaseMessage[], options: this['ParsedCallOptions']) {
+    if (this.recordCalls) {
+      this.calls.push(messages);
+    }
+
+    const next = this.responses.shift();
+    const response =
+      typeof next === 'function'
+        ? next(messages)
+        : (next ?? unscripted(messages, options));
+
+    return this.toMessage(response, options.tools ?? []);
+  }
+
+  private toMessage(response: FakeResponse, tools: BindToolsInput[]) {
+    if (typeof response === 'string') {
+      return new AIMessage(response);
+    }
+
+    if ('toolCalls' in response) {
+      return new AIMessage({
+        content: response.content ?? '',
+        tool_calls: response.toolCalls.map(({ name, args }) =>
+          this.toolCall(name, args),
+        ),
+      });
+    }
+
+    if (tools.length === 0) {
+      return new AIMessage(JSON.stringify(response.json));
+    }
+
+    if (tools.length > 1) {
+      throw new Error(
+        'FakeChatModel: a `json` response needs exactly one bound tool; use `toolCalls` instead.',
+      );
+    }
+
+    const { name } = convertToOpenAITool(tools[0]).function;
+    return new AIMessage({
+      content: '',
+      tool_calls: [this.toolCall(name, response.json)],
+    });
+  }
+
+  private toolCall(name: string, args: Record<string, unknown>) {
+    this.toolCallCount += 1;
+    return {
+      id: `call_${this.toolCallCount}`,
+      name,
+      args,
+      type: 'tool_call' as const,
+    };
+  }
+}
+
+const countWords = (content: unknown) =>
+  (typeof content === 'string' ? content : JSON.stringify(content))
+    .split(/\s+/)
+    .filter(Boolean).length;
+
+/**
+ * A value of `schema`: its default or first allowed value, the minimum of
+ * numbers, one item per array and every property of objects.
+ */
+const exampleOf = (schema: JsonSchema): unknown => {
+  if ('default' in schema) {
+    return (schema as { default: unknown }).default;
+  }
+  if ('const' in schema) {
+    return schema.const;
+  }
+  if (schema.enum?.length) {
+    return schema.enum[0];
+  }
+  const variant = schema.anyOf?.[0] ?? schema.oneOf?.[0];
+  if (variant) {
+    return exampleOf(variant);
+  }
+
+  const types = [schema.type ?? 'object'].flat();
+  switch (types.find((type) => type !== 'null') ?? 'null') {
+    case 'string':
+      return 'fake'.padEnd(schema.minLength ?? 0, '!');
+    case 'number':
+    case 'integer':
+      return schema.minimum ?? Math.min(0, schema.maximum ?? 0);
+    case 'boolean':
+      return false;
+    case 'array':
+      return Array.from({ length: Math.max(schema.minItems ?? 1, 1) }, () =>
+        exampleOf(schema.items ?? {}),
+      );
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, property]) => [
+          key,
+          exampleOf(property),
+        ]),
+      );
+    default:
+      return null;
+  }
+};
+
+const unscripted = (
+  messages: BaseMessage[],
+  { tools = [], response_format }: FakeChatModelCallOptions,
+): FakeResponse => {
+  if (tools.length === 1 && !(messages.at(-1) instanceof ToolMessage)) {
+    const { name, parameters } = convertToOpenAITool(tools[0]).function;
+    return {
+      toolCalls: [
+        {
+          name,
+          args: exampleOf(parameters as JsonSchema) as Record<string, unknown>,
+        },
+      ],
+    };
+  }
+  if (!tools.length && response_format?.schema) {
+    return {
+      json: exampleOf(response_format.schema) as Record<string, unknown>,
+    };
+  }
+  return echo(messages);
+};
+
+const echo = (messages: BaseMessage[]) => {
+  const last = messages.at(-1);
+  const text =
+    typeof last?.content === 'string'
+      ? last.content
+      : JSON.stringify(last?.content ?? '');
+
+  return `You said: ${text}`;
+};
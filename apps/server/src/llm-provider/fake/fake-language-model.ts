@@ -0,0 +1,47 @@
+import { LanguageModelV1, simulateReadableStream } from 'ai';
+
+type Prompt = Parameters<LanguageModelV1['doGenerate']>[0]['prompt'];
+
+const echo = (prompt: Prompt) => {
+  const last = prompt.at(-1);
+  const text =
+    typeof last?.content === 'string'
+      ? last.content
+      : (last?.content ?? [])
+          .map((part) => ('text' in part ? part.text : ''))
+          .join('');
+
+  return `You said: ${text}`;
+};
+
+/**
+ * Vercel AI SDK counterpart of `FakeChatModel`: echoes the prompt back,
+ * both for generation and streaming.
+ */
+export const createFakeLanguageModel = (modelId: string): LanguageModelV1 => ({
+  specificationVersion: 'v1',
+  provider: 'fake',
+  modelId,
+  defaultObjectGenerationMode: undefined,
+  doGenerate: async ({ prompt }) => ({
+    text: echo(prompt),
+    finishReason: 'stop',
+    usage: { promptTokens: 0, completionTokens: 0 },
+    rawCall: { rawPrompt: prompt, rawSettings: {} },
+  }),
+  doStream: async ({ prompt }) => ({
+    stream: simulateReadableStream({
+      chunks: [
+        ...echo(prompt)
+          .split(/(?<= )/)
+          .map((textDelta) => ({ type: 'text-delta' as const, textDelta })),
+        {
+          type: 'finish' as const,
+          finishReason: 'stop' as const,
+          usage: { promptTokens: 0, completionTokens: 0 },
+        },
+      ],
+    }),
+    rawCall: { rawPrompt: prompt, rawSettings: {} },
+  }),
+});
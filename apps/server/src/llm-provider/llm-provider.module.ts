@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { LlmProviderService } from './llm-provider.service';
+
+@Module({
+  imports: [ConfigModule],
+  providers: [LlmProviderService],
+  exports: [LlmProviderService],
+})
+export class LlmProviderModule {}
@@ -0,0 +1,62 @@
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException } from '@nestjs/common';
+import { describe, it, expect } from '@jest/globals';
+import { generateText, streamText } from 'ai';
+import { LlmProviderService } from './llm-provider.service';
+import { FakeChatModel } from './fake/fake-chat-model';
+
+describe('LlmProviderService', () => {
+  const service = () => new LlmProviderService(new ConfigService({}));
+
+  it('reuses the instance of a model', () => {
+    const llmProvider = service();
+
+    expect(llmProvider.chatModel('workflow', 'fake:a')).toBe(
+      llmProvider.chatModel('workflow', 'fake:a'),
+    );
+  });
+
+  it('keeps a bounded number of instances, dropping the least recent', () => {
+    const llmProvider = service();
+    const first = llmProvider.chatModel('workflow', 'fake:first');
+    const kept = llmProvider.chatModel('workflow', 'fake:kept');
+
+    for (let i = 0; i < 40; i++) {
+      llmProvider.chatModel('workflow', 'fake:kept');
+      llmProvider.chatModel('workflow', `fake:model-${i}`);
+    }
+
+    expect(llmProvider['cache'].size).toBe(32);
+    expect(llmProvider.chatModel('workflow', 'fake:kept')).toBe(kept);
+    expect(llmProvider.chatModel('workflow', 'fake:first')).not.toBe(first);
+  });
+
+  it('keeps no prompts in the shared fake model', async () => {
+    const llm = service().chatModel('workflow', 'fake:a') as FakeChatModel;
+
+    await expect(llm.invoke('Hello')).resolves.toMatchObject({
+      content: 'You said: Hello',
+    });
+    expect(llm.calls).toEqual([]);
+  });
+
+  it('offers a fake AI SDK language model that echoes the prompt', async () => {
+    const model = service().languageModel('vercelAiSdk', 'fake:echo');
+
+    await expect(
+      generateText({ model, prompt: 'Hello' }),
+    ).resolves.toMatchObject({ text: 'You said: Hello' });
+    const { textStream } = streamText({ model, prompt: 'Hello there' });
+    const chunks: string[] = [];
+    for await (const chunk of textStream) {
+      chunks.push(chunk);
+    }
+    expect(chunks).toEqual(['You ', 'said: ', 'Hello ', 'there']);
+  });
+
+  it('rejects providers that do not offer the requested kind', () => {
+    expect(() => service().embeddings('rag', 'anthropic:claude')).toThrow(
+      BadRequestException,
+    );
+  });
+});
@@ -0,0 +1,186 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { EmbeddingsInterface } from '@langchain/core/embeddings';
+import { SyntheticEmbeddings } from '@langchain/core/utils/testing';
+import { ChatAnthropic } from '@langchain/anthropic';
+import { ChatOpenAI, OpenAIEmbeddings } from '@langchain/openai';
+import { ChatTogetherAI } from '@langchain/community/chat_models/togetherai';
+import { TogetherAIEmbeddings } from '@langchain/community/embeddings/togetherai';
+import { anthropic } from '@ai-sdk/anthropic';
+import { google } from '@ai-sdk/google';
+import { LanguageModelV1 } from 'ai';
+import { FakeChatModel } from './fake/fake-chat-model';
+import { createFakeLanguageModel } from './fake/fake-language-model';
+
+/**
+ * Parts of the app that resolve their own models. Each scope can be pointed
+ * at a different vendor through `LLM_<SCOPE>_CHAT_MODEL` and
+ * `LLM_<SCOPE>_EMBEDDINGS_MODEL`, falling back to `LLM_CHAT_MODEL` /
+ * `LLM_EMBEDDINGS_MODEL` and finally to the defaults below.
+ */
+const SCOPES = {
+  workflow: {
+    env: 'WORKFLOW',
+    chat: 'anthropic:claude-3-5-sonnet-latest',
+  },
+  customerSupport: {
+    env: 'CUSTOMER_SUPPORT',
+    chat: 'togetherai:meta-llama/Meta-Llama-3.1-8B-Instruct-Turbo',
+  },
+  vercelAiSdk: {
+    env: 'VERCEL_AI_SDK',
+    chat: 'anthropic:claude-3-haiku-20240307',
+  },
+  rag: {
+    env: 'RAG',
+    chat: 'anthropic:claude-3-5-sonnet-latest',
+  },
+} as const;
+
+const DEFAULT_EMBEDDINGS_MODEL = 'openai:text-embedding-ada-002';
+
+/**
+ * Most model instances kept for reuse. Requests can name any model, so the
+ * least recently used instances are dropped beyond this.
+ */
+const CACHE_SIZE = 32;
+
+export type LlmScope = keyof typeof SCOPES;
+
+export interface ChatModelOptions {
+  temperature?: number;
+}
+
+interface ModelProvider {
+  chatModel?: (model: string, options: ChatModelOptions) => BaseChatModel;
+  embeddings?: (model: string) => EmbeddingsInterface;
+  languageModel?: (model: string) => LanguageModelV1;
+}
+
+const KIND_LABELS: Record<keyof ModelProvider, string> = {
+  chatModel: 'chat models',
+  embeddings: 'embeddings',
+  languageModel: 'AI SDK language models',
+};
+
+/**
+ * Models are referenced as `<provider>:<model>`, e.g.
+ * `anthropic:claude-3-5-sonnet-latest` or `fake:echo`.
+ */
+const PROVIDERS: Record<string, ModelProvider> = {
+  anthropic: {
+    chatModel: (model, options) => new ChatAnthropic({ model, ...options }),
+    languageModel: (model) => anthropic(model),
+  },
+  openai: {
+    chatModel: (model, options) => new ChatOpenAI({ model, ...options }),
+    embeddings: (model) => new OpenAIEmbeddings({ model }),
+  },
+  togetherai: {
+    chatModel: (model, options) => new ChatTogetherAI({ model, ...options }),
+    embeddings: (model) => new TogetherAIEmbeddings({ model }),
+  },
+  google: {
+    languageModel: (model) => google(model),
+  },
+  fake: {
+    // cached and shared by every request, so it keeps no prompts
+    chatModel: () => new FakeChatModel({ recordCalls: false }),
+    embeddings: () => new SyntheticEmbeddings({ vectorSize: 64 }),
+    languageModel: (model) => createFakeLanguageModel(model),
+  },
+};
+
+@Injectable()
+export class LlmProviderService {
+  private readonly cache = new Map<string, unknown>();
+
+  constructor(private readonly configService: ConfigService) {}
+
+  /**
+   * LangChain chat model for the given scope. `override` (usually coming
+   * from a request) takes precedence over configuration.
+   */
+  chatModel(
+    scope: LlmScope,
+    override?: string,
+    options: ChatModelOptions = {},
+  ): BaseChatModel {
+    const spec =
+      override ?? this.configured(scope, 'CHAT_MODEL') ?? SCOPES[scope].chat;
+
+    return this.resolve('chatModel', spec, options, (factory, model) =>
+      factory(model, options),
+    );
+  }
+
+  embeddings(scope: LlmScope, override?: string): EmbeddingsInterface {
+    const spec = override ?? this.embeddingsModel(scope);
+
+    return this.resolve('embeddings', spec, {}, (factory, model) =>
+      factory(model),
+    );
+  }
+
+  /** The `<provider>:<model>` embeddings are resolved from for a scope. */
+  embeddingsModel(scope: LlmScope) {
+    return (
+      this.configured(scope, 'EMBEDDINGS_MODEL') ?? DEFAULT_EMBEDDINGS_MODEL
+    );
+  }
+
+  /**
+   * Vercel AI SDK language model for the given scope.
+   */
+  languageModel(scope: LlmScope, override?: string): LanguageModelV1 {
+    const spec =
+      override ?? this.configured(scope, 'CHAT_MODEL') ?? SCOPES[scope].chat;
+
+    return this.resolve('languageModel', spec, {}, (factory, model) =>
+      factory(model),
+    );
+  }
+
+  private configured(scope: LlmScope, key: string) {
+    return (
+      this.configService.get<string>(`LLM_${SCOPES[scope].env}_${key}`) ??
+      this.configService.get<string>(`LLM_${key}`)
+    );
+  }
+
+  private resolve<K extends keyof ModelProvider, T>(
+    kind: K,
+    spec: string,
+    options: ChatModelOptions,
+    create: (factory: NonNullable<ModelProvider[K]>, model: string) => T,
+  ): T {
+    const cacheKey = `${kind}|${spec}|${JSON.stringify(options)}`;
+    if (this.cache.has(cacheKey)) {
+      const cached = this.cache.get(cacheKey) as T;
+      // Maps iterate in insertion order; re-inserting marks it as recent
+      this.cache.delete(cacheKey);
+      this.cache.set(cacheKey, cached);
+      return cached;
+    }
+
+    const separator = spec.indexOf(':');
+    const providerName = separator === -1 ? spec : spec.slice(0, separator);
+    const model = separator === -1 ? '' : spec.slice(separator + 1);
+    const factory = PROVIDERS[providerName]?.[kind];
+
+    if (!factory) {
+      throw new BadRequestException(
+        `Provider "${providerName}" does not offer ${KIND_LABELS[kind]} (requested "${spec}"). Known providers: ${Object.keys(PROVIDERS).join(', ')}.`,
+      );
+    }
+
+    const instance = create(factory, model);
+    this.cache.set(cacheKey, instance);
+    if (this.cache.size > CACHE_SIZE) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+
+    return instance;
+  }
+}
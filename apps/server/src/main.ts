@@ -3,6 +3,9 @@ import { AppModule } from './app.module';
 
 async function bootstrap() {
   const app = await NestFactory.create(AppModule);
+  // Runs onModuleDestroy on SIGTERM, so open runs are closed out and the
+  // databases and MCP servers shut down cleanly
+  app.enableShutdownHooks();
   await app.listen(3000);
 }
 bootstrap();
@@ -0,0 +1,78 @@
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+import { formatIssues } from '../common/format-issues';
+
+export const McpServerConfigSchema = z.object({
+  /** Executable that starts the server; it speaks MCP over stdin/stdout. */
+  command: z.string().min(1),
+  args: z.array(z.string()).default([]),
+  /** Added to the variables MCP servers inherit by default (PATH, HOME…). */
+  env: z.record(z.string()).default({}),
+  cwd: z.string().optional(),
+  /** Tools of the server bound into every agent; `*` allows every tool. */
+  allowedTools: z.array(z.string().min(1)).min(1),
+  /** Timeout of each request while attaching: initializing, listing tools. */
+  startupTimeoutMs: z.number().int().positive().default(10_000),
+  /** How long a single tool call may take. */
+  toolTimeoutMs: z.number().int().positive().default(30_000),
+});
+
+export type McpServerConfig = z.infer<typeof McpServerConfigSchema>;
+
+export const McpClientConfigSchema = z.object({
+  servers: z
+    .record(
+      z
+        .string()
+        .regex(
+          /^[A-Za-z0-9_-]+$/,
+          'Server names may only contain letters, digits, _ and -',
+        ),
+      McpServerConfigSchema,
+    )
+    .default({}),
+});
+
+export type McpClientConfig = z.infer<typeof McpClientConfigSchema>;
+
+/**
+ * Reads the MCP servers to attach from a JSON file:
+ *
+ * ```json
+ * {
+ *   "servers": {
+ *     "files": {
+ *       "command": "npx",
+ *       "args": ["-y", "@modelcontextprotocol/server-filesystem", "./docs"],
+ *       "allowedTools": ["read_file", "list_directory"]
+ *     }
+ *   }
+ * }
+ * ```
+ *
+ * Without a path no servers are attached.
+ *
+ * @throws Error if the file cannot be read or does not match the schema
+ */
+export const loadMcpClientConfig = (path?: string): McpClientConfig => {
+  if (!path) {
+    return { servers: {} };
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new Error(
+      `Cannot read the MCP configuration ${path}: ${error instanceof Error ? error.message : error}`,
+    );
+  }
+
+  const parsed = McpClientConfigSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid MCP configuration ${path}: ${formatIssues(parsed.error)}`,
+    );
+  }
+  return parsed.data;
+};
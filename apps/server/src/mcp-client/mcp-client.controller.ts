@@ -0,0 +1,13 @@
+import { Controller, Get } from '@nestjs/common';
+import { McpClientService } from './mcp-client.service';
+
+@Controller('mcp/servers')
+export class McpClientController {
+  constructor(private readonly mcpClient: McpClientService) {}
+
+  /** Every configured MCP server, whether it is attached and its tools. */
+  @Get()
+  status() {
+    return this.mcpClient.status();
+  }
+}
@@ -0,0 +1,29 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { ToolCatalogModule } from '../tool-catalog/tool-catalog.module';
+import { ToolCatalogService } from '../tool-catalog/tool-catalog.service';
+import { McpClientService } from './mcp-client.service';
+import { McpClientController } from './mcp-client.controller';
+import { loadMcpClientConfig } from './mcp-client.config';
+
+@Module({
+  imports: [ConfigModule, ToolCatalogModule],
+  controllers: [McpClientController],
+  providers: [
+    {
+      provide: McpClientService,
+      inject: [ConfigService, ToolCatalogService],
+      useFactory: (
+        configService: ConfigService,
+        toolCatalog: ToolCatalogService,
+      ) =>
+        // without `MCP_SERVERS_CONFIG` no servers are attached
+        new McpClientService(
+          loadMcpClientConfig(configService.get('MCP_SERVERS_CONFIG')),
+          toolCatalog,
+        ),
+    },
+  ],
+  exports: [McpClientService],
+})
+export class McpClientModule {}
@@ -0,0 +1,236 @@
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ConfigService } from '@nestjs/config';
+import { z } from 'zod';
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import {
+  catalogTool,
+  ToolCatalogService,
+} from '../tool-catalog/tool-catalog.service';
+import { executeToolCalls } from '../common/tool-calls';
+import { McpClientService } from './mcp-client.service';
+import {
+  loadMcpClientConfig,
+  McpServerConfig,
+  McpServerConfigSchema,
+} from './mcp-client.config';
+import { jsonSchemaToZod } from '../common/json-schema-to-zod';
+
+const issueTracker = () => {
+  const server = new Server(
+    { name: 'issues', version: '1.0.0' },
+    { capabilities: { tools: {} } },
+  );
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [
+      {
+        name: 'search.issues',
+        description: 'Searches issues',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            query: { type: 'string', minLength: 1 },
+            limit: { type: 'integer', maximum: 50 },
+          },
+          required: ['query'],
+        },
+      },
+      { name: 'fail', inputSchema: { type: 'object' } },
+      { name: 'hang', inputSchema: { type: 'object' } },
+      { name: 'delete_everything', inputSchema: { type: 'object' } },
+    ],
+  }));
+  server.setRequestHandler(CallToolRequestSchema, async ({ params }) => {
+    switch (params.name) {
+      case 'search.issues':
+        return {
+          content: [
+            { type: 'text', text: `3 issues match ${params.arguments?.query}` },
+            { type: 'image', data: '', mimeType: 'image/png' },
+          ],
+        };
+      case 'fail':
+        return {
+          content: [{ type: 'text', text: 'Tracker is down' }],
+          isError: true,
+        };
+      case 'hang':
+        return new Promise(() => undefined);
+      default:
+        throw new Error(`Unexpected call to ${params.name}`);
+    }
+  });
+  return server;
+};
+
+describe('McpClientService', () => {
+  let catalog: ToolCatalogService;
+  let mcpClient: McpClientService;
+  let server: Server;
+
+  const config = (fields: Partial<McpServerConfig> = {}) =>
+    McpServerConfigSchema.parse({
+      command: 'unused',
+      allowedTools: ['search.issues', 'fail', 'hang', 'missing'],
+      ...fields,
+    });
+
+  const attachTracker = async (fields?: Partial<McpServerConfig>) => {
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    server = issueTracker();
+    await server.connect(serverTransport);
+    return mcpClient.attach('tracker', config(fields), clientTransport);
+  };
+
+  beforeEach(() => {
+    catalog = new ToolCatalogService(new ConfigService({}));
+    mcpClient = new McpClientService({ servers: {} }, catalog);
+  });
+
+  afterEach(async () => {
+    await mcpClient.onModuleDestroy();
+    await server?.close();
+  });
+
+  it('registers the allowed tools of a server in the catalog', async () => {
+    await expect(attachTracker()).resolves.toEqual({
+      name: 'tracker',
+      state: 'connected',
+      tools: ['tracker__search_issues', 'tracker__fail', 'tracker__hang'],
+    });
+
+    expect(catalog.names()).not.toContain('tracker__delete_everything');
+    expect(
+      catalog.list().find(({ name }) => name === 'tracker__search_issues'),
+    ).toMatchObject({
+      description: 'Searches issues',
+      tags: ['mcp', 'tracker'],
+      allowed: true,
+      inputSchema: expect.objectContaining({ required: ['query'] }),
+    });
+    expect(mcpClient.status()).toHaveLength(1);
+    expect(catalog.bound()).toEqual([
+      'tracker__search_issues',
+      'tracker__fail',
+      'tracker__hang',
+    ]);
+  });
+
+  it('registers none of the tools of a server if one conflicts', async () => {
+    catalog.register(
+      catalogTool({
+        name: 'tracker__hang',
+        description: 'Taken',
+        schema: z.object({}),
+        run: () => 'taken',
+      }),
+    );
+
+    await expect(attachTracker()).resolves.toMatchObject({
+      state: 'failed',
+      tools: [],
+      error: 'A tool named tracker__hang is already registered',
+    });
+    expect(catalog.names()).toEqual(['tracker__hang']);
+  });
+
+  it('calls tools, reporting invalid arguments, errors and timeouts', async () => {
+    await attachTracker({ toolTimeoutMs: 50 });
+    const tools = await catalog.select([
+      'tracker__search_issues',
+      'tracker__fail',
+      'tracker__hang',
+    ]);
+
+    const messages = await executeToolCalls(tools, [
+      { id: '1', name: 'tracker__search_issues', args: { query: 'login' } },
+      { id: '2', name: 'tracker__search_issues', args: { limit: 100 } },
+      { id: '3', name: 'tracker__fail', args: {} },
+      { id: '4', name: 'tracker__hang', args: {} },
+    ]);
+
+    expect(messages.map(({ content }) => content)).toEqual([
+      '3 issues match login\n[image image/png]',
+      expect.stringMatching(/^Error: Invalid arguments .*query.*limit/),
+      'Error: Tracker is down',
+      expect.stringMatching(/^Error: .*timed out/i),
+    ]);
+  });
+
+  it('reports servers that cannot be attached', async () => {
+    const status = await mcpClient.attach(
+      'broken',
+      config({ command: 'no-such-mcp-server' }),
+      new StdioClientTransport({ command: 'no-such-mcp-server' }),
+    );
+
+    expect(status).toMatchObject({ state: 'failed', tools: [] });
+    expect(status.error).toEqual(expect.any(String));
+    expect(catalog.names()).toEqual([]);
+  });
+
+  it('converts JSON Schema arguments to zod', () => {
+    const schema = jsonSchemaToZod({
+      type: 'object',
+      properties: {
+        state: { enum: ['open', 'closed'] },
+        assignee: { type: ['string', 'null'] },
+        labels: { type: 'array', items: { type: 'string' }, maxItems: 2 },
+        filter: {
+          type: 'object',
+          properties: { since: { type: 'string' } },
+          additionalProperties: false,
+        },
+      },
+      required: ['state'],
+    });
+
+    expect(
+      schema.safeParse({ state: 'open', assignee: null, labels: ['bug'] })
+        .success,
+    ).toBe(true);
+    expect(schema.safeParse({ state: 'merged' }).success).toBe(false);
+    expect(
+      schema.safeParse({ state: 'open', labels: ['a', 'b', 'c'] }).success,
+    ).toBe(false);
+    expect(
+      schema.safeParse({ state: 'open', filter: { since: 'x', until: 'y' } })
+        .success,
+    ).toBe(false);
+  });
+
+  it('loads the server configuration from a JSON file', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'mcp-config-'));
+    const path = join(dir, 'mcp.json');
+
+    writeFileSync(
+      path,
+      JSON.stringify({
+        servers: { files: { command: 'npx', allowedTools: ['*'] } },
+      }),
+    );
+    expect(loadMcpClientConfig(path).servers.files).toMatchObject({
+      args: [],
+      startupTimeoutMs: 10_000,
+      toolTimeoutMs: 30_000,
+    });
+
+    writeFileSync(
+      path,
+      JSON.stringify({ servers: { 'my files': { command: 'npx' } } }),
+    );
+    expect(() => loadMcpClientConfig(path)).toThrow(
+      /Invalid MCP configuration .*allowedTools/,
+    );
+    expect(loadMcpClientConfig(undefined)).toEqual({ servers: {} });
+  });
+});
@@ -0,0 +1,220 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import {
+  getDefaultEnvironment,
+  StdioClientTransport,
+} from '@modelcontextprotocol/sdk/client/stdio.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { RequestOptions } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { McpServerStatus } from '@repo/api';
+import {
+  catalogTool,
+  ToolCatalogService,
+} from '../tool-catalog/tool-catalog.service';
+import { McpClientConfig, McpServerConfig } from './mcp-client.config';
+import {
+  JsonSchema,
+  jsonSchemaToZodObject,
+} from '../common/json-schema-to-zod';
+
+/**
+ * Catalog name of an MCP tool: prefixed with its server, so servers cannot
+ * shadow each other or the built-in tools, and limited to what models accept.
+ */
+export const mcpToolName = (server: string, tool: string) =>
+  `${server}__${tool.replace(/[^A-Za-z0-9_-]/g, '_')}`.slice(0, 64);
+
+type ToolResult = Awaited<ReturnType<Client['callTool']>>;
+
+/** Model-readable text of a tool result: text parts, and a note for others. */
+const resultText = (result: ToolResult) => {
+  if ('toolResult' in result) {
+    return JSON.stringify(result.toolResult);
+  }
+
+  const parts = result.content.map((part) => {
+    if (part.type === 'text') {
+      return part.text;
+    }
+    if (part.type === 'resource' && 'text' in part.resource) {
+      return part.resource.text;
+    }
+    return `[${part.type}${'mimeType' in part && part.mimeType ? ` ${part.mimeType}` : ''}]`;
+  });
+  if (!parts.length && result.structuredContent) {
+    return JSON.stringify(result.structuredContent);
+  }
+  return parts.join('\n');
+};
+
+const callTool = async (
+  client: Client,
+  name: string,
+  args: Record<string, unknown>,
+  options: RequestOptions,
+) => {
+  const result = await client.callTool(
+    { name, arguments: args },
+    undefined,
+    options,
+  );
+  const text = resultText(result);
+  if (result.isError) {
+    throw new Error(text || `${name} failed`);
+  }
+  return text;
+};
+
+/**
+ * Attaches the configured MCP servers at startup and registers the tools they
+ * allow in the tool catalog, tagged `mcp` and the server name and bound into
+ * every agent. A server that cannot be started, or whose tools cannot all be
+ * registered, is reported by `status()` instead of aborting startup.
+ */
+@Injectable()
+export class McpClientService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(McpClientService.name);
+
+  private readonly servers = new Map<
+    string,
+    { status: McpServerStatus; client: Client }
+  >();
+
+  private closing = false;
+
+  constructor(
+    private readonly config: McpClientConfig,
+    private readonly toolCatalog: ToolCatalogService,
+  ) {}
+
+  async onModuleInit() {
+    await Promise.all(
+      Object.entries(this.config.servers).map(([name, server]) =>
+        this.attach(
+          name,
+          server,
+          new StdioClientTransport({
+            command: server.command,
+            args: server.args,
+            env: { ...getDefaultEnvironment(), ...server.env },
+            cwd: server.cwd,
+          }),
+        ),
+      ),
+    );
+  }
+
+  async onModuleDestroy() {
+    this.closing = true;
+    await Promise.all(
+      [...this.servers.values()].map(({ client }) => client.close()),
+    );
+  }
+
+  /**
+   * Connects to a server over `transport` and registers its allowed tools.
+   *
+   * @throws ConflictException if a server with that name is already attached
+   */
+  async attach(name: string, server: McpServerConfig, transport: Transport) {
+    if (this.servers.has(name)) {
+      throw new ConflictException(`MCP server ${name} is already attached`);
+    }
+
+    const status: McpServerStatus = { name, state: 'connecting', tools: [] };
+    const client = new Client({ name: 'server', version: '0.0.0' });
+    this.servers.set(name, { status, client });
+
+    try {
+      await client.connect(transport, { timeout: server.startupTimeoutMs });
+      const tools = this.allowedTools(
+        name,
+        server,
+        await this.listTools(client, server.startupTimeoutMs),
+      );
+
+      const entries = tools.map((tool) =>
+        this.catalogEntry(name, server, client, tool),
+      );
+      this.toolCatalog.register(...entries);
+
+      client.onclose = () => {
+        if (!this.closing) {
+          status.state = 'failed';
+          status.error = 'The server closed the connection';
+          this.logger.error(`MCP server ${name} closed the connection`);
+        }
+      };
+      status.state = 'connected';
+      status.tools = entries.map((entry) => entry.name);
+      this.logger.log(
+        `Attached MCP server ${name} with tools ${status.tools.join(', ') || '(none)'}`,
+      );
+    } catch (error) {
+      status.state = 'failed';
+      status.error = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Cannot attach MCP server ${name}: ${status.error}`);
+      await client.close().catch(() => undefined);
+    }
+    return { ...status };
+  }
+
+  status(): McpServerStatus[] {
+    return [...this.servers.values()].map(({ status }) => ({ ...status }));
+  }
+
+  private async listTools(client: Client, timeout: number) {
+    const tools: Tool[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await client.listTools({ cursor }, { timeout });
+      tools.push(...page.tools);
+      cursor = page.nextCursor;
+    } while (cursor);
+    return tools;
+  }
+
+  private allowedTools(name: string, server: McpServerConfig, tools: Tool[]) {
+    const allowed = new Set(server.allowedTools);
+    const offered = new Set(tools.map((tool) => tool.name));
+    const missing = [...allowed].filter(
+      (tool) => tool !== '*' && !offered.has(tool),
+    );
+    if (missing.length) {
+      this.logger.warn(
+        `MCP server ${name} does not offer the allowed tools ${missing.join(', ')}`,
+      );
+    }
+
+    return allowed.has('*')
+      ? tools
+      : tools.filter((tool) => allowed.has(tool.name));
+  }
+
+  private catalogEntry(
+    serverName: string,
+    server: McpServerConfig,
+    client: Client,
+    { name, description, inputSchema }: Tool,
+  ) {
+    const entry = catalogTool({
+      name: mcpToolName(serverName, name),
+      description: description || `${name} from the ${serverName} MCP server`,
+      schema: jsonSchemaToZodObject(inputSchema as JsonSchema),
+      tags: ['mcp', serverName],
+      run: (args, context, { signal }) =>
+        callTool(client, name, args, {
+          timeout: server.toolTimeoutMs,
+          signal,
+        }),
+    });
+    return { ...entry, bound: true };
+  }
+}
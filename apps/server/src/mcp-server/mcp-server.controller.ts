@@ -0,0 +1,55 @@
+import {
+  Controller,
+  Delete,
+  Get,
+  Header,
+  HttpException,
+  HttpStatus,
+  Post,
+  Req,
+  Res,
+} from '@nestjs/common';
+import { Request, Response } from 'express';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { McpServerService } from './mcp-server.service';
+
+const methodNotAllowed = () =>
+  new HttpException(
+    'The MCP endpoint is stateless; send requests with POST',
+    HttpStatus.METHOD_NOT_ALLOWED,
+  );
+
+/**
+ * Streamable HTTP endpoint of the workflow MCP server. It is stateless: each
+ * request gets its own server and transport, so there are no sessions to
+ * resume (GET) or end (DELETE).
+ */
+@Controller('mcp')
+export class McpServerController {
+  constructor(private readonly mcpServer: McpServerService) {}
+
+  @Post()
+  async handle(@Req() req: Request, @Res() res: Response) {
+    const server = this.mcpServer.create();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: undefined,
+    });
+    // Closing aborts the tool calls still running for this request
+    res.on('close', () => void server.close());
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, req.body);
+  }
+
+  @Get()
+  @Header('Allow', 'POST')
+  stream() {
+    throw methodNotAllowed();
+  }
+
+  @Delete()
+  @Header('Allow', 'POST')
+  endSession() {
+    throw methodNotAllowed();
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { GraphRegistryModule } from '../graph-registry/graph-registry.module';
+import { McpServerService } from './mcp-server.service';
+import { McpServerController } from './mcp-server.controller';
+
+@Module({
+  imports: [GraphRegistryModule],
+  controllers: [McpServerController],
+  providers: [McpServerService],
+  exports: [McpServerService],
+})
+export class McpServerModule {}
@@ -0,0 +1,172 @@
+import { INestApplication } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { z } from 'zod';
+import { AIMessage } from '@langchain/core/messages';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  GraphRegistryService,
+  registeredGraph,
+} from '../graph-registry/graph-registry.service';
+import { McpServerModule } from './mcp-server.module';
+import { McpServerService } from './mcp-server.service';
+
+const notCompiled = (): never => {
+  throw new Error('Only streamed in these tests');
+};
+
+describe('McpServerService', () => {
+  let app: INestApplication;
+  let client: Client;
+  let server: Server;
+  let slowRunAborted: boolean;
+
+  const graphs = [
+    registeredGraph({
+      name: 'shout',
+      description: 'Shouts the text back.',
+      schema: z.object({ text: z.string().min(1) }),
+      build: notCompiled,
+      async *stream({ text }) {
+        yield { event: 'update', data: { node: 'shout', update: {} } };
+        yield {
+          event: 'done',
+          data: {
+            state: { text, messages: [new AIMessage(text.toUpperCase())] },
+          },
+        };
+      },
+    }),
+    registeredGraph({
+      name: 'broken',
+      description: 'Always fails.',
+      schema: z.object({}),
+      build: notCompiled,
+      async *stream() {
+        yield { event: 'error', data: { message: 'Model unavailable' } };
+      },
+    }),
+    registeredGraph({
+      name: 'slow',
+      description: 'Runs until it is cancelled.',
+      schema: z.object({}),
+      build: notCompiled,
+      async *stream(input, signal) {
+        await new Promise((resolve) =>
+          signal.addEventListener('abort', resolve),
+        );
+        slowRunAborted = true;
+      },
+    }),
+  ];
+
+  beforeEach(async () => {
+    slowRunAborted = false;
+    const moduleRef = await Test.createTestingModule({
+      imports: [McpServerModule],
+    }).compile();
+    moduleRef.get(GraphRegistryService).register(...graphs);
+
+    app = moduleRef.createNestApplication();
+    await app.init();
+
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    server = app.get(McpServerService).create();
+    await server.connect(serverTransport);
+    client = new Client({ name: 'test', version: '1.0.0' });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await server.close();
+    await app.close();
+  });
+
+  it('publishes registered graphs as tools with their input schema', async () => {
+    const { tools } = await client.listTools();
+
+    expect(tools.map(({ name }) => name)).toEqual(['shout', 'broken', 'slow']);
+    expect(tools[0]).toMatchObject({
+      description: 'Shouts the text back.',
+      inputSchema: {
+        type: 'object',
+        properties: { text: { type: 'string', minLength: 1 } },
+        required: ['text'],
+      },
+    });
+  });
+
+  it('runs graphs, reporting progress per node', async () => {
+    const progress: unknown[] = [];
+    const result = await client.callTool(
+      { name: 'shout', arguments: { text: 'hello' } },
+      undefined,
+      { onprogress: (notification) => progress.push(notification) },
+    );
+
+    expect(result.isError).toBeFalsy();
+    expect(JSON.parse((result.content as [{ text: string }])[0].text)).toEqual({
+      text: 'hello',
+      messages: [{ role: 'ai', content: 'HELLO' }],
+    });
+    expect(progress).toEqual([{ progress: 1, message: 'shout' }]);
+  });
+
+  it('answers invalid input, failures and unknown graphs with errors', async () => {
+    const call = (name: string, args: Record<string, unknown> = {}) =>
+      client.callTool({ name, arguments: args });
+
+    await expect(call('shout', { text: '' })).resolves.toMatchObject({
+      isError: true,
+      content: [
+        { text: expect.stringMatching(/^Invalid input for shout: text/) },
+      ],
+    });
+    await expect(call('broken')).resolves.toMatchObject({
+      isError: true,
+      content: [{ text: 'Model unavailable' }],
+    });
+    await expect(call('routing')).resolves.toMatchObject({
+      isError: true,
+      content: [{ text: expect.stringContaining('Unknown tool routing') }],
+    });
+  });
+
+  it('cancels the run when the client cancels the call', async () => {
+    const controller = new AbortController();
+    const call = client.callTool({ name: 'slow' }, undefined, {
+      signal: controller.signal,
+    });
+    setTimeout(() => controller.abort(), 20);
+
+    await expect(call).rejects.toThrow();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(slowRunAborted).toBe(true);
+  });
+
+  it('serves the tools over streamable HTTP', async () => {
+    await app.listen(0);
+    const url = new URL('/mcp', await app.getUrl());
+    const httpClient = new Client({ name: 'test', version: '1.0.0' });
+    await httpClient.connect(new StreamableHTTPClientTransport(url));
+
+    const result = await httpClient.callTool({
+      name: 'shout',
+      arguments: { text: 'over http' },
+    });
+    expect(result.content).toEqual([
+      {
+        type: 'text',
+        text: expect.stringContaining('"content":"OVER HTTP"'),
+      },
+    ]);
+    await httpClient.close();
+
+    expect((await fetch(url)).status).toBe(405);
+  });
+});
@@ -0,0 +1,116 @@
+import { Injectable } from '@nestjs/common';
+import zodToJsonSchema from 'zod-to-json-schema';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema,
+  CallToolResult,
+  ListToolsRequestSchema,
+  Tool,
+} from '@modelcontextprotocol/sdk/types.js';
+import { GraphRegistryService } from '../graph-registry/graph-registry.service';
+import { formatIssues } from '../common/format-issues';
+import { toJson } from '../common/traced-message';
+
+/** Reports each node that finished, e.g. as MCP progress notifications. */
+export type NodeProgress = (progress: number, node: string) => Promise<void>;
+
+const errorResult = (text: string): CallToolResult => ({
+  content: [{ type: 'text', text }],
+  isError: true,
+});
+
+/**
+ * Publishes every registered graph as an MCP tool named after the graph, with
+ * the JSON Schema of its input. A call runs the graph to completion and
+ * answers with its final state as JSON.
+ */
+@Injectable()
+export class McpServerService {
+  constructor(private readonly graphRegistry: GraphRegistryService) {}
+
+  /** A server for one MCP session; transports cannot share a server. */
+  create() {
+    const server = new Server(
+      { name: 'workflows', version: '0.0.0' },
+      { capabilities: { tools: {} } },
+    );
+
+    server.setRequestHandler(ListToolsRequestSchema, () => ({
+      tools: this.tools(),
+    }));
+    server.setRequestHandler(CallToolRequestSchema, ({ params }, extra) => {
+      const progressToken = params._meta?.progressToken;
+      const onProgress: NodeProgress | undefined =
+        progressToken === undefined
+          ? undefined
+          : (progress, node) =>
+              extra.sendNotification({
+                method: 'notifications/progress',
+                params: { progressToken, progress, message: node },
+              });
+
+      return this.call(params.name, params.arguments, extra.signal, onProgress);
+    });
+    return server;
+  }
+
+  tools(): Tool[] {
+    return this.graphRegistry
+      .names()
+      .map((name) => this.graphRegistry.get(name))
+      .map(({ name, description, schema }) => ({
+        name,
+        description,
+        inputSchema: zodToJsonSchema(schema) as Tool['inputSchema'],
+      }));
+  }
+
+  /**
+   * Runs the named graph. Unknown graphs, invalid input and failed or
+   * cancelled runs are answered with an error result, for the calling model
+   * to see.
+   */
+  async call(
+    name: string,
+    args: unknown,
+    signal: AbortSignal,
+    onProgress?: NodeProgress,
+  ): Promise<CallToolResult> {
+    const graph = this.graphRegistry.find(name);
+    if (!graph) {
+      return errorResult(
+        `Unknown tool ${name}; expected one of ${this.graphRegistry.names().join(', ')}`,
+      );
+    }
+
+    const parsed = graph.schema.safeParse(args ?? {});
+    if (!parsed.success) {
+      return errorResult(
+        `Invalid input for ${name}: ${formatIssues(parsed.error)}`,
+      );
+    }
+
+    let nodes = 0;
+    try {
+      for await (const event of graph.stream(parsed.data, signal)) {
+        if (event.event === 'update') {
+          await onProgress?.(++nodes, event.data.node);
+        } else if (event.event === 'done') {
+          return {
+            content: [{ type: 'text', text: toJson(event.data.state) }],
+          };
+        } else if (event.event === 'error') {
+          return errorResult(event.data.message);
+        }
+      }
+    } catch (error) {
+      if (!signal.aborted) {
+        return errorResult(
+          error instanceof Error ? error.message : String(error),
+        );
+      }
+    }
+    // The graph only ends without a terminal event when it was aborted
+    return errorResult(`${name} was cancelled`);
+  }
+}
@@ -0,0 +1,35 @@
+import { ConsoleLogger, LogLevel } from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { AppModule } from './app.module';
+import { McpServerService } from './mcp-server/mcp-server.service';
+
+/** Logs to stderr: stdout carries the MCP messages. */
+class StderrLogger extends ConsoleLogger {
+  protected printMessages(
+    messages: unknown[],
+    context?: string,
+    logLevel?: LogLevel,
+  ) {
+    super.printMessages(messages, context, logLevel, 'stderr');
+  }
+}
+
+/**
+ * Serves the workflow MCP server over stdin/stdout, for MCP clients that
+ * start their servers as subprocesses.
+ */
+async function bootstrap() {
+  // Stray console output would corrupt the protocol as well
+  console.log = console.info = console.debug = console.error;
+
+  const app = await NestFactory.createApplicationContext(AppModule, {
+    logger: new StderrLogger(),
+  });
+  app.enableShutdownHooks();
+
+  const server = app.get(McpServerService).create();
+  server.onclose = () => void app.close();
+  await server.connect(new StdioServerTransport());
+}
+bootstrap();
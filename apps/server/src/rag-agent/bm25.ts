@@ -0,0 +1,56 @@
+const K1 = 1.2;
+const B = 0.75;
+
+/**
+ * Lowercased word tokens. Codes like `E-1234` or `v2.1` stay whole so exact
+ * identifiers can be matched.
+ */
+export const tokenize = (text: string) =>
+  text.toLowerCase().match(/[\p{L}\p{N}]+(?:[-_.][\p{L}\p{N}]+)*/gu) ?? [];
+
+/**
+ * Okapi BM25 score of every text for `query`, in input order.
+ */
+export function bm25Scores(query: string, texts: string[]) {
+  const terms = [...new Set(tokenize(query))];
+  const documents = texts.map((text) => {
+    const tokens = tokenize(text);
+    const frequencies = new Map<string, number>();
+    tokens.forEach((token) =>
+      frequencies.set(token, (frequencies.get(token) ?? 0) + 1),
+    );
+    return { length: tokens.length, frequencies };
+  });
+
+  const averageLength =
+    documents.reduce((sum, { length }) => sum + length, 0) /
+    Math.max(documents.length, 1);
+
+  const idf = new Map(
+    terms.map((term) => {
+      const containing = documents.filter(({ frequencies }) =>
+        frequencies.has(term),
+      ).length;
+      return [
+        term,
+        Math.log(
+          1 + (documents.length - containing + 0.5) / (containing + 0.5),
+        ),
+      ];
+    }),
+  );
+
+  return documents.map(({ length, frequencies }) =>
+    terms.reduce((score, term) => {
+      const frequency = frequencies.get(term) ?? 0;
+      if (!frequency) {
+        return score;
+      }
+      return (
+        score +
+        (idf.get(term)! * frequency * (K1 + 1)) /
+          (frequency + K1 * (1 - B + (B * length) / (averageLength || 1)))
+      );
+    }, 0),
+  );
+}
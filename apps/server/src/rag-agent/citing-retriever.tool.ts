@@ -0,0 +1,63 @@
+import { z } from 'zod';
+import { Document } from '@langchain/core/documents';
+import { BaseRetriever } from '@langchain/core/retrievers';
+import { tool } from '@langchain/core/tools';
+import { RagCitation } from '@repo/api';
+
+export const RetrieverToolSchema = z.object({
+  query: z.string().describe('query to look up in retriever'),
+});
+
+const isUrl = (source: string) => /^https?:\/\//i.test(source);
+
+/** Provenance of a retrieved chunk, numbered by its rank. */
+export const toCitation = (
+  { metadata }: Document,
+  index: number,
+): RagCitation => ({
+  id: index + 1,
+  documentId: metadata.documentId,
+  source: metadata.source,
+  title: metadata.title,
+  url: isUrl(metadata.source ?? '') ? metadata.source : undefined,
+  start: metadata.start,
+  end: metadata.end,
+});
+
+const formatPassage = (document: Document, citation: RagCitation) => {
+  const range =
+    citation.start !== undefined
+      ? `, characters ${citation.start}-${citation.end}`
+      : '';
+  return `[${citation.id}] ${citation.title} (${citation.source}${range})\n${document.pageContent}`;
+};
+
+/**
+ * Replaces `createRetrieverTool` on purpose. It takes the same retriever and
+ * fields and has the same `query` schema, and a direct call still answers
+ * with text. Each passage is numbered so the answer can cite it, and a tool
+ * call also returns the citations as the tool message artifact.
+ */
+export function createCitingRetrieverTool(
+  retriever: BaseRetriever,
+  fields: { name: string; description: string },
+) {
+  return tool(
+    async ({ query }, config) => {
+      const documents = await retriever.invoke(query, config);
+      const citations = documents.map(toCitation);
+
+      return [
+        documents
+          .map((document, i) => formatPassage(document, citations[i]))
+          .join('\n\n'),
+        citations,
+      ];
+    },
+    {
+      ...fields,
+      schema: RetrieverToolSchema,
+      responseFormat: 'content_and_artifact',
+    },
+  );
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { Document } from '@langchain/core/documents';
+import { SyntheticEmbeddings } from '@langchain/core/utils/testing';
+import { RetrievalOptionsDto, RetrievalOptionsSchema } from '@repo/api';
+import { HybridRetriever } from './hybrid-retriever';
+import { SqliteVectorStore } from './sqlite-vector-store';
+
+const chunk = (pageContent: string, metadata: Record<string, unknown> = {}) =>
+  new Document({
+    pageContent,
+    metadata: {
+      source: 'notes.md',
+      tags: [],
+      ingestedAt: '2025-01-01T00:00:00.000Z',
+      ...metadata,
+      documentId: metadata.source ?? 'notes.md',
+    },
+  });
+
+describe('HybridRetriever', () => {
+  let store: SqliteVectorStore;
+
+  const search = async (
+    query: string,
+    options: Partial<RetrievalOptionsDto> = {},
+  ) => {
+    const retriever = new HybridRetriever({
+      store,
+      ...RetrievalOptionsSchema.parse(options),
+    });
+    const documents = await retriever.invoke(query);
+    return documents.map(({ pageContent }) => pageContent);
+  };
+
+  beforeEach(() => {
+    store = new SqliteVectorStore(new SyntheticEmbeddings({ vectorSize: 16 }), {
+      path: ':memory:',
+      embeddingsModel: 'synthetic:16',
+    }).open();
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  it('ranks exact keyword matches first', async () => {
+    await store.addDocuments([
+      chunk('Printers must be restarted weekly.'),
+      chunk('Invoices are sent on the first of the month.'),
+      chunk('Error E1234 means the disk is full.'),
+      chunk('The VPN requires two factor authentication.'),
+      chunk('Laptops are replaced every three years.'),
+    ]);
+
+    const [first] = await search('What does E1234 mean?', { mmr: false });
+
+    expect(first).toBe('Error E1234 means the disk is full.');
+  });
+
+  it('returns the configured number of passages', async () => {
+    await store.addDocuments(
+      Array.from({ length: 8 }, (_, i) => chunk(`Passage number ${i}`)),
+    );
+
+    expect(await search('passage', { k: 3 })).toHaveLength(3);
+    expect(await search('passage', { k: 6, mmr: false })).toHaveLength(6);
+  });
+
+  it('filters by source, tags and ingestion date', async () => {
+    await store.addDocuments([
+      chunk('Billing runbook', { source: 'billing/runbook.md' }),
+      chunk('Billing FAQ', {
+        source: 'faq.md',
+        tags: ['billing'],
+        ingestedAt: '2024-01-01T00:00:00.000Z',
+      }),
+      chunk('Billing policy', { source: 'policy.md', tags: ['legal'] }),
+    ]);
+
+    expect(
+      await search('billing', { filter: { sources: ['billing/'] } }),
+    ).toEqual(['Billing runbook']);
+    expect(await search('billing', { filter: { tags: ['billing'] } })).toEqual([
+      'Billing FAQ',
+    ]);
+    expect(
+      (
+        await search('billing', {
+          filter: { ingestedAfter: new Date('2024-06-01') },
+        })
+      ).sort(),
+    ).toEqual(['Billing policy', 'Billing runbook']);
+  });
+
+  it('diversifies duplicate passages with MMR', async () => {
+    await store.addDocuments([
+      chunk('Reset the router to fix error E42.', { source: 'a.md' }),
+      chunk('Reset the router to fix error E42.', { source: 'b.md' }),
+      chunk('Reset the router to fix error E42.', { source: 'c.md' }),
+      chunk('Error E42 can also come from a loose cable.', { source: 'd.md' }),
+    ]);
+
+    const results = await search('error E42', { k: 2, mmrLambda: 0.3 });
+
+    expect(new Set(results).size).toBe(2);
+  });
+});
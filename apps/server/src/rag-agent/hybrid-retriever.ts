@@ -0,0 +1,155 @@
+import { Document } from '@langchain/core/documents';
+import { BaseRetriever, BaseRetrieverInput } from '@langchain/core/retrievers';
+import { RetrievalFilterDto, RetrievalOptionsDto } from '@repo/api';
+import { bm25Scores } from './bm25';
+import { SqliteVectorStore, cosine } from './sqlite-vector-store';
+
+/** Damps the weight of top ranks in reciprocal rank fusion. */
+const RRF_K = 60;
+
+export interface HybridRetrieverInput
+  extends BaseRetrieverInput,
+    RetrievalOptionsDto {
+  store: SqliteVectorStore;
+}
+
+interface Candidate {
+  document: Document;
+  embedding: Float32Array;
+  score: number;
+}
+
+/** Indices of `scores`, best first. */
+const rankByScore = (scores: number[]) =>
+  scores.map((_, index) => index).sort((a, b) => scores[b] - scores[a]);
+
+/**
+ * Keeps chunks whose document matches every given criterion.
+ */
+export const matchesFilter =
+  ({ sources, tags, ingestedAfter, ingestedBefore }: RetrievalFilterDto = {}) =>
+  ({ metadata }: Document) => {
+    if (
+      sources?.length &&
+      !sources.some((source) => metadata.source?.includes(source))
+    ) {
+      return false;
+    }
+    if (
+      tags?.length &&
+      !tags.some((tag) => (metadata.tags ?? []).includes(tag))
+    ) {
+      return false;
+    }
+
+    const ingestedAt = new Date(metadata.ingestedAt ?? 0);
+    if (ingestedAfter && ingestedAt < ingestedAfter) {
+      return false;
+    }
+    return !(ingestedBefore && ingestedAt > ingestedBefore);
+  };
+
+/**
+ * Ranks chunks by BM25 and by vector similarity and fuses both rankings with
+ * reciprocal rank fusion, so exact terms such as error codes are found even
+ * when their embedding is not close to the query. The fused candidates are
+ * then diversified with maximal marginal relevance.
+ */
+export class HybridRetriever extends BaseRetriever {
+  lc_namespace = ['rag-agent', 'retrievers'];
+
+  private readonly store: SqliteVectorStore;
+  private readonly options: RetrievalOptionsDto;
+
+  constructor({
+    store,
+    k,
+    fetchK,
+    mmr,
+    mmrLambda,
+    filter,
+    ...fields
+  }: HybridRetrieverInput) {
+    super(fields);
+    this.store = store;
+    this.options = { k, fetchK, mmr, mmrLambda, filter };
+  }
+
+  async _getRelevantDocuments(query: string) {
+    const { k, fetchK, mmr, mmrLambda, filter } = this.options;
+
+    const entries = this.store.entries(matchesFilter(filter));
+    if (!entries.length) {
+      return [];
+    }
+
+    const queryEmbedding = await this.store.embeddings.embedQuery(query);
+    const similarities = entries.map(({ embedding }) =>
+      cosine(queryEmbedding, embedding),
+    );
+    const lexicalScores = bm25Scores(
+      query,
+      entries.map(({ document }) => document.pageContent),
+    );
+
+    // Chunks without any query term have no lexical rank
+    const rankings = [
+      rankByScore(similarities),
+      rankByScore(lexicalScores).filter((index) => lexicalScores[index] > 0),
+    ];
+
+    const fused = new Map<number, number>();
+    for (const ranking of rankings) {
+      ranking
+        .slice(0, fetchK)
+        .forEach((index, rank) =>
+          fused.set(index, (fused.get(index) ?? 0) + 1 / (RRF_K + rank + 1)),
+        );
+    }
+
+    const candidates: Candidate[] = [...fused]
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, fetchK)
+      .map(([index, score]) => ({ ...entries[index], score }));
+
+    const selected = mmr
+      ? this.diversify(candidates, k, mmrLambda)
+      : candidates.slice(0, k);
+
+    return selected.map(({ document }) => document);
+  }
+
+  /**
+   * Greedy MMR over the fused scores, scaled to [0, 1] so they are
+   * comparable with cosine similarity between candidates.
+   */
+  private diversify(candidates: Candidate[], k: number, lambda: number) {
+    const topScore = candidates[0]?.score ?? 1;
+    const remaining = [...candidates];
+    const selected: Candidate[] = [];
+
+    while (selected.length < k && remaining.length) {
+      let best = 0;
+      let bestScore = -Infinity;
+
+      remaining.forEach((candidate, index) => {
+        const redundancy = Math.max(
+          0,
+          ...selected.map(({ embedding }) =>
+            cosine(candidate.embedding, embedding),
+          ),
+        );
+        const score =
+          lambda * (candidate.score / topScore) - (1 - lambda) * redundancy;
+        if (score > bestScore) {
+          best = index;
+          bestScore = score;
+        }
+      });
+
+      selected.push(...remaining.splice(best, 1));
+    }
+
+    return selected;
+  }
+}
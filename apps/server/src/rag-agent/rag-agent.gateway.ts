@@ -2,15 +2,83 @@ import {
   WebSocketGateway,
   SubscribeMessage,
   MessageBody,
+  ConnectedSocket,
+  OnGatewayConnection,
 } from '@nestjs/websockets';
+import { Logger } from '@nestjs/common';
+import { Socket } from 'socket.io';
+import { AskRagAgentSchema, RagCitation } from '@repo/api';
 import { RagAgentService } from './rag-agent.service';
+import { Retriever } from './rag-agent.retriever';
 
-@WebSocketGateway()
-export class RagAgentGateway {
-  constructor(private readonly ragAgentService: RagAgentService) {}
+@WebSocketGateway({
+  cors: { origin: '*' },
+  namespace: '/rag-agent',
+  transports: ['websocket', 'polling'],
+})
+export class RagAgentGateway implements OnGatewayConnection {
+  private readonly logger = new Logger(RagAgentGateway.name);
 
-  @SubscribeMessage('createRagAgent')
-  create(@MessageBody() messageBody: any) {
-    return 'Hello';
+  constructor(
+    private readonly ragAgentService: RagAgentService,
+    private readonly retriever: Retriever,
+  ) {}
+
+  /**
+   * Tells new clients whether the index is ready. Questions asked while it
+   * is still loading wait for it.
+   */
+  handleConnection(client: Socket) {
+    client.emit('message', { type: 'status', ...this.retriever.status() });
+  }
+
+  /**
+   * Answers a question against the indexed corpus, reporting each graph step
+   * (retrieval, grading, rewrites) before the final `answer` event.
+   */
+  @SubscribeMessage('question')
+  async handleQuestion(
+    @MessageBody() payload: unknown,
+    @ConnectedSocket() client: Socket,
+  ) {
+    const result = AskRagAgentSchema.safeParse(payload);
+    if (!result.success) {
+      client.emit('message', {
+        type: 'error',
+        content: 'Invalid payload',
+        issues: result.error.issues.map(({ path, message }) => ({
+          path: path.join('.'),
+          message,
+        })),
+      });
+      return;
+    }
+
+    try {
+      const stream = await this.ragAgentService.stream(result.data);
+
+      let answer = '';
+      let citations: RagCitation[] = [];
+      for await (const step of stream) {
+        const [node, update] = Object.entries(step)[0] ?? [];
+        client.emit('message', { type: 'step', node });
+
+        // The answer is whatever the agent or generator said last
+        if (node === 'agent' || node === 'generate') {
+          const content = update?.messages?.at(-1)?.content;
+          answer = typeof content === 'string' ? content : '';
+          citations = update?.citations ?? [];
+        }
+      }
+
+      client.emit('message', { type: 'answer', content: answer, citations });
+    } catch (error) {
+      this.logger.error('RAG agent error:', error);
+      client.emit('message', {
+        type: 'error',
+        content: 'Failed to answer the question',
+        details: error instanceof Error ? error.message : String(error),
+      });
+    }
   }
 }
@@ -1,8 +1,90 @@
-import { Module } from '@nestjs/common';
+import { Module, OnModuleInit } from '@nestjs/common';
+import { AskRagAgentSchema } from '@repo/api';
 import { RagAgentService } from './rag-agent.service';
 import { RagAgentGateway } from './rag-agent.gateway';
+import { Retriever } from './rag-agent.retriever';
+import { RagIngestionService } from './rag-ingestion.service';
+import { RagIngestionController } from './rag-ingestion.controller';
+import { RagHealthController } from './rag-health.controller';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { SqliteVectorStore } from './sqlite-vector-store';
+import { RetrieverToolSchema } from './citing-retriever.tool';
+import { LlmProviderModule } from '../llm-provider/llm-provider.module';
+import { LlmProviderService } from '../llm-provider/llm-provider.service';
+import { GraphRegistryModule } from '../graph-registry/graph-registry.module';
+import {
+  GraphRegistryService,
+  registeredGraph,
+} from '../graph-registry/graph-registry.service';
+import { ToolCatalogModule } from '../tool-catalog/tool-catalog.module';
+import { ToolCatalogService } from '../tool-catalog/tool-catalog.service';
+import { RunHistoryModule } from '../run-history/run-history.module';
 
 @Module({
-  providers: [RagAgentGateway, RagAgentService],
+  imports: [
+    ConfigModule,
+    LlmProviderModule,
+    GraphRegistryModule,
+    ToolCatalogModule,
+    RunHistoryModule,
+  ],
+  controllers: [RagIngestionController, RagHealthController],
+  providers: [
+    RagAgentGateway,
+    RagAgentService,
+    RagIngestionService,
+    {
+      provide: Retriever,
+      inject: [LlmProviderService, ConfigService],
+      useFactory: (
+        llmProvider: LlmProviderService,
+        configService: ConfigService,
+      ) => {
+        // `:memory:` keeps the index in process only
+        const path = configService.get(
+          'RAG_INDEX_PATH',
+          'data/rag-index.sqlite',
+        );
+
+        return new Retriever(
+          new SqliteVectorStore(llmProvider.embeddings('rag'), {
+            path,
+            embeddingsModel: llmProvider.embeddingsModel('rag'),
+          }),
+        );
+      },
+    },
+  ],
 })
-export class RagAgentModule {}
+export class RagAgentModule implements OnModuleInit {
+  constructor(
+    private readonly graphRegistry: GraphRegistryService,
+    private readonly ragAgentService: RagAgentService,
+    private readonly toolCatalog: ToolCatalogService,
+    private readonly retriever: Retriever,
+  ) {}
+
+  onModuleInit() {
+    this.graphRegistry.register(
+      registeredGraph({
+        name: 'rag-agent',
+        description:
+          'Answers from the indexed documents, grading retrievals and rewriting the question when needed.',
+        schema: AskRagAgentSchema,
+        build: () => this.ragAgentService.graph(),
+        stream: (input, signal) =>
+          this.ragAgentService.streamEvents(input, signal),
+      }),
+    );
+
+    this.toolCatalog.register({
+      name: 'retrieve_documents',
+      description: 'Searches the documents indexed for the RAG agent.',
+      schema: RetrieverToolSchema,
+      tags: ['rag'],
+      permissions: ['read-documents'],
+      create: async ({ retrieval }) =>
+        (await this.retriever.getTools(retrieval))[0],
+    });
+  }
+}
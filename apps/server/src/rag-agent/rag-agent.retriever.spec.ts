@@ -0,0 +1,148 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ServiceUnavailableException } from '@nestjs/common';
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { Document } from '@langchain/core/documents';
+import { ToolMessage } from '@langchain/core/messages';
+import { SyntheticEmbeddings } from '@langchain/core/utils/testing';
+import { Retriever } from './rag-agent.retriever';
+import { SqliteVectorStore } from './sqlite-vector-store';
+
+const retrieverAt = (path: string) =>
+  new Retriever(
+    new SqliteVectorStore(new SyntheticEmbeddings({ vectorSize: 16 }), {
+      path,
+      embeddingsModel: 'synthetic:16',
+    }),
+  );
+
+describe('Retriever', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'rag-retriever-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('reports initializing until the index is loaded', async () => {
+    const retriever = retrieverAt(':memory:');
+
+    expect(retriever.status()).toEqual({
+      state: 'initializing',
+      documents: 0,
+      chunks: 0,
+      lastIngestAt: null,
+    });
+
+    const pending = retriever.listDocuments();
+    retriever.onModuleInit();
+
+    // loading does not hold up startup
+    expect(retriever.status().state).toBe('initializing');
+    expect(await pending).toEqual([]);
+    expect(retriever.status().state).toBe('ready');
+    await retriever.onModuleDestroy();
+  });
+
+  it('reports counts and the last ingest of a reopened index', async () => {
+    const path = join(directory, 'index.sqlite');
+    const first = retrieverAt(path);
+    first.onModuleInit();
+    const { ingestedAt } = await first.upsertDocument(
+      {
+        id: 'doc-1',
+        source: 'a.txt',
+        title: 'a',
+        format: 'text',
+        tags: [],
+        chunks: 2,
+        ingestedAt: '2025-01-01T00:00:00.000Z',
+      },
+      [
+        new Document({ pageContent: 'one' }),
+        new Document({ pageContent: 'two' }),
+      ],
+    );
+    await first.onModuleDestroy();
+
+    const second = retrieverAt(path);
+    second.onModuleInit();
+    await second.whenReady();
+
+    expect(second.status()).toEqual({
+      state: 'ready',
+      documents: 1,
+      chunks: 2,
+      lastIngestAt: ingestedAt,
+    });
+    await second.onModuleDestroy();
+  });
+
+  it('offers a retriever tool that also returns citations', async () => {
+    const retriever = retrieverAt(':memory:');
+    retriever.onModuleInit();
+    await retriever.upsertDocument(
+      {
+        id: 'doc-1',
+        source: 'https://example.com/e1234',
+        title: 'Disk errors',
+        format: 'text',
+        tags: [],
+        chunks: 1,
+        ingestedAt: '2025-01-01T00:00:00.000Z',
+      },
+      [
+        new Document({
+          pageContent: 'E1234 means the disk is full.',
+          metadata: {
+            source: 'https://example.com/e1234',
+            title: 'Disk errors',
+          },
+        }),
+      ],
+    );
+    const [tool] = await retriever.getTools();
+
+    expect(await tool.invoke({ query: 'E1234' })).toBe(
+      '[1] Disk errors (https://example.com/e1234)\nE1234 means the disk is full.',
+    );
+    const message = await tool.invoke({
+      id: 'call_1',
+      name: tool.name,
+      args: { query: 'E1234' },
+      type: 'tool_call',
+    });
+    expect(message).toBeInstanceOf(ToolMessage);
+    expect(message.artifact).toEqual([
+      expect.objectContaining({
+        id: 1,
+        documentId: 'doc-1',
+        url: 'https://example.com/e1234',
+      }),
+    ]);
+    await retriever.onModuleDestroy();
+  });
+
+  it('reports failures instead of throwing from onModuleInit', async () => {
+    const file = join(directory, 'not-a-directory');
+    await writeFile(file, '');
+    const retriever = retrieverAt(join(file, 'index.sqlite'));
+
+    retriever.onModuleInit();
+
+    await expect(retriever.whenReady()).rejects.toBeInstanceOf(
+      ServiceUnavailableException,
+    );
+    expect(retriever.status()).toMatchObject({
+      state: 'failed',
+      error: expect.stringContaining('not-a-directory'),
+    });
+    await expect(retriever.getTools()).rejects.toBeInstanceOf(
+      ServiceUnavailableException,
+    );
+  });
+});
@@ -1,17 +1,31 @@
-import { CheerioWebBaseLoader } from '@langchain/community/document_loaders/web/cheerio';
-import { RecursiveCharacterTextSplitter } from '@langchain/textsplitters';
-import { MemoryVectorStore } from 'langchain/vectorstores/memory';
-import { OpenAIEmbeddings } from '@langchain/openai';
 import { Document } from '@langchain/core/documents';
-import { VectorStoreRetriever } from '@langchain/core/vectorstores';
 import { Annotation } from '@langchain/langgraph';
 import { BaseMessage } from '@langchain/core/messages';
-import { createRetrieverTool } from 'langchain/tools/retriever';
 import { ToolNode } from '@langchain/langgraph/prebuilt';
-import { DynamicStructuredTool } from '@langchain/core/tools';
-import { ZodObject, ZodString, ZodTypeAny } from 'zod';
+import {
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import {
+  RagDocument,
+  RagIndexStatus,
+  RetrievalOptionsDto,
+  RetrievalOptionsSchema,
+} from '@repo/api';
+import { HybridRetriever } from './hybrid-retriever';
+import { createCitingRetrieverTool } from './citing-retriever.tool';
+import { SqliteVectorStore } from './sqlite-vector-store';
+
+/**
+ * Owns the RAG index. Loading starts in `onModuleInit` without holding up
+ * startup; until it is done, or if it failed, `status()` says so and index
+ * operations wait or throw.
+ */
+export class Retriever implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(Retriever.name);
 
-export class Retriever {
   private GraphState = Annotation.Root({
     messages: Annotation<BaseMessage[]>({
       reducer: (x, y) => x.concat(y),
@@ -19,70 +33,165 @@ export class Retriever {
     }),
   });
 
-  private docsList: Document[] = [];
-  private textSplitter: RecursiveCharacterTextSplitter;
-  private docSplits: Document[] = [];
-  private vectorStore: MemoryVectorStore;
-  private retriever: VectorStoreRetriever;
-
-  private tools: DynamicStructuredTool<
-    ZodObject<
-      {
-        query: ZodString;
-      },
-      'strip',
-      ZodTypeAny,
-      {
-        query: string;
-      },
-      {
-        query: string;
+  private state: Pick<RagIndexStatus, 'state' | 'error' | 'lastIngestAt'> = {
+    state: 'initializing',
+    lastIngestAt: null,
+  };
+
+  /** Settles once the index is loaded; rejects if loading failed. */
+  private readonly ready: Promise<void>;
+  private loading?: Promise<void>;
+  private markReady: () => void;
+  private markFailed: (error: unknown) => void;
+
+  constructor(private readonly vectorStore: SqliteVectorStore) {
+    this.ready = new Promise((resolve, reject) => {
+      this.markReady = resolve;
+      this.markFailed = reject;
+    });
+    // Callers observe failures through whenReady() and status()
+    this.ready.catch(() => undefined);
+  }
+
+  /**
+   * Starts loading the index, which may re-embed the whole corpus, so the
+   * server listens meanwhile. A failure is reported through `status()` rather
+   * than aborting startup, so the health endpoint can explain it.
+   */
+  onModuleInit() {
+    this.loading = this.load();
+  }
+
+  async onModuleDestroy() {
+    await this.loading;
+    this.vectorStore.close();
+  }
+
+  private async load() {
+    try {
+      this.vectorStore.open();
+      const reembedded = await this.vectorStore.reembedStale();
+      if (reembedded) {
+        this.logger.log(
+          `Re-embedded ${reembedded} chunks for the configured embeddings model`,
+        );
       }
-    >
-  >[];
-  private toolNode: ToolNode<typeof this.GraphState.State>;
-
-  private static urls = [
-    'https://lilianweng.github.io/posts/2023-06-23-agent/',
-    'https://lilianweng.github.io/posts/2023-03-15-prompt-engineering/',
-    'https://lilianweng.github.io/posts/2023-10-25-adv-attack-llm/',
-  ];
-
-  constructor() {
-    this.initialize();
+
+      const documents = this.vectorStore.listDocuments();
+      this.state = {
+        state: 'ready',
+        lastIngestAt:
+          documents
+            .map(({ ingestedAt }) => ingestedAt)
+            .sort()
+            .at(-1) ?? null,
+      };
+      this.logger.log(
+        `Loaded ${documents.length} documents (${this.vectorStore.chunkCount} chunks) from the index`,
+      );
+      this.markReady();
+    } catch (error) {
+      this.state = {
+        state: 'failed',
+        lastIngestAt: null,
+        error: error instanceof Error ? error.message : String(error),
+      };
+      this.logger.error('Failed to load the RAG index', error);
+      this.markFailed(error);
+    }
   }
 
-  private async initialize() {
-    const docs = await this.getDocs();
-    this.docsList = docs.flat();
+  status(): RagIndexStatus {
+    const ready = this.state.state === 'ready';
 
-    this.textSplitter = new RecursiveCharacterTextSplitter({
-      chunkSize: 500,
-      chunkOverlap: 50,
-    });
-    this.docSplits = await this.textSplitter.splitDocuments(this.docsList);
+    return {
+      ...this.state,
+      documents: ready ? this.vectorStore.listDocuments().length : 0,
+      chunks: ready ? this.vectorStore.chunkCount : 0,
+    };
+  }
+
+  /**
+   * Waits for the index to load.
+   *
+   * @throws ServiceUnavailableException if loading failed
+   */
+  async whenReady() {
+    try {
+      await this.ready;
+    } catch {
+      throw new ServiceUnavailableException(
+        `The RAG index is unavailable: ${this.state.error}`,
+      );
+    }
+  }
 
-    // Add to vectorDB
-    this.vectorStore = await MemoryVectorStore.fromDocuments(
-      this.docSplits,
-      new OpenAIEmbeddings(),
+  /**
+   * Node that runs the retrieval tool calls of the last AI message.
+   */
+  async getToolNode(options?: RetrievalOptionsDto) {
+    return new ToolNode<typeof this.GraphState.State>(
+      await this.getTools(options),
     );
+  }
 
-    this.retriever = this.vectorStore.asRetriever();
+  /**
+   * Tools the agent can call to search the corpus, using hybrid search with
+   * the given options. Results are numbered passages with their citations as
+   * the tool message artifact.
+   */
+  async getTools(options?: RetrievalOptionsDto) {
+    await this.whenReady();
 
-    const tool = createRetrieverTool(this.retriever, {
-      name: 'retrieve_blog_posts',
-      description:
-        'Search and return information about Lilian Weng blog posts on LLM agents, prompt engineering, and adversarial attacks on LLMs.',
+    const retriever = new HybridRetriever({
+      store: this.vectorStore,
+      ...RetrievalOptionsSchema.parse(options ?? {}),
     });
 
-    this.tools = [tool];
-    this.toolNode = new ToolNode<typeof this.GraphState.State>(this.tools);
+    return [
+      createCitingRetrieverTool(retriever, {
+        name: 'retrieve_documents',
+        description:
+          'Search and return passages from the internal documents indexed for this assistant. Matches both exact terms (error codes, product names) and related wording.',
+      }),
+    ];
+  }
+
+  async listDocuments() {
+    await this.whenReady();
+    return this.vectorStore.listDocuments();
   }
 
-  private async getDocs() {
-    return await Promise.all(
-      Retriever.urls.map((url) => new CheerioWebBaseLoader(url).load()),
+  /**
+   * Indexes the chunks of `document`, replacing any earlier version with the
+   * same id. Only chunks whose content is not indexed yet are embedded, and
+   * the previous chunks are kept if embedding fails.
+   */
+  async upsertDocument(
+    document: Omit<RagDocument, 'embeddedChunks'>,
+    chunks: Document[],
+  ) {
+    await this.whenReady();
+
+    const { embedded, removed } = await this.vectorStore.upsertDocumentChunks(
+      document.id,
+      chunks,
+    );
+    const indexed: RagDocument = { ...document, embeddedChunks: embedded };
+    this.vectorStore.saveDocument(indexed);
+    this.state.lastIngestAt = indexed.ingestedAt;
+
+    this.logger.log(
+      `Indexed ${document.source} as ${document.id} (${chunks.length} chunks, ${embedded} embedded, ${removed} removed)`,
     );
+    return indexed;
+  }
+
+  /**
+   * Drops a document and its chunks. Returns `false` if it was not indexed.
+   */
+  async removeDocument(id: string) {
+    await this.whenReady();
+    return this.vectorStore.deleteDocument(id);
   }
 }
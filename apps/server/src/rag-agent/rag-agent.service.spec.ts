@@ -0,0 +1,173 @@
+import { Test } from '@nestjs/testing';
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { z } from 'zod';
+import { tool } from '@langchain/core/tools';
+import { ToolNode } from '@langchain/langgraph/prebuilt';
+import { RagCitation } from '@repo/api';
+import { MAX_REWRITES, RagAgentService } from './rag-agent.service';
+import { Retriever } from './rag-agent.retriever';
+import { LlmProviderService } from '../llm-provider/llm-provider.service';
+import { RunHistoryService } from '../run-history/run-history.service';
+import {
+  FakeChatModel,
+  FakeChatModelInput,
+} from '../llm-provider/fake/fake-chat-model';
+
+describe('RagAgentService', () => {
+  let service: RagAgentService;
+  let runHistory: RunHistoryService;
+  let llm: FakeChatModel;
+  let queries: string[];
+
+  const script = (responses: FakeChatModelInput['responses']) => {
+    llm = new FakeChatModel({ responses });
+  };
+
+  const retrieve = { toolCalls: [{ name: 'retrieve', args: { query: 'q' } }] };
+
+  const citation: RagCitation = {
+    id: 1,
+    documentId: 'doc-1',
+    source: 'https://example.com/agents',
+    title: 'Agents',
+    url: 'https://example.com/agents',
+    start: 0,
+    end: 36,
+  };
+
+  beforeEach(async () => {
+    llm = new FakeChatModel();
+    queries = [];
+
+    const retrieveTool = tool(
+      async ({ query }) => {
+        queries.push(query);
+        return ['Agents plan, remember and use tools.', [citation]];
+      },
+      {
+        name: 'retrieve',
+        description: 'Search the corpus',
+        schema: z.object({ query: z.string() }),
+        responseFormat: 'content_and_artifact',
+      },
+    );
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        RagAgentService,
+        { provide: LlmProviderService, useValue: { chatModel: () => llm } },
+        {
+          provide: RunHistoryService,
+          useFactory: () => new RunHistoryService(':memory:').open(),
+        },
+        {
+          provide: Retriever,
+          // the graph builds its tools once, through the tool node
+          useValue: {
+            getToolNode: async () => new ToolNode([retrieveTool]),
+          },
+        },
+      ],
+    }).compile();
+
+    service = moduleRef.get(RagAgentService);
+    runHistory = moduleRef.get(RunHistoryService);
+  });
+
+  it('answers directly when the agent does not retrieve', async () => {
+    script(['Hello! Ask me about agents.']);
+
+    const { answer } = await service.ask({ question: 'Hi' });
+
+    expect(answer).toBe('Hello! Ask me about agents.');
+    expect(queries).toEqual([]);
+    expect(runHistory.list({ limit: 10 })).toEqual([
+      expect.objectContaining({ graph: 'rag-agent', status: 'succeeded' }),
+    ]);
+  });
+
+  it('generates from relevant documents', async () => {
+    script([
+      retrieve,
+      { json: { binaryScore: 'yes' } },
+      'Agents plan and use tools.',
+    ]);
+
+    const { answer } = await service.ask({ question: 'What do agents do?' });
+
+    expect(answer).toBe('Agents plan and use tools.');
+    expect(llm.calls[2]?.[1]?.content).toContain(
+      'Context:\nAgents plan, remember and use tools.',
+    );
+  });
+
+  it('returns the sources cited by the answer', async () => {
+    script([
+      retrieve,
+      { json: { binaryScore: 'yes' } },
+      'Agents use tools [1], unlike chatbots [7].',
+    ]);
+
+    const { answer, citations } = await service.ask({ question: 'Tools?' });
+
+    expect(answer).toBe('Agents use tools [1], unlike chatbots [7].');
+    expect(citations).toEqual([citation]);
+  });
+
+  it('rewrites the question when the documents are irrelevant', async () => {
+    script([
+      retrieve,
+      { json: { binaryScore: 'no' } },
+      'What are the components of an LLM agent?',
+      retrieve,
+      { json: { binaryScore: 'yes' } },
+      'Planning, memory and tools.',
+    ]);
+
+    const steps = [];
+    for await (const step of await service.stream({ question: 'agents?' })) {
+      steps.push(Object.keys(step)[0]);
+    }
+
+    expect(steps).toEqual([
+      'agent',
+      'retrieve',
+      'gradeDocuments',
+      'rewrite',
+      'agent',
+      'retrieve',
+      'gradeDocuments',
+      'generate',
+    ]);
+    expect(llm.calls[3]?.at(-1)?.content).toBe(
+      'What are the components of an LLM agent?',
+    );
+  });
+
+  it(`answers anyway after ${MAX_REWRITES} rewrites`, async () => {
+    const irrelevantRound = [retrieve, { json: { binaryScore: 'no' } }];
+    script([
+      ...irrelevantRound,
+      'rewritten once',
+      ...irrelevantRound,
+      'rewritten twice',
+      ...irrelevantRound,
+      'I do not know.',
+    ]);
+
+    const { answer } = await service.ask({ question: 'agents?' });
+
+    expect(answer).toBe('I do not know.');
+    expect(queries).toHaveLength(MAX_REWRITES + 1);
+    // Later rounds refine and grade against the latest rewrite
+    expect(llm.calls[4]?.at(-1)?.content).toContain(
+      'User question: rewritten once',
+    );
+    expect(llm.calls[5]?.at(-1)?.content).toContain(
+      'did not find relevant documents:\nrewritten once',
+    );
+    expect(llm.calls[7]?.at(-1)?.content).toContain(
+      'User question: rewritten twice',
+    );
+  });
+});
@@ -1,6 +1,243 @@
 import { Injectable } from '@nestjs/common';
+import { z } from 'zod';
+import {
+  AskRagAgentDto,
+  RagAnswer,
+  RagCitation,
+  RetrievalOptionsDto,
+} from '@repo/api';
+import {
+  Annotation,
+  END,
+  MessagesAnnotation,
+  START,
+  StateGraph,
+} from '@langchain/langgraph';
+import { toolsCondition } from '@langchain/langgraph/prebuilt';
+import {
+  HumanMessage,
+  SystemMessage,
+  isToolMessage,
+} from '@langchain/core/messages';
+import { LlmProviderService } from '../llm-provider/llm-provider.service';
+import { Retriever } from './rag-agent.retriever';
+import { streamGraphEvents } from '../common/graph-stream';
+import { RunHistoryService } from '../run-history/run-history.service';
+import { messageText } from '../common/message-text';
 
+/** How often a question may be rephrased before answering with what we have. */
+export const MAX_REWRITES = 2;
+
+const RagState = Annotation.Root({
+  ...MessagesAnnotation.spec,
+  question: Annotation<string>,
+  /** The question as last rephrased for retrieval, initially `question`. */
+  query: Annotation<string>,
+  relevant: Annotation<boolean>,
+  /** Passages cited by the generated answer. */
+  citations: Annotation<RagCitation[]>,
+  rewrites: Annotation<number>({
+    reducer: (_, b) => b,
+    default: () => 0,
+  }),
+});
+
+type RagStateType = typeof RagState.State;
+
+/**
+ * What a node of the graph returns. Every node here reports new messages as
+ * a list of message instances, so updates are typed after the state itself.
+ */
+export type RagStateUpdate = Partial<RagStateType>;
+
+/** Marker ids such as 1 and 3 in "... [1][3]", in order of first use. */
+const citedIds = (answer: string) => [
+  ...new Set([...answer.matchAll(/\[(\d+)\]/g)].map(([, id]) => Number(id))),
+];
+
+const gradeSchema = z.object({
+  binaryScore: z
+    .enum(['yes', 'no'])
+    .describe("'yes' if the documents are relevant to the question"),
+});
 
 @Injectable()
 export class RagAgentService {
+  constructor(
+    private readonly llmProvider: LlmProviderService,
+    private readonly retriever: Retriever,
+    private readonly runHistory: RunHistoryService,
+  ) {}
+
+  /**
+   * Agentic RAG: the agent decides whether to search the corpus, retrieved
+   * documents are graded, irrelevant results trigger a query rewrite and
+   * relevant ones are used to write the answer.
+   */
+  async graph(model?: string, retrieval?: RetrievalOptionsDto) {
+    const llm = this.llmProvider.chatModel('rag', model, { temperature: 0 });
+    // The agent is offered the tools the retrieve step runs, so both share
+    // one retriever
+    const toolNode = await this.retriever.getToolNode(retrieval);
+
+    if (!llm.bindTools) {
+      throw new Error('The configured RAG chat model does not support tools');
+    }
+    const agentLlm = llm.bindTools(toolNode.tools);
+    const grader = llm.withStructuredOutput(gradeSchema, { name: 'grade' });
+
+    // Decide whether to retrieve or answer directly
+    const agent = async (state: RagStateType) => {
+      const response = await agentLlm.invoke([
+        new SystemMessage(
+          'You answer questions about the indexed corpus. Use the retrieval tool whenever the answer may depend on it.',
+        ),
+        ...state.messages,
+      ]);
+
+      return { messages: [response] };
+    };
+
+    // Check whether the retrieved documents can answer the question
+    const gradeDocuments = async (state: RagStateType) => {
+      const { binaryScore } = await grader.invoke([
+        new SystemMessage(
+          'You are a grader assessing the relevance of retrieved documents to a user question. If the documents contain keywords or semantic meaning related to the question, grade them as relevant.',
+        ),
+        new HumanMessage(
+          `Retrieved documents:\n\n${this.retrievedContext(state)}\n\nUser question: ${state.query}`,
+        ),
+      ]);
+
+      return { relevant: binaryScore === 'yes' };
+    };
+
+    const checkRelevance = (state: RagStateType) => {
+      if (state.relevant || state.rewrites >= MAX_REWRITES) {
+        return 'generate';
+      }
+      return 'rewrite';
+    };
+
+    // Rephrase the last query so the next search finds better documents
+    const rewrite = async (state: RagStateType) => {
+      const response = await llm.invoke([
+        new HumanMessage(
+          `Look at the input and try to reason about the underlying semantic intent / meaning.\n\nHere is the initial question:\n${state.question}\n\nSearching for this did not find relevant documents:\n${state.query}\n\nFormulate an improved question:`,
+        ),
+      ]);
+      const query = messageText(response);
+
+      return {
+        messages: [new HumanMessage(query)],
+        query,
+        rewrites: state.rewrites + 1,
+      };
+    };
+
+    // Answer the original question from the retrieved context
+    const generate = async (state: RagStateType) => {
+      const response = await llm.invoke([
+        new SystemMessage(
+          'You are an assistant for question-answering tasks. Use only the retrieved context to answer the question. The context is a list of numbered passages; cite the passages supporting each claim with their number in brackets, for example [1] or [1][3]. If the context does not contain the answer, say that you do not know. Keep the answer concise.',
+        ),
+        new HumanMessage(
+          `Question: ${state.question}\n\nContext:\n${this.retrievedContext(state)}`,
+        ),
+      ]);
+
+      const sources = this.retrievedSources(state);
+      const citations = citedIds(messageText(response))
+        .map((id) => sources.find((source) => source.id === id))
+        .filter(Boolean);
+
+      return { messages: [response], citations };
+    };
+
+    return new StateGraph(RagState)
+      .addNode('agent', agent)
+      .addNode('retrieve', toolNode)
+      .addNode('gradeDocuments', gradeDocuments)
+      .addNode('rewrite', rewrite)
+      .addNode('generate', generate)
+      .addEdge(START, 'agent')
+      .addConditionalEdges('agent', toolsCondition, {
+        tools: 'retrieve',
+        [END]: END,
+      })
+      .addEdge('retrieve', 'gradeDocuments')
+      .addConditionalEdges('gradeDocuments', checkRelevance, [
+        'generate',
+        'rewrite',
+      ])
+      .addEdge('rewrite', 'agent')
+      .addEdge('generate', END)
+      .compile();
+  }
+
+  async ask({
+    question,
+    model,
+    retrieval,
+  }: AskRagAgentDto): Promise<RagAnswer> {
+    const graph = await this.graph(model, retrieval);
+    const state = await graph.invoke(this.input(question), this.traced());
+
+    return {
+      answer: messageText(state.messages.at(-1)),
+      citations: state.citations ?? [],
+    };
+  }
+
+  /**
+   * Yields `{ [node]: update }` for every step, like `graph.stream()`.
+   */
+  async stream({
+    question,
+    model,
+    retrieval,
+  }: AskRagAgentDto): Promise<AsyncIterable<Record<string, RagStateUpdate>>> {
+    const graph = await this.graph(model, retrieval);
+
+    return graph.stream(this.input(question), {
+      ...this.traced(),
+      streamMode: 'updates',
+    });
+  }
+
+  /**
+   * Like `stream()`, as the generic events of `streamGraphEvents`.
+   */
+  async *streamEvents(
+    { question, model, retrieval }: AskRagAgentDto,
+    signal?: AbortSignal,
+  ) {
+    const graph = await this.graph(model, retrieval);
+
+    yield* streamGraphEvents(graph, this.input(question), this.traced(signal));
+  }
+
+  /** Records the run in the run history. */
+  private traced(signal?: AbortSignal) {
+    return { signal, callbacks: [this.runHistory.tracer('rag-agent', signal)] };
+  }
+
+  private input(question: string) {
+    return {
+      question,
+      query: question,
+      messages: [new HumanMessage(question)],
+    };
+  }
+
+  /** Documents returned by the most recent retrieval. */
+  private retrievedContext(state: RagStateType) {
+    return messageText(state.messages.filter(isToolMessage).at(-1));
+  }
+
+  /** Citations for the passages of the most recent retrieval. */
+  private retrievedSources(state: RagStateType): RagCitation[] {
+    const message = state.messages.filter(isToolMessage).at(-1);
+    return message?.artifact ?? [];
+  }
 }
@@ -0,0 +1,67 @@
+import { basename, extname } from 'path';
+import { load } from 'cheerio';
+import { PDFLoader } from '@langchain/community/document_loaders/fs/pdf';
+import { RagDocumentFormat } from '@repo/api';
+
+const FORMATS: Record<string, RagDocumentFormat> = {
+  '.md': 'markdown',
+  '.markdown': 'markdown',
+  '.txt': 'text',
+  '.html': 'html',
+  '.htm': 'html',
+  '.pdf': 'pdf',
+};
+
+export const SUPPORTED_EXTENSIONS = Object.keys(FORMATS);
+
+/** Format of a file from its name, or `undefined` if it cannot be ingested. */
+export const formatOf = (fileName: string): RagDocumentFormat | undefined =>
+  FORMATS[extname(fileName).toLowerCase()];
+
+export interface LoadedDocument {
+  title: string;
+  text: string;
+}
+
+/**
+ * Extracts the title and plain text of a file. Markdown is kept as-is so the
+ * splitter can break it along headings.
+ */
+export async function loadDocument(
+  content: Buffer,
+  source: string,
+  format: RagDocumentFormat,
+): Promise<LoadedDocument> {
+  const fallbackTitle = basename(source, extname(source));
+
+  switch (format) {
+    case 'markdown': {
+      const text = content.toString('utf8');
+      const heading = text.match(/^#\s+(.+)$/m)?.[1]?.trim();
+      return { title: heading || fallbackTitle, text };
+    }
+
+    case 'text':
+      return { title: fallbackTitle, text: content.toString('utf8') };
+
+    case 'html': {
+      const $ = load(content.toString('utf8'));
+      const title = $('title').first().text().trim();
+      $('script, style, noscript, template').remove();
+      const text = $('body')
+        .text()
+        .replace(/[ \t]+/g, ' ')
+        .replace(/\n\s*\n\s*/g, '\n\n')
+        .trim();
+      return { title: title || fallbackTitle, text };
+    }
+
+    case 'pdf': {
+      const [page] = await new PDFLoader(new Blob([content]), {
+        splitPages: false,
+      }).load();
+      const title = page?.metadata?.pdf?.info?.Title?.trim();
+      return { title: title || fallbackTitle, text: page?.pageContent ?? '' };
+    }
+  }
+}
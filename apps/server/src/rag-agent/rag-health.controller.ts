@@ -0,0 +1,20 @@
+import { Controller, Get, ServiceUnavailableException } from '@nestjs/common';
+import { Retriever } from './rag-agent.retriever';
+
+@Controller('rag')
+export class RagHealthController {
+  constructor(private readonly retriever: Retriever) {}
+
+  /**
+   * Index status; responds 503 until the index is ready so it can be used as
+   * a readiness probe.
+   */
+  @Get('health')
+  health() {
+    const status = this.retriever.status();
+    if (status.state !== 'ready') {
+      throw new ServiceUnavailableException(status);
+    }
+    return status;
+  }
+}
@@ -0,0 +1,63 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  Post,
+  UploadedFiles,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FilesInterceptor } from '@nestjs/platform-express';
+import {
+  IngestDirectoryDto,
+  IngestDirectorySchema,
+  IngestFilesDto,
+  IngestFilesSchema,
+} from '@repo/api';
+import { RagIngestionService } from './rag-ingestion.service';
+import { ZodValidationPipe } from '../common/pipes/zod-validation.pipe';
+
+const MAX_FILES = 20;
+const MAX_FILE_SIZE = 20 * 1024 * 1024;
+
+@Controller('rag/documents')
+export class RagIngestionController {
+  constructor(private readonly ragIngestionService: RagIngestionService) {}
+
+  @Get()
+  list() {
+    return this.ragIngestionService.list();
+  }
+
+  /**
+   * Multipart upload of Markdown, text, HTML or PDF files in `files`.
+   */
+  @Post()
+  @UseInterceptors(
+    FilesInterceptor('files', MAX_FILES, {
+      limits: { fileSize: MAX_FILE_SIZE },
+    }),
+  )
+  ingestFiles(
+    @UploadedFiles() files: Express.Multer.File[],
+    @Body(new ZodValidationPipe(IngestFilesSchema)) body: IngestFilesDto,
+  ) {
+    return this.ragIngestionService.ingestFiles(files, body);
+  }
+
+  @Post('directory')
+  ingestDirectory(
+    @Body(new ZodValidationPipe(IngestDirectorySchema))
+    body: IngestDirectoryDto,
+  ) {
+    return this.ragIngestionService.ingestDirectory(body);
+  }
+
+  @Delete(':id')
+  @HttpCode(204)
+  async remove(@Param('id') id: string) {
+    await this.ragIngestionService.remove(id);
+  }
+}
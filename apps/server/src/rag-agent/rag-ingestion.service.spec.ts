@@ -0,0 +1,260 @@
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Test } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  afterEach,
+  jest,
+} from '@jest/globals';
+import { SyntheticEmbeddings } from '@langchain/core/utils/testing';
+import { RagIngestionService } from './rag-ingestion.service';
+import { Retriever } from './rag-agent.retriever';
+import { SqliteVectorStore } from './sqlite-vector-store';
+import * as loader from './rag-document.loader';
+
+const upload = (originalname: string, content: string) =>
+  ({ originalname, buffer: Buffer.from(content) }) as Express.Multer.File;
+
+const splitter = { chunkSize: 100, chunkOverlap: 0 };
+
+describe('RagIngestionService', () => {
+  let service: RagIngestionService;
+  let retriever: Retriever;
+  let root: string;
+
+  const search = async (query: string) => {
+    const [tool] = await retriever.getTools();
+    return tool.invoke({ query });
+  };
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'rag-ingest-'));
+    retriever = new Retriever(
+      new SqliteVectorStore(new SyntheticEmbeddings({ vectorSize: 16 }), {
+        path: ':memory:',
+        embeddingsModel: 'synthetic:16',
+      }),
+    );
+    retriever.onModuleInit();
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        RagIngestionService,
+        { provide: Retriever, useValue: retriever },
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({ RAG_INGEST_ROOT: root }),
+        },
+      ],
+    }).compile();
+
+    service = moduleRef.get(RagIngestionService);
+  });
+
+  afterEach(async () => {
+    await retriever.onModuleDestroy();
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('splits uploads into chunks with the requested settings', async () => {
+    const paragraph = 'Error E1234 means the disk is full. '.repeat(10);
+
+    const { documents, skipped } = await service.ingestFiles(
+      [upload('runbook.md', `# Disk runbook\n\n${paragraph}`)],
+      splitter,
+    );
+
+    expect(skipped).toEqual([]);
+    expect(documents).toEqual([
+      expect.objectContaining({
+        source: 'runbook.md',
+        title: 'Disk runbook',
+        format: 'markdown',
+      }),
+    ]);
+    expect(documents[0]?.chunks).toBeGreaterThan(3);
+    expect(await search('E1234')).toContain('Error E1234');
+  });
+
+  it('extracts the text and title of HTML pages', async () => {
+    const { documents } = await service.ingestFiles(
+      [
+        upload(
+          'faq.html',
+          '<html><head><title>FAQ</title><style>p{}</style></head><body><p>Reset via settings.</p><script>track()</script></body></html>',
+        ),
+      ],
+      splitter,
+    );
+
+    expect(documents[0]).toMatchObject({ title: 'FAQ', format: 'html' });
+    expect(await search('reset')).toContain('Reset via settings.');
+  });
+
+  it('skips unsupported and empty files', async () => {
+    const { documents, skipped } = await service.ingestFiles(
+      [upload('image.png', 'png'), upload('empty.txt', '  ')],
+      splitter,
+    );
+
+    expect(documents).toEqual([]);
+    expect(skipped.map(({ source }) => source)).toEqual([
+      'image.png',
+      'empty.txt',
+    ]);
+  });
+
+  it('replaces a document uploaded again under the same id', async () => {
+    await service.ingestFiles([upload('a.txt', 'old text')], {
+      ...splitter,
+      documentId: 'doc-1',
+    });
+    await service.ingestFiles([upload('a.txt', 'new text')], {
+      ...splitter,
+      documentId: 'doc-1',
+    });
+
+    expect(await service.list()).toHaveLength(1);
+    expect(await search('text')).toBe(
+      '[1] a (a.txt, characters 0-8)\nnew text',
+    );
+  });
+
+  it('removes documents by id', async () => {
+    const { documents } = await service.ingestFiles(
+      [upload('a.txt', 'gone soon')],
+      splitter,
+    );
+
+    await service.remove(documents[0]!.id);
+
+    expect(await service.list()).toEqual([]);
+    expect(await search('gone')).toBe('');
+    await expect(service.remove(documents[0]!.id)).rejects.toBeInstanceOf(
+      NotFoundException,
+    );
+  });
+
+  it('ingests directories recursively with stable ids', async () => {
+    await mkdir(join(root, 'docs', 'nested'), { recursive: true });
+    await writeFile(join(root, 'docs', 'intro.md'), '# Intro\n\nHello');
+    await writeFile(join(root, 'docs', 'nested', 'notes.txt'), 'Notes');
+    await writeFile(join(root, 'docs', 'nested', 'data.bin'), 'binary');
+
+    const first = await service.ingestDirectory({
+      path: 'docs',
+      recursive: true,
+      ...splitter,
+    });
+    const second = await service.ingestDirectory({
+      path: 'docs',
+      recursive: true,
+      ...splitter,
+    });
+
+    expect(first.documents.map(({ title }) => title)).toEqual([
+      'Intro',
+      'notes',
+    ]);
+    expect(first.skipped).toHaveLength(1);
+    expect(second.documents.map(({ id }) => id)).toEqual(
+      first.documents.map(({ id }) => id),
+    );
+    expect(await service.list()).toHaveLength(2);
+  });
+
+  it('drops the documents of deleted and emptied files on a re-ingest', async () => {
+    await mkdir(join(root, 'docs', 'nested'), { recursive: true });
+    await writeFile(join(root, 'docs', 'kept.txt'), 'Kept');
+    await writeFile(join(root, 'docs', 'deleted.txt'), 'Deleted');
+    await writeFile(join(root, 'docs', 'emptied.txt'), 'Emptied');
+    await writeFile(join(root, 'docs', 'nested', 'notes.txt'), 'Notes');
+    await service.ingestFiles([upload('upload.txt', 'Uploaded')], splitter);
+    await service.ingestDirectory({
+      path: 'docs',
+      recursive: true,
+      ...splitter,
+    });
+
+    await rm(join(root, 'docs', 'deleted.txt'));
+    await writeFile(join(root, 'docs', 'emptied.txt'), ' ');
+    const { removed } = await service.ingestDirectory({
+      path: 'docs',
+      recursive: false,
+      ...splitter,
+    });
+
+    expect([...removed].sort()).toEqual([
+      join(root, 'docs', 'deleted.txt'),
+      join(root, 'docs', 'emptied.txt'),
+    ]);
+    expect((await service.list()).map(({ title }) => title).sort()).toEqual([
+      'kept',
+      'notes',
+      'upload',
+    ]);
+    expect(await search('deleted')).not.toContain('Deleted');
+  });
+
+  it('reports files that cannot be read and ingests the others', async () => {
+    await mkdir(join(root, 'docs'));
+    await writeFile(join(root, 'docs', 'broken.pdf'), 'not a pdf');
+    // the PDF parser logs its own error
+    const logged = jest
+      .spyOn(console, 'error')
+      .mockImplementation(() => undefined);
+    await writeFile(join(root, 'docs', 'notes.txt'), 'Notes');
+
+    const { documents, failed } = await service.ingestDirectory({
+      path: 'docs',
+      recursive: true,
+      ...splitter,
+    });
+
+    expect(documents.map(({ title }) => title)).toEqual(['notes']);
+    expect(failed).toEqual([
+      { source: join(root, 'docs', 'broken.pdf'), error: expect.any(String) },
+    ]);
+    logged.mockRestore();
+  });
+
+  it('keeps the indexed version of a file that fails to load', async () => {
+    await mkdir(join(root, 'docs'));
+    await writeFile(join(root, 'docs', 'notes.txt'), 'Notes');
+    await service.ingestDirectory({
+      path: 'docs',
+      recursive: true,
+      ...splitter,
+    });
+    jest
+      .spyOn(loader, 'loadDocument')
+      .mockRejectedValueOnce(new Error('EBUSY: resource busy or locked'));
+
+    const { failed, removed } = await service.ingestDirectory({
+      path: 'docs',
+      recursive: true,
+      ...splitter,
+    });
+
+    expect(failed).toEqual([
+      {
+        source: join(root, 'docs', 'notes.txt'),
+        error: 'EBUSY: resource busy or locked',
+      },
+    ]);
+    expect(removed).toEqual([]);
+    expect(await search('notes')).toContain('Notes');
+  });
+
+  it('refuses directories outside RAG_INGEST_ROOT', async () => {
+    await expect(
+      service.ingestDirectory({ path: '..', recursive: true, ...splitter }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+});
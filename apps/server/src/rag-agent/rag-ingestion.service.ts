@@ -0,0 +1,264 @@
+import { createHash, randomUUID } from 'crypto';
+import { readdir, readFile, stat } from 'fs/promises';
+import { dirname, isAbsolute, join, relative, resolve } from 'path';
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Document } from '@langchain/core/documents';
+import { RecursiveCharacterTextSplitter } from '@langchain/textsplitters';
+import {
+  IngestDirectoryDto,
+  IngestFilesDto,
+  IngestResult,
+  RagDocumentFormat,
+  SplitterOptionsDto,
+} from '@repo/api';
+import { Retriever } from './rag-agent.retriever';
+import {
+  SUPPORTED_EXTENSIONS,
+  formatOf,
+  LoadedDocument,
+  loadDocument,
+} from './rag-document.loader';
+
+/** Directory files are identified by their path. */
+const pathId = (path: string) =>
+  createHash('sha256').update(path).digest('hex').slice(0, 16);
+
+interface SourceFile {
+  id: string;
+  source: string;
+  read: () => Promise<Buffer>;
+}
+
+/**
+ * Records where each chunk starts and ends in `text`. Consecutive chunks may
+ * overlap, so each search starts just after the previous chunk's start.
+ */
+const addOffsets = (text: string, chunks: Document[]) => {
+  let from = 0;
+  for (const chunk of chunks) {
+    const start = text.indexOf(chunk.pageContent, from);
+    if (start === -1) {
+      continue;
+    }
+    chunk.metadata.start = start;
+    chunk.metadata.end = start + chunk.pageContent.length;
+    from = start + 1;
+  }
+  return chunks;
+};
+
+interface IngestOptions extends SplitterOptionsDto {
+  tags?: string[];
+}
+
+/**
+ * Turns uploaded files and server-side directories into indexed documents.
+ */
+@Injectable()
+export class RagIngestionService {
+  constructor(
+    private readonly retriever: Retriever,
+    private readonly configService: ConfigService,
+  ) {}
+
+  list() {
+    return this.retriever.listDocuments();
+  }
+
+  async remove(id: string) {
+    if (!(await this.retriever.removeDocument(id))) {
+      throw new NotFoundException(`No document with id ${id}`);
+    }
+  }
+
+  /**
+   * Uploaded files get a random id unless `documentId` names the (single)
+   * document they replace.
+   */
+  ingestFiles(
+    files: Express.Multer.File[],
+    { documentId, ...options }: IngestFilesDto,
+  ) {
+    if (!files?.length) {
+      throw new BadRequestException('No files uploaded');
+    }
+    if (documentId && files.length > 1) {
+      throw new BadRequestException(
+        'documentId can only be used when uploading a single file',
+      );
+    }
+
+    return this.ingest(
+      files.map((file) => ({
+        id: documentId ?? randomUUID(),
+        source: file.originalname,
+        read: async () => file.buffer,
+      })),
+      options,
+    );
+  }
+
+  /**
+   * Files are identified by their path, so ingesting a directory again
+   * replaces the documents from the previous run and drops those of files
+   * that were deleted or no longer yield a document. Files that fail to
+   * load keep their previous version.
+   */
+  async ingestDirectory({ path, recursive, ...options }: IngestDirectoryDto) {
+    const directory = this.resolveDirectory(path);
+
+    const stats = await stat(directory).catch(() => undefined);
+    if (!stats?.isDirectory()) {
+      throw new BadRequestException(`${path} is not a directory`);
+    }
+
+    const entries = await readdir(directory, {
+      recursive,
+      withFileTypes: true,
+    });
+    const files = entries
+      .filter((entry) => entry.isFile())
+      .map((entry) => join(entry.parentPath ?? entry.path, entry.name))
+      .sort();
+
+    const result = await this.ingest(
+      files.map((file) => ({
+        id: pathId(file),
+        source: file,
+        read: () => readFile(file),
+      })),
+      options,
+    );
+
+    // A file that failed to load may only be unreadable for now
+    const kept = new Set([
+      ...result.documents.map(({ source }) => source),
+      ...result.failed.map(({ source }) => source),
+    ]);
+    const dropped = (await this.retriever.listDocuments()).filter(
+      ({ id, source }) =>
+        id === pathId(source) &&
+        !kept.has(source) &&
+        this.isWithin(directory, source, recursive),
+    );
+    for (const { id, source } of dropped) {
+      await this.retriever.removeDocument(id);
+      result.removed.push(source);
+    }
+
+    return result;
+  }
+
+  private async ingest(files: SourceFile[], options: IngestOptions) {
+    const result: IngestResult = {
+      documents: [],
+      skipped: [],
+      failed: [],
+      removed: [],
+    };
+
+    for (const file of files) {
+      const format = formatOf(file.source);
+      if (!format) {
+        result.skipped.push({
+          source: file.source,
+          reason: `Unsupported file type; expected one of ${SUPPORTED_EXTENSIONS.join(', ')}`,
+        });
+        continue;
+      }
+
+      let loaded: LoadedDocument;
+      try {
+        loaded = await loadDocument(await file.read(), file.source, format);
+      } catch (error) {
+        result.failed.push({
+          source: file.source,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        continue;
+      }
+
+      const document = await this.ingestFile(file, format, loaded, options);
+      if (document) {
+        result.documents.push(document);
+      } else {
+        result.skipped.push({ source: file.source, reason: 'No text content' });
+      }
+    }
+
+    return result;
+  }
+
+  private async ingestFile(
+    { id, source }: SourceFile,
+    format: RagDocumentFormat,
+    { title, text }: LoadedDocument,
+    { chunkSize, chunkOverlap, tags = [] }: IngestOptions,
+  ) {
+    if (!text.trim()) {
+      return undefined;
+    }
+
+    const splitter =
+      format === 'markdown'
+        ? RecursiveCharacterTextSplitter.fromLanguage('markdown', {
+            chunkSize,
+            chunkOverlap,
+          })
+        : new RecursiveCharacterTextSplitter({ chunkSize, chunkOverlap });
+    // Chunks carry what retrieval filters on
+    const ingestedAt = new Date().toISOString();
+    const chunks = addOffsets(
+      text,
+      await splitter.createDocuments(
+        [text],
+        [{ documentId: id, source, title, tags, ingestedAt }],
+      ),
+    );
+
+    return this.retriever.upsertDocument(
+      {
+        id,
+        source,
+        title,
+        format,
+        tags,
+        chunks: chunks.length,
+        ingestedAt,
+      },
+      chunks,
+    );
+  }
+
+  /** Whether `source` is a file an ingest of `directory` would read. */
+  private isWithin(directory: string, source: string, recursive: boolean) {
+    if (!recursive) {
+      return dirname(source) === directory;
+    }
+    const fromDirectory = relative(directory, source);
+    return !fromDirectory.startsWith('..') && !isAbsolute(fromDirectory);
+  }
+
+  /**
+   * Directory ingests are confined to `RAG_INGEST_ROOT` (the working
+   * directory by default); relative paths are resolved against it.
+   */
+  private resolveDirectory(path: string) {
+    const root = resolve(
+      this.configService.get<string>('RAG_INGEST_ROOT', process.cwd()),
+    );
+    const directory = resolve(root, path);
+    const fromRoot = relative(root, directory);
+
+    if (fromRoot.startsWith('..') || isAbsolute(fromRoot)) {
+      throw new BadRequestException(`${path} is outside RAG_INGEST_ROOT`);
+    }
+
+    return directory;
+  }
+}
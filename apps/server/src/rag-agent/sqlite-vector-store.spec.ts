@@ -0,0 +1,148 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  afterEach,
+  jest,
+} from '@jest/globals';
+import { Document } from '@langchain/core/documents';
+import { SyntheticEmbeddings } from '@langchain/core/utils/testing';
+import { SqliteVectorStore } from './sqlite-vector-store';
+
+const chunks = (...contents: string[]) =>
+  contents.map((pageContent) => new Document({ pageContent }));
+
+const document = {
+  id: 'doc-1',
+  source: 'a.txt',
+  title: 'a',
+  format: 'text' as const,
+  tags: [],
+  chunks: 2,
+  embeddedChunks: 2,
+  ingestedAt: '2025-01-01T00:00:00.000Z',
+};
+
+describe('SqliteVectorStore', () => {
+  let directory: string;
+  let embeddings: SyntheticEmbeddings;
+  let embedDocuments: jest.SpiedFunction<SyntheticEmbeddings['embedDocuments']>;
+
+  const open = (embeddingsModel = 'synthetic:16') =>
+    new SqliteVectorStore(embeddings, {
+      path: join(directory, 'index.sqlite'),
+      embeddingsModel,
+    }).open();
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'rag-index-'));
+    embeddings = new SyntheticEmbeddings({ vectorSize: 16 });
+    embedDocuments = jest.spyOn(embeddings, 'embedDocuments');
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('only embeds chunks whose content changed', async () => {
+    const store = open();
+
+    expect(
+      await store.upsertDocumentChunks('doc-1', chunks('alpha', 'beta')),
+    ).toEqual({ embedded: 2, reused: 0, removed: 0 });
+    expect(
+      await store.upsertDocumentChunks('doc-1', chunks('alpha', 'gamma')),
+    ).toEqual({ embedded: 1, reused: 1, removed: 1 });
+    expect(embedDocuments).toHaveBeenLastCalledWith(['gamma']);
+
+    const results = await store.similaritySearch('gamma', 10);
+    expect(results.map(({ pageContent }) => pageContent).sort()).toEqual([
+      'alpha',
+      'gamma',
+    ]);
+    store.close();
+  });
+
+  it('reuses embeddings of identical chunks from other documents', async () => {
+    const store = open();
+
+    await store.upsertDocumentChunks('doc-1', chunks('shared'));
+    const stats = await store.upsertDocumentChunks('doc-2', chunks('shared'));
+
+    expect(stats).toEqual({ embedded: 0, reused: 1, removed: 0 });
+    expect(store.chunkCount).toBe(2);
+    store.close();
+  });
+
+  it('keeps repeated chunks of a document, embedding them once', async () => {
+    const store = open();
+
+    expect(
+      await store.upsertDocumentChunks(
+        'doc-1',
+        chunks('| total |', 'alpha', '| total |'),
+      ),
+    ).toEqual({ embedded: 2, reused: 1, removed: 0 });
+    expect(store.chunkCount).toBe(3);
+    expect(embedDocuments).toHaveBeenLastCalledWith(['| total |', 'alpha']);
+
+    expect(
+      await store.upsertDocumentChunks('doc-1', chunks('| total |', 'alpha')),
+    ).toEqual({ embedded: 0, reused: 2, removed: 1 });
+    expect(store.chunkCount).toBe(2);
+    store.close();
+  });
+
+  it('keeps documents and vectors across reopening', async () => {
+    const first = open();
+    await first.upsertDocumentChunks('doc-1', chunks('alpha', 'beta'));
+    first.saveDocument(document);
+    first.close();
+    embedDocuments.mockClear();
+
+    const second = open();
+
+    expect(second.listDocuments()).toEqual([document]);
+    expect(second.chunkCount).toBe(2);
+    expect(
+      await second.upsertDocumentChunks('doc-1', chunks('alpha', 'beta')),
+    ).toEqual({ embedded: 0, reused: 2, removed: 0 });
+    expect(embedDocuments).not.toHaveBeenCalled();
+
+    expect(second.deleteDocument('doc-1')).toBe(true);
+    expect(second.chunkCount).toBe(0);
+    expect(second.deleteDocument('doc-1')).toBe(false);
+    second.close();
+  });
+
+  it('re-embeds the index when the embeddings model changes', async () => {
+    const first = open();
+    await first.upsertDocumentChunks('doc-1', chunks('alpha', 'beta'));
+    first.close();
+
+    embeddings = new SyntheticEmbeddings({ vectorSize: 8 });
+    embedDocuments = jest.spyOn(embeddings, 'embedDocuments');
+    const second = open('synthetic:8');
+
+    await expect(
+      second.upsertDocumentChunks('doc-1', chunks('alpha')),
+    ).rejects.toThrow('The index holds vectors of synthetic:16');
+    expect(await second.reembedStale()).toBe(2);
+    expect(embedDocuments).toHaveBeenCalledWith(['alpha', 'beta']);
+    expect(second.entries().map(({ embedding }) => embedding.length)).toEqual([
+      8, 8,
+    ]);
+    expect(
+      await second.upsertDocumentChunks('doc-1', chunks('alpha', 'beta')),
+    ).toEqual({ embedded: 0, reused: 2, removed: 0 });
+    second.close();
+
+    const third = open('synthetic:8');
+    expect(await third.reembedStale()).toBe(0);
+    third.close();
+  });
+});
@@ -0,0 +1,375 @@
+import { createHash } from 'crypto';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import Database from 'better-sqlite3';
+import { Document } from '@langchain/core/documents';
+import { EmbeddingsInterface } from '@langchain/core/embeddings';
+import { VectorStore } from '@langchain/core/vectorstores';
+import { RagDocument } from '@repo/api';
+
+interface ChunkRow {
+  id: string;
+  document_id: string | null;
+  content_hash: string;
+  content: string;
+  metadata: string;
+  embedding: Buffer;
+}
+
+interface IndexedChunk {
+  id: string;
+  documentId: string | null;
+  contentHash: string;
+  document: Document;
+  embedding: Float32Array;
+}
+
+export interface SqliteVectorStoreArgs {
+  /** SQLite file, or `:memory:`. */
+  path: string;
+  /**
+   * The embeddings model, e.g. `openai:text-embedding-ada-002`. Vectors are
+   * only reused under the model that produced them.
+   */
+  embeddingsModel: string;
+}
+
+/** What an incremental upsert had to do. */
+export interface UpsertStats {
+  embedded: number;
+  reused: number;
+  removed: number;
+}
+
+const hashContent = (content: string) =>
+  createHash('sha256').update(content).digest('hex');
+
+const toBlob = (vector: ArrayLike<number>) =>
+  Buffer.from(Float32Array.from(vector).buffer);
+
+const fromBlob = (blob: Buffer) =>
+  new Float32Array(blob.buffer, blob.byteOffset, blob.byteLength / 4);
+
+export const cosine = (a: ArrayLike<number>, b: ArrayLike<number>) => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+/**
+ * Vector store persisted in a single SQLite file, alongside the registry of
+ * ingested documents. Chunks are keyed by the hash of their content, so
+ * re-ingesting a document only embeds the chunks that changed. The index
+ * remembers the embeddings model its vectors came from; after a switch to
+ * another model `reembedStale()` replaces them all. Search is an exact
+ * cosine scan over an in-memory copy of the vectors.
+ */
+export class SqliteVectorStore extends VectorStore {
+  declare FilterType: (doc: Document) => boolean;
+
+  private readonly path: string;
+  private readonly embeddingsModel: string;
+  private db: Database.Database;
+  private chunks: IndexedChunk[] = [];
+  /** Model of the stored vectors, when it is not `embeddingsModel`. */
+  private staleModel?: string;
+
+  _vectorstoreType() {
+    return 'sqlite';
+  }
+
+  constructor(
+    embeddings: EmbeddingsInterface,
+    { path, embeddingsModel }: SqliteVectorStoreArgs,
+  ) {
+    super(embeddings, {});
+    this.path = path;
+    this.embeddingsModel = embeddingsModel;
+  }
+
+  /**
+   * Opens (or creates) the index file and loads the stored vectors.
+   */
+  open() {
+    if (this.path !== ':memory:') {
+      mkdirSync(dirname(this.path), { recursive: true });
+    }
+
+    this.db = new Database(this.path);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS chunks (
+        id TEXT PRIMARY KEY,
+        document_id TEXT,
+        content_hash TEXT NOT NULL,
+        content TEXT NOT NULL,
+        metadata TEXT NOT NULL,
+        embedding BLOB NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS chunks_document_id ON chunks (document_id);
+      CREATE INDEX IF NOT EXISTS chunks_content_hash ON chunks (content_hash);
+      CREATE TABLE IF NOT EXISTS documents (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS settings (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+    `);
+
+    this.chunks = this.db
+      .prepare<[], ChunkRow>('SELECT * FROM chunks')
+      .all()
+      .map((row) => this.toIndexedChunk(row));
+
+    // Indexes written before the model was recorded count as stale
+    const storedModel = this.db
+      .prepare<
+        [],
+        { value: string }
+      >("SELECT value FROM settings WHERE key = 'embeddings_model'")
+      .get()?.value;
+    if (this.chunks.length && storedModel !== this.embeddingsModel) {
+      this.staleModel = storedModel ?? 'unknown';
+    } else {
+      this.saveEmbeddingsModel();
+    }
+
+    return this;
+  }
+
+  /**
+   * Re-embeds every stored chunk when the index was built with another
+   * embeddings model, so vectors of different models (and dimensions) are
+   * never compared. Returns how many chunks were re-embedded.
+   */
+  async reembedStale() {
+    if (!this.staleModel) {
+      return 0;
+    }
+
+    const vectors = await this.embeddings.embedDocuments(
+      this.chunks.map(({ document }) => document.pageContent),
+    );
+    const rows = this.chunks.map(
+      ({ id, documentId, contentHash, document }, i): ChunkRow => ({
+        id,
+        document_id: documentId,
+        content_hash: contentHash,
+        content: document.pageContent,
+        metadata: JSON.stringify(document.metadata),
+        embedding: toBlob(vectors[i]),
+      }),
+    );
+    this.writeRows(rows, []);
+    this.saveEmbeddingsModel();
+    this.staleModel = undefined;
+
+    return rows.length;
+  }
+
+  close() {
+    this.db?.close();
+  }
+
+  get chunkCount() {
+    return this.chunks.length;
+  }
+
+  /** Indexed chunks with their vectors, for custom ranking. */
+  entries(filter?: this['FilterType']) {
+    return this.chunks
+      .filter(({ document }) => !filter || filter(document))
+      .map(({ document, embedding }) => ({ document, embedding }));
+  }
+
+  async addDocuments(documents: Document[], options?: { ids?: string[] }) {
+    const vectors = await this.embeddings.embedDocuments(
+      documents.map(({ pageContent }) => pageContent),
+    );
+    return this.addVectors(vectors, documents, options);
+  }
+
+  async addVectors(
+    vectors: number[][],
+    documents: Document[],
+    options?: { ids?: string[] },
+  ) {
+    const rows = documents.map((document, i) =>
+      this.toRow(document, vectors[i], options?.ids?.[i]),
+    );
+    this.writeRows(rows, []);
+
+    return rows.map(({ id }) => id);
+  }
+
+  async similaritySearchVectorWithScore(
+    query: number[],
+    k: number,
+    filter?: this['FilterType'],
+  ): Promise<[Document, number][]> {
+    return this.entries(filter)
+      .map(({ document, embedding }): [Document, number] => [
+        document,
+        cosine(query, embedding),
+      ])
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, k);
+  }
+
+  async delete({ ids }: { ids: string[] }) {
+    this.writeRows([], ids);
+  }
+
+  /**
+   * Makes `chunks` the chunks of `documentId`. Chunks whose content is
+   * already indexed (for this or any other document), or repeated within
+   * `chunks`, reuse that embedding. Chunk ids include their position, so
+   * repeated chunks are all kept.
+   */
+  async upsertDocumentChunks(
+    documentId: string,
+    chunks: Document[],
+  ): Promise<UpsertStats> {
+    if (this.staleModel) {
+      throw new Error(
+        `The index holds vectors of ${this.staleModel}, not ${this.embeddingsModel}; re-embed it first`,
+      );
+    }
+
+    const known = new Map(
+      this.chunks.map(({ contentHash, embedding }) => [contentHash, embedding]),
+    );
+    const hashes = chunks.map(({ pageContent }) => hashContent(pageContent));
+
+    // Content that is new to the index, each embedded once
+    const missing = new Map(
+      chunks
+        .map(({ pageContent }, i) => [hashes[i], pageContent] as const)
+        .filter(([hash]) => !known.has(hash)),
+    );
+    const vectors = missing.size
+      ? await this.embeddings.embedDocuments([...missing.values()])
+      : [];
+    [...missing.keys()].forEach((hash, i) =>
+      known.set(hash, Float32Array.from(vectors[i])),
+    );
+
+    const rows = chunks.map((chunk, i) =>
+      this.toRow(
+        { ...chunk, metadata: { ...chunk.metadata, documentId } },
+        known.get(hashes[i]),
+        hashContent(`${documentId}\0${i}\0${hashes[i]}`).slice(0, 32),
+      ),
+    );
+    const kept = new Set(rows.map(({ id }) => id));
+    const stale = this.chunks
+      .filter((chunk) => chunk.documentId === documentId)
+      .filter(({ id }) => !kept.has(id))
+      .map(({ id }) => id);
+
+    this.writeRows(rows, stale);
+
+    return {
+      embedded: missing.size,
+      reused: chunks.length - missing.size,
+      removed: stale.length,
+    };
+  }
+
+  listDocuments(): RagDocument[] {
+    return this.db
+      .prepare<[], { data: string }>('SELECT data FROM documents ORDER BY id')
+      .all()
+      .map(({ data }) => JSON.parse(data));
+  }
+
+  saveDocument(document: RagDocument) {
+    this.db
+      .prepare('INSERT OR REPLACE INTO documents (id, data) VALUES (?, ?)')
+      .run(document.id, JSON.stringify(document));
+  }
+
+  /**
+   * Drops a document and its chunks. Returns `false` if it was not indexed.
+   */
+  deleteDocument(documentId: string) {
+    const { changes } = this.db
+      .prepare('DELETE FROM documents WHERE id = ?')
+      .run(documentId);
+
+    const ids = this.chunks
+      .filter((chunk) => chunk.documentId === documentId)
+      .map(({ id }) => id);
+    this.writeRows([], ids);
+
+    return changes > 0;
+  }
+
+  private saveEmbeddingsModel() {
+    this.db
+      .prepare(
+        "INSERT OR REPLACE INTO settings (key, value) VALUES ('embeddings_model', ?)",
+      )
+      .run(this.embeddingsModel);
+  }
+
+  private toRow(
+    document: Document,
+    vector: ArrayLike<number>,
+    id?: string,
+  ): ChunkRow {
+    const documentId = document.metadata?.documentId ?? null;
+    const contentHash = hashContent(document.pageContent);
+
+    return {
+      id: id ?? hashContent(`${documentId ?? ''}\0${contentHash}`).slice(0, 32),
+      document_id: documentId,
+      content_hash: contentHash,
+      content: document.pageContent,
+      metadata: JSON.stringify(document.metadata ?? {}),
+      embedding: toBlob(vector),
+    };
+  }
+
+  private toIndexedChunk(row: ChunkRow): IndexedChunk {
+    return {
+      id: row.id,
+      documentId: row.document_id,
+      contentHash: row.content_hash,
+      document: new Document({
+        id: row.id,
+        pageContent: row.content,
+        metadata: JSON.parse(row.metadata),
+      }),
+      embedding: fromBlob(row.embedding),
+    };
+  }
+
+  /** Applies inserts and deletes in one transaction, then mirrors them. */
+  private writeRows(rows: ChunkRow[], deletedIds: string[]) {
+    const upsert = this.db.prepare(
+      `INSERT OR REPLACE INTO chunks (id, document_id, content_hash, content, metadata, embedding)
+       VALUES (@id, @document_id, @content_hash, @content, @metadata, @embedding)`,
+    );
+    const remove = this.db.prepare('DELETE FROM chunks WHERE id = ?');
+
+    this.db.transaction(() => {
+      deletedIds.forEach((id) => remove.run(id));
+      rows.forEach((row) => upsert.run(row));
+    })();
+
+    const changed = new Set([...deletedIds, ...rows.map(({ id }) => id)]);
+    this.chunks = [
+      ...this.chunks.filter(({ id }) => !changed.has(id)),
+      ...rows.map((row) => this.toIndexedChunk(row)),
+    ];
+  }
+}
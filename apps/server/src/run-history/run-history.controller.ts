@@ -0,0 +1,25 @@
+import { Controller, Get, Param, Query } from '@nestjs/common';
+import { ListRunsDto, ListRunsSchema } from '@repo/api';
+import { RunHistoryService } from './run-history.service';
+import { ZodValidationPipe } from '../common/pipes/zod-validation.pipe';
+
+@Controller('runs')
+export class RunHistoryController {
+  constructor(private readonly runHistory: RunHistoryService) {}
+
+  /**
+   * Newest runs first, optionally filtered by `graph` and `status`.
+   */
+  @Get()
+  list(@Query(new ZodValidationPipe(ListRunsSchema)) query: ListRunsDto) {
+    return this.runHistory.list(query);
+  }
+
+  /**
+   * A run with its node executions and LLM calls, in the order they started.
+   */
+  @Get(':id')
+  get(@Param('id') id: string) {
+    return this.runHistory.get(id);
+  }
+}
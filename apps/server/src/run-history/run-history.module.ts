@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { RunHistoryService } from './run-history.service';
+import { RunHistoryController } from './run-history.controller';
+
+@Module({
+  imports: [ConfigModule],
+  controllers: [RunHistoryController],
+  providers: [
+    {
+      provide: RunHistoryService,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) =>
+        // `:memory:` keeps the history in process only
+        new RunHistoryService(
+          configService.get('RUN_HISTORY_PATH', 'data/runs.sqlite'),
+        ).open(),
+    },
+  ],
+  exports: [RunHistoryService],
+})
+export class RunHistoryModule {}
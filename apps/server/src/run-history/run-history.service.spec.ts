@@ -0,0 +1,216 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Test } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { RunHistoryService } from './run-history.service';
+import { WorkflowService } from '../workflow/workflow.service';
+import { LlmProviderService } from '../llm-provider/llm-provider.service';
+import { ToolCatalogModule } from '../tool-catalog/tool-catalog.module';
+import {
+  FakeChatModel,
+  FakeChatModelInput,
+} from '../llm-provider/fake/fake-chat-model';
+
+describe('RunHistoryService', () => {
+  let runHistory: RunHistoryService;
+  let workflowService: WorkflowService;
+  let llm: FakeChatModel;
+
+  const script = (responses: FakeChatModelInput['responses']) => {
+    llm = new FakeChatModel({ responses });
+  };
+
+  beforeEach(async () => {
+    llm = new FakeChatModel();
+
+    const moduleRef = await Test.createTestingModule({
+      imports: [ToolCatalogModule],
+      providers: [
+        WorkflowService,
+        {
+          provide: RunHistoryService,
+          useFactory: () => new RunHistoryService(':memory:').open(),
+        },
+        { provide: LlmProviderService, useValue: { chatModel: () => llm } },
+      ],
+    }).compile();
+    await moduleRef.init();
+
+    runHistory = moduleRef.get(RunHistoryService);
+    workflowService = moduleRef.get(WorkflowService);
+  });
+
+  it('records the nodes and LLM calls of a run', async () => {
+    script(['Why did the cat sit on the computer?', 'improved', 'polished']);
+
+    await workflowService.promptChain({ topic: 'cats' });
+
+    const [summary] = runHistory.list({ limit: 10 });
+    expect(summary).toMatchObject({
+      graph: 'prompt-chain',
+      status: 'succeeded',
+      tokenUsage: { promptTokens: 6 + 15 + 8, completionTokens: 8 + 1 + 1 },
+    });
+
+    const run = runHistory.get(summary.id);
+    expect(run.input).toEqual({ topic: 'cats' });
+    expect(run.output).toMatchObject({ finalJoke: 'polished' });
+    expect(run.nodes.map(({ node }) => node)).toEqual([
+      'generateJoke',
+      'improveJoke',
+      'polishJoke',
+    ]);
+    expect(run.nodes[1]).toMatchObject({
+      input: { topic: 'cats', joke: 'Why did the cat sit on the computer?' },
+      output: { improvedJoke: 'improved' },
+      endedAt: expect.any(String),
+    });
+    expect(run.llmCalls[0]).toMatchObject({
+      node: 'generateJoke',
+      model: 'FakeChatModel',
+      prompt: [{ role: 'human', content: 'Write a short joke about cats' }],
+      response: { role: 'ai', content: 'Why did the cat sit on the computer?' },
+      tokenUsage: { promptTokens: 6, completionTokens: 8, totalTokens: 14 },
+    });
+  });
+
+  it('records messages and tool calls in their plain form', async () => {
+    script([{ toolCalls: [{ name: 'add', args: { a: 1, b: 2 } }] }, '3']);
+
+    await workflowService.agent({
+      messages: [{ role: 'user', content: 'Add 1 and 2' }],
+      maxSteps: 10,
+      tools: ['add'],
+    });
+
+    const run = runHistory.get(runHistory.list({ limit: 1 })[0].id);
+    expect(run.nodes.map(({ node }) => node)).toEqual([
+      'llmCall',
+      'tools',
+      'llmCall',
+    ]);
+    expect(run.nodes[0].output).toEqual({
+      messages: [
+        {
+          role: 'ai',
+          content: '',
+          toolCalls: [{ id: 'call_1', name: 'add', args: { a: 1, b: 2 } }],
+        },
+      ],
+      steps: 1,
+    });
+    expect(run.nodes[1].output).toEqual({
+      messages: [{ role: 'tool', content: '3', toolCallId: 'call_1' }],
+    });
+  });
+
+  it('records the error of a failed node', async () => {
+    script([
+      () => {
+        throw new Error('provider unavailable');
+      },
+    ]);
+
+    await expect(
+      workflowService.promptChain({ topic: 'cats' }),
+    ).rejects.toThrow();
+
+    const run = runHistory.get(runHistory.list({ limit: 1 })[0].id);
+    expect(run).toMatchObject({
+      status: 'failed',
+      error: 'provider unavailable',
+      nodes: [{ node: 'generateJoke', error: 'provider unavailable' }],
+      llmCalls: [{ error: 'provider unavailable' }],
+    });
+  });
+
+  it('records aborted streams as cancelled', async () => {
+    const controller = new AbortController();
+    script([
+      () => {
+        controller.abort();
+        return 'Why did the cat sit on the computer?';
+      },
+    ]);
+
+    const events = [];
+    for await (const event of workflowService.streamPromptChain(
+      { topic: 'cats' },
+      controller.signal,
+    )) {
+      events.push(event);
+    }
+
+    expect(events.map(({ event }) => event)).not.toContain('done');
+    expect(runHistory.list({ status: 'cancelled', limit: 10 })).toEqual([
+      expect.objectContaining({ graph: 'prompt-chain' }),
+    ]);
+  });
+
+  it('records streams abandoned after an abort as cancelled', async () => {
+    const controller = new AbortController();
+    script(['Why did the cat sit on the computer?']);
+
+    for await (const event of workflowService.streamPromptChain(
+      { topic: 'cats' },
+      controller.signal,
+    )) {
+      if (event.event === 'token') {
+        // What a disconnecting client does: abort, then stop reading
+        controller.abort();
+        break;
+      }
+    }
+
+    expect(runHistory.list({ limit: 10 })).toEqual([
+      expect.objectContaining({ graph: 'prompt-chain', status: 'cancelled' }),
+    ]);
+  });
+
+  it('filters runs and rejects unknown ids', async () => {
+    script(['No punchline here', 'a joke', 'a story', 'a poem']);
+
+    await workflowService.promptChain({ topic: 'cats' });
+    await workflowService.parallelization({ topic: 'dogs' });
+
+    expect(runHistory.list({ limit: 10 }).map(({ graph }) => graph)).toEqual([
+      'parallelization',
+      'prompt-chain',
+    ]);
+    expect(runHistory.list({ graph: 'prompt-chain', limit: 10 })).toHaveLength(
+      1,
+    );
+    expect(() => runHistory.get('nope')).toThrow(NotFoundException);
+  });
+
+  it('marks runs interrupted by a shutdown or a crash as failed', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'run-history-'));
+    const path = join(directory, 'runs.sqlite');
+
+    try {
+      const before = new RunHistoryService(path).open();
+      before.startRun('run-1', 'prompt-chain', '{}');
+      before.onModuleDestroy();
+
+      const crashed = new RunHistoryService(path).open();
+      crashed.startRun('run-2', 'prompt-chain', '{}');
+      // A process that dies never gets to shut down
+      crashed['db'].close();
+
+      const after = new RunHistoryService(path).open();
+      expect(after.get('run-1')).toMatchObject({
+        status: 'failed',
+        error: 'Interrupted by a server shutdown',
+      });
+      expect(after.get('run-2')).toMatchObject({
+        status: 'failed',
+        error: 'Interrupted by a server restart',
+      });
+      after.onModuleDestroy();
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
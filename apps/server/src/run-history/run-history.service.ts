@@ -0,0 +1,344 @@
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import Database from 'better-sqlite3';
+import { Injectable, NotFoundException, OnModuleDestroy } from '@nestjs/common';
+import {
+  ListRunsDto,
+  LlmCallTrace,
+  NodeTrace,
+  Run,
+  RunStatus,
+  RunSummary,
+  TokenUsage,
+  TracedMessage,
+} from '@repo/api';
+import { RunTracer } from './run-tracer';
+
+interface RunRow {
+  id: string;
+  graph: string;
+  status: RunStatus;
+  input: string;
+  output: string | null;
+  error: string | null;
+  started_at: string;
+  ended_at: string | null;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+interface NodeRow {
+  id: string;
+  node: string;
+  input: string;
+  output: string | null;
+  error: string | null;
+  started_at: string;
+  ended_at: string | null;
+}
+
+interface LlmCallRow {
+  id: string;
+  node: string | null;
+  model: string;
+  prompt: string;
+  response: string | null;
+  prompt_tokens: number | null;
+  completion_tokens: number | null;
+  total_tokens: number | null;
+  error: string | null;
+  started_at: string;
+  ended_at: string | null;
+}
+
+const RUN_COLUMNS = `
+  runs.*,
+  COALESCE(SUM(llm_calls.prompt_tokens), 0) AS prompt_tokens,
+  COALESCE(SUM(llm_calls.completion_tokens), 0) AS completion_tokens,
+  COALESCE(SUM(llm_calls.total_tokens), 0) AS total_tokens
+`;
+
+const parse = (json: string | null) =>
+  json === null ? undefined : JSON.parse(json);
+
+const now = () => new Date().toISOString();
+
+/**
+ * Stores every traced graph run in a SQLite file: its input and final state,
+ * each node with the state it got and the update it returned, and each LLM
+ * call with its prompt, response and token usage. Rows are written as the
+ * run progresses, so running and crashed runs can be inspected too.
+ */
+@Injectable()
+export class RunHistoryService implements OnModuleDestroy {
+  private db: Database.Database;
+
+  /** @param path SQLite file, or `:memory:`. */
+  constructor(private readonly path: string) {}
+
+  /**
+   * Opens (or creates) the history file. Runs left `running` by a previous
+   * process that died without shutting down are marked as failed.
+   */
+  open() {
+    if (this.path !== ':memory:') {
+      mkdirSync(dirname(this.path), { recursive: true });
+    }
+
+    this.db = new Database(this.path);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS runs (
+        id TEXT PRIMARY KEY,
+        graph TEXT NOT NULL,
+        status TEXT NOT NULL,
+        input TEXT NOT NULL,
+        output TEXT,
+        error TEXT,
+        started_at TEXT NOT NULL,
+        ended_at TEXT
+      );
+      CREATE INDEX IF NOT EXISTS runs_started_at ON runs (started_at);
+      CREATE TABLE IF NOT EXISTS nodes (
+        id TEXT PRIMARY KEY,
+        run_id TEXT NOT NULL REFERENCES runs (id) ON DELETE CASCADE,
+        node TEXT NOT NULL,
+        input TEXT NOT NULL,
+        output TEXT,
+        error TEXT,
+        started_at TEXT NOT NULL,
+        ended_at TEXT
+      );
+      CREATE INDEX IF NOT EXISTS nodes_run_id ON nodes (run_id);
+      CREATE TABLE IF NOT EXISTS llm_calls (
+        id TEXT PRIMARY KEY,
+        run_id TEXT NOT NULL REFERENCES runs (id) ON DELETE CASCADE,
+        node TEXT,
+        model TEXT NOT NULL,
+        prompt TEXT NOT NULL,
+        response TEXT,
+        prompt_tokens INTEGER,
+        completion_tokens INTEGER,
+        total_tokens INTEGER,
+        error TEXT,
+        started_at TEXT NOT NULL,
+        ended_at TEXT
+      );
+      CREATE INDEX IF NOT EXISTS llm_calls_run_id ON llm_calls (run_id);
+    `);
+
+    this.failRunning('Interrupted by a server restart');
+
+    return this;
+  }
+
+  /** Marks the runs still in progress as failed before closing the file. */
+  onModuleDestroy() {
+    if (this.db?.open) {
+      this.failRunning('Interrupted by a server shutdown');
+      this.db.close();
+    }
+  }
+
+  /**
+   * Callback handler that records one run of `graph`. Pass it in the
+   * `callbacks` of the call that invokes or streams the graph; a run aborted
+   * through `signal` is recorded as cancelled.
+   */
+  tracer(graph: string, signal?: AbortSignal) {
+    return new RunTracer(this, graph, signal);
+  }
+
+  list({ graph, status, limit }: ListRunsDto): RunSummary[] {
+    const conditions = [
+      graph && 'runs.graph = @graph',
+      status && 'runs.status = @status',
+    ].filter(Boolean);
+
+    return this.db
+      .prepare<Partial<ListRunsDto>, RunRow>(
+        `SELECT ${RUN_COLUMNS}
+         FROM runs LEFT JOIN llm_calls ON llm_calls.run_id = runs.id
+         ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+         GROUP BY runs.id
+         ORDER BY runs.started_at DESC, runs.rowid DESC
+         LIMIT @limit`,
+      )
+      .all({ graph, status, limit })
+      .map((row) => this.toSummary(row));
+  }
+
+  get(id: string): Run {
+    const row = this.db
+      .prepare<[string], RunRow>(
+        `SELECT ${RUN_COLUMNS}
+         FROM runs LEFT JOIN llm_calls ON llm_calls.run_id = runs.id
+         WHERE runs.id = ?
+         GROUP BY runs.id`,
+      )
+      .get(id);
+    if (!row) {
+      throw new NotFoundException(`Run ${id} not found`);
+    }
+
+    const nodes = this.db
+      .prepare<[string], NodeRow>(
+        'SELECT * FROM nodes WHERE run_id = ? ORDER BY started_at, rowid',
+      )
+      .all(id)
+      .map(
+        (node): NodeTrace => ({
+          id: node.id,
+          node: node.node,
+          startedAt: node.started_at,
+          endedAt: node.ended_at ?? undefined,
+          input: parse(node.input),
+          output: parse(node.output),
+          error: node.error ?? undefined,
+        }),
+      );
+
+    const llmCalls = this.db
+      .prepare<[string], LlmCallRow>(
+        'SELECT * FROM llm_calls WHERE run_id = ? ORDER BY started_at, rowid',
+      )
+      .all(id)
+      .map(
+        (call): LlmCallTrace => ({
+          id: call.id,
+          node: call.node,
+          model: call.model,
+          prompt: parse(call.prompt),
+          response: parse(call.response),
+          tokenUsage:
+            call.total_tokens === null
+              ? undefined
+              : {
+                  promptTokens: call.prompt_tokens ?? 0,
+                  completionTokens: call.completion_tokens ?? 0,
+                  totalTokens: call.total_tokens,
+                },
+          startedAt: call.started_at,
+          endedAt: call.ended_at ?? undefined,
+          error: call.error ?? undefined,
+        }),
+      );
+
+    return {
+      ...this.toSummary(row),
+      input: parse(row.input),
+      output: parse(row.output),
+      nodes,
+      llmCalls,
+    };
+  }
+
+  // Recording, called by RunTracer as the run progresses
+
+  startRun(id: string, graph: string, input: string) {
+    this.db
+      .prepare(
+        `INSERT INTO runs (id, graph, status, input, started_at)
+         VALUES (?, ?, 'running', ?, ?)`,
+      )
+      .run(id, graph, input, now());
+  }
+
+  /** Ends a running run; a run that already ended keeps its outcome. */
+  endRun(
+    id: string,
+    status: Exclude<RunStatus, 'running'>,
+    { output, error }: { output?: string; error?: string },
+  ) {
+    this.db
+      .prepare(
+        `UPDATE runs SET status = ?, output = ?, error = ?, ended_at = ?
+         WHERE id = ? AND status = 'running'`,
+      )
+      .run(status, output ?? null, error ?? null, now(), id);
+  }
+
+  startNode(id: string, runId: string, node: string, input: string) {
+    this.db
+      .prepare(
+        `INSERT INTO nodes (id, run_id, node, input, started_at)
+         VALUES (?, ?, ?, ?, ?)`,
+      )
+      .run(id, runId, node, input, now());
+  }
+
+  endNode(id: string, { output, error }: { output?: string; error?: string }) {
+    this.db
+      .prepare(
+        'UPDATE nodes SET output = ?, error = ?, ended_at = ? WHERE id = ?',
+      )
+      .run(output ?? null, error ?? null, now(), id);
+  }
+
+  startLlmCall(
+    id: string,
+    runId: string,
+    node: string | null,
+    model: string,
+    prompt: TracedMessage[],
+  ) {
+    this.db
+      .prepare(
+        `INSERT INTO llm_calls (id, run_id, node, model, prompt, started_at)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+      )
+      .run(id, runId, node, model, JSON.stringify(prompt), now());
+  }
+
+  endLlmCall(
+    id: string,
+    {
+      response,
+      tokenUsage,
+      error,
+    }: { response?: TracedMessage; tokenUsage?: TokenUsage; error?: string },
+  ) {
+    this.db
+      .prepare(
+        `UPDATE llm_calls
+         SET response = ?, prompt_tokens = ?, completion_tokens = ?,
+             total_tokens = ?, error = ?, ended_at = ?
+         WHERE id = ?`,
+      )
+      .run(
+        response ? JSON.stringify(response) : null,
+        tokenUsage?.promptTokens ?? null,
+        tokenUsage?.completionTokens ?? null,
+        tokenUsage?.totalTokens ?? null,
+        error ?? null,
+        now(),
+        id,
+      );
+  }
+
+  private failRunning(error: string) {
+    this.db
+      .prepare(
+        `UPDATE runs SET status = 'failed', error = ?, ended_at = ?
+         WHERE status = 'running'`,
+      )
+      .run(error, now());
+  }
+
+  private toSummary(row: RunRow): RunSummary {
+    return {
+      id: row.id,
+      graph: row.graph,
+      status: row.status,
+      startedAt: row.started_at,
+      endedAt: row.ended_at ?? undefined,
+      error: row.error ?? undefined,
+      tokenUsage: {
+        promptTokens: row.prompt_tokens,
+        completionTokens: row.completion_tokens,
+        totalTokens: row.total_tokens,
+      },
+    };
+  }
+}
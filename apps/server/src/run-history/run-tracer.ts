@@ -0,0 +1,186 @@
+import { Serialized } from '@langchain/core/load/serializable';
+import { BaseCallbackHandler } from '@langchain/core/callbacks/base';
+import { AIMessage, BaseMessage } from '@langchain/core/messages';
+import { ChatGeneration, LLMResult } from '@langchain/core/outputs';
+import { ChainValues } from '@langchain/core/utils/types';
+import { TokenUsage, TracedMessage } from '@repo/api';
+import type { RunHistoryService } from './run-history.service';
+import { toJson, toTracedMessage } from '../common/traced-message';
+
+/** Tag LangGraph puts on its internal runnables (start node, channel writes). */
+const HIDDEN_TAG = 'langsmith:hidden';
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+const tokenUsageOf = ({ llmOutput, generations }: LLMResult) => {
+  const message = (generations[0]?.[0] as ChatGeneration | undefined)
+    ?.message as AIMessage | undefined;
+
+  if (message?.usage_metadata) {
+    const { input_tokens, output_tokens, total_tokens } =
+      message.usage_metadata;
+    return {
+      promptTokens: input_tokens,
+      completionTokens: output_tokens,
+      totalTokens: total_tokens,
+    };
+  }
+  return llmOutput?.tokenUsage as TokenUsage | undefined;
+};
+
+/**
+ * Records one graph run in the run history: the root chain is the run, its
+ * direct children named after a graph node are the node executions, and
+ * every LLM call made anywhere below it is attributed to the node that made
+ * it. Tracing problems are logged by LangChain and never fail the run.
+ */
+export class RunTracer extends BaseCallbackHandler {
+  name = 'run_tracer';
+
+  // Write in order with the run, so the history is complete once it returns
+  awaitHandlers = true;
+
+  private rootId?: string;
+
+  private readonly nodeIds = new Set<string>();
+
+  constructor(
+    private readonly runHistory: RunHistoryService,
+    private readonly graph: string,
+    private readonly signal?: AbortSignal,
+  ) {
+    super();
+    // An abandoned stream may never report an error for its root chain
+    signal?.addEventListener('abort', this.handleAbort, { once: true });
+  }
+
+  /** Id of the recorded run, once it started. */
+  get runId() {
+    return this.rootId;
+  }
+
+  handleChainStart(
+    _chain: Serialized,
+    inputs: ChainValues,
+    runId: string,
+    parentRunId?: string,
+    tags?: string[],
+    metadata?: Record<string, unknown>,
+    _runType?: string,
+    runName?: string,
+  ) {
+    if (!this.rootId && !parentRunId) {
+      this.rootId = runId;
+      this.runHistory.startRun(runId, this.graph, toJson(inputs));
+    } else if (
+      parentRunId === this.rootId &&
+      runName &&
+      runName === metadata?.langgraph_node &&
+      !tags?.includes(HIDDEN_TAG)
+    ) {
+      this.nodeIds.add(runId);
+      this.runHistory.startNode(runId, this.rootId!, runName, toJson(inputs));
+    }
+  }
+
+  handleChainEnd(outputs: ChainValues, runId: string) {
+    if (runId === this.rootId) {
+      this.runHistory.endRun(runId, 'succeeded', { output: toJson(outputs) });
+    } else if (this.nodeIds.delete(runId)) {
+      this.runHistory.endNode(runId, { output: toJson(outputs) });
+    }
+  }
+
+  handleChainError(error: unknown, runId: string) {
+    if (runId === this.rootId) {
+      this.runHistory.endRun(
+        runId,
+        this.signal?.aborted ? 'cancelled' : 'failed',
+        { error: errorMessage(error) },
+      );
+    } else if (this.nodeIds.delete(runId)) {
+      this.runHistory.endNode(runId, { error: errorMessage(error) });
+    }
+  }
+
+  private readonly handleAbort = () => {
+    if (this.rootId) {
+      this.runHistory.endRun(this.rootId, 'cancelled', {
+        error: errorMessage(this.signal?.reason ?? 'Aborted'),
+      });
+    }
+  };
+
+  handleChatModelStart(
+    llm: Serialized,
+    messages: BaseMessage[][],
+    runId: string,
+    _parentRunId?: string,
+    _extraParams?: Record<string, unknown>,
+    _tags?: string[],
+    metadata?: Record<string, unknown>,
+  ) {
+    this.startLlmCall(
+      llm,
+      runId,
+      metadata,
+      (messages[0] ?? []).map(toTracedMessage),
+    );
+  }
+
+  handleLLMStart(
+    llm: Serialized,
+    prompts: string[],
+    runId: string,
+    _parentRunId?: string,
+    _extraParams?: Record<string, unknown>,
+    _tags?: string[],
+    metadata?: Record<string, unknown>,
+  ) {
+    this.startLlmCall(
+      llm,
+      runId,
+      metadata,
+      prompts.map((content) => ({ role: 'human', content })),
+    );
+  }
+
+  handleLLMEnd(output: LLMResult, runId: string) {
+    if (!this.rootId) {
+      return;
+    }
+    const generation = output.generations[0]?.[0] as ChatGeneration | undefined;
+
+    this.runHistory.endLlmCall(runId, {
+      response:
+        generation &&
+        (generation.message
+          ? toTracedMessage(generation.message)
+          : { role: 'ai', content: generation.text }),
+      tokenUsage: tokenUsageOf(output),
+    });
+  }
+
+  handleLLMError(error: unknown, runId: string) {
+    if (this.rootId) {
+      this.runHistory.endLlmCall(runId, { error: errorMessage(error) });
+    }
+  }
+
+  private startLlmCall(
+    llm: Serialized,
+    runId: string,
+    metadata: Record<string, unknown> | undefined,
+    prompt: TracedMessage[],
+  ) {
+    if (!this.rootId) {
+      return;
+    }
+    const model =
+      (metadata?.ls_model_name as string | undefined) ?? llm.id.at(-1)!;
+    const node = (metadata?.langgraph_node as string | undefined) ?? null;
+
+    this.runHistory.startLlmCall(runId, this.rootId, node, model, prompt);
+  }
+}
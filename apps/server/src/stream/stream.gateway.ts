@@ -2,13 +2,69 @@ import {
   WebSocketGateway,
   SubscribeMessage,
   MessageBody,
+  ConnectedSocket,
+  OnGatewayDisconnect,
 } from '@nestjs/websockets';
+import { Socket } from 'socket.io';
+import {
+  CancelStreamSchema,
+  CreateStreamSchema,
+  GraphStreamEvent,
+} from '@repo/api';
 import { StreamService } from './stream.service';
+import { formatIssues } from '../common/format-issues';
 
-@WebSocketGateway()
-export class StreamGateway {
+/**
+ * Single entry point for running any registered graph over socket.io. Events
+ * of a run are emitted to the client that started it as `streamEvent`.
+ */
+@WebSocketGateway({
+  cors: { origin: '*' },
+  transports: ['websocket', 'polling'],
+})
+export class StreamGateway implements OnGatewayDisconnect {
   constructor(private readonly streamService: StreamService) {}
 
+  handleDisconnect(client: Socket) {
+    this.streamService.cancelAll(client.id);
+  }
+
   @SubscribeMessage('createStream')
-  stream() {}
+  async stream(
+    @MessageBody() payload: unknown,
+    @ConnectedSocket() client: Socket,
+  ) {
+    const result = CreateStreamSchema.safeParse(payload);
+    if (!result.success) {
+      const event: GraphStreamEvent = {
+        streamId: null,
+        event: 'error',
+        data: { message: `Invalid payload: ${formatIssues(result.error)}` },
+      };
+      client.emit('streamEvent', event);
+      return;
+    }
+
+    for await (const event of this.streamService.run(client.id, result.data)) {
+      client.emit('streamEvent', event);
+    }
+  }
+
+  /**
+   * Acknowledges with `{ cancelled }`, false when the client has no running
+   * stream with that id.
+   */
+  @SubscribeMessage('cancelStream')
+  cancelStream(
+    @MessageBody() payload: unknown,
+    @ConnectedSocket() client: Socket,
+  ) {
+    const result = CancelStreamSchema.safeParse(payload);
+
+    return {
+      cancelled:
+        result.success &&
+        this.streamService.cancel(client.id, result.data.streamId),
+    };
+  }
 }
@@ -1,8 +1,10 @@
 import { Module } from '@nestjs/common';
 import { StreamService } from './stream.service';
 import { StreamGateway } from './stream.gateway';
+import { GraphRegistryModule } from '../graph-registry/graph-registry.module';
 
 @Module({
+  imports: [GraphRegistryModule],
   providers: [StreamGateway, StreamService],
 })
 export class StreamModule {}
@@ -0,0 +1,141 @@
+import { Test } from '@nestjs/testing';
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { CreateStreamDto, GraphStreamEvent } from '@repo/api';
+import { StreamService } from './stream.service';
+import { WorkflowService } from '../workflow/workflow.service';
+import { workflowGraphs } from '../workflow/workflow.graphs';
+import { GraphRegistryService } from '../graph-registry/graph-registry.service';
+import { LlmProviderService } from '../llm-provider/llm-provider.service';
+import { ToolCatalogModule } from '../tool-catalog/tool-catalog.module';
+import { RunHistoryService } from '../run-history/run-history.service';
+import {
+  FakeChatModel,
+  FakeChatModelInput,
+} from '../llm-provider/fake/fake-chat-model';
+
+describe('StreamService', () => {
+  let service: StreamService;
+  let llm: FakeChatModel;
+  let runHistory: RunHistoryService;
+
+  const script = (responses: FakeChatModelInput['responses']) => {
+    llm = new FakeChatModel({ responses });
+  };
+
+  const collect = async (ownerId: string, dto: CreateStreamDto) => {
+    const events: GraphStreamEvent[] = [];
+    for await (const event of service.run(ownerId, dto)) {
+      events.push(event);
+    }
+    return events;
+  };
+
+  beforeEach(async () => {
+    llm = new FakeChatModel();
+
+    const moduleRef = await Test.createTestingModule({
+      imports: [ToolCatalogModule],
+      providers: [
+        StreamService,
+        GraphRegistryService,
+        WorkflowService,
+        {
+          provide: RunHistoryService,
+          useFactory: () => new RunHistoryService(':memory:').open(),
+        },
+        { provide: LlmProviderService, useValue: { chatModel: () => llm } },
+      ],
+    }).compile();
+    await moduleRef.init();
+
+    moduleRef
+      .get(GraphRegistryService)
+      .register(...workflowGraphs(moduleRef.get(WorkflowService)));
+    service = moduleRef.get(StreamService);
+    runHistory = moduleRef.get(RunHistoryService);
+  });
+
+  it('streams a graph started by name until it is done', async () => {
+    script(['No punchline here']);
+
+    const events = await collect('client-1', {
+      graph: 'prompt-chain',
+      input: { topic: 'cats' },
+      streamId: 'run-1',
+    });
+
+    expect(events[0]).toEqual({
+      streamId: 'run-1',
+      event: 'started',
+      data: { graph: 'prompt-chain' },
+    });
+    expect(events.filter(({ event }) => event === 'token')).not.toHaveLength(0);
+    expect(events).toContainEqual({
+      streamId: 'run-1',
+      event: 'update',
+      data: {
+        node: 'generateJoke',
+        update: { joke: 'No punchline here' },
+      },
+    });
+    expect(events.at(-1)).toMatchObject({
+      streamId: 'run-1',
+      event: 'done',
+      data: { state: { topic: 'cats', joke: 'No punchline here' } },
+    });
+    expect(runHistory.list({ limit: 10 })).toEqual([
+      expect.objectContaining({ graph: 'prompt-chain', status: 'succeeded' }),
+    ]);
+  });
+
+  it('reports unknown graphs and invalid input', async () => {
+    const [unknown] = await collect('client-1', {
+      graph: 'nope',
+      input: {},
+      streamId: 'run-1',
+    });
+    const [invalid] = await collect('client-1', {
+      graph: 'prompt-chain',
+      input: { topic: '' },
+      streamId: 'run-2',
+    });
+
+    expect(unknown).toMatchObject({
+      event: 'error',
+      data: { message: expect.stringContaining('Unknown graph nope') },
+    });
+    expect(invalid).toMatchObject({
+      event: 'error',
+      data: { message: expect.stringContaining('topic:') },
+    });
+  });
+
+  it('cancels a run on request of the client that started it', async () => {
+    script([
+      () => {
+        expect(service.cancel('client-2', 'run-1')).toBe(false);
+        expect(service.cancel('client-1', 'run-1')).toBe(true);
+        return 'Why did the cat sit on the computer?';
+      },
+      'improved',
+      'polished',
+    ]);
+
+    const events = await collect('client-1', {
+      graph: 'prompt-chain',
+      input: { topic: 'cats' },
+      streamId: 'run-1',
+    });
+
+    expect(events.at(-1)).toEqual({
+      streamId: 'run-1',
+      event: 'cancelled',
+      data: {},
+    });
+    expect(llm.calls).toHaveLength(1);
+    expect(service.cancel('client-1', 'run-1')).toBe(false);
+    expect(runHistory.list({ limit: 10 })).toEqual([
+      expect.objectContaining({ graph: 'prompt-chain', status: 'cancelled' }),
+    ]);
+  });
+});
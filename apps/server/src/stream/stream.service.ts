@@ -1,4 +1,111 @@
-import { Injectable } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { Injectable, Logger } from '@nestjs/common';
+import { CreateStreamDto, GraphStreamEvent } from '@repo/api';
+import { GraphRegistryService } from '../graph-registry/graph-registry.service';
+import { formatIssues } from '../common/format-issues';
 
+interface ActiveRun {
+  ownerId: string;
+  controller: AbortController;
+}
+
+/**
+ * Starts registered graphs by name and tracks the running ones so their
+ * owner can cancel them. Every registered graph records its own runs in the
+ * run history, so the runs started here are recorded exactly once.
+ */
 @Injectable()
-export class StreamService {}
+export class StreamService {
+  private readonly logger = new Logger(StreamService.name);
+
+  private readonly runs = new Map<string, ActiveRun>();
+
+  constructor(private readonly graphRegistry: GraphRegistryService) {}
+
+  /**
+   * Runs the named graph for `ownerId`. The run starts with `started` and
+   * ends with exactly one `done`, `error` or `cancelled` event.
+   */
+  async *run(
+    ownerId: string,
+    { graph: name, input, streamId = randomUUID() }: CreateStreamDto,
+  ): AsyncGenerator<GraphStreamEvent> {
+    const graph = this.graphRegistry.find(name);
+    if (!graph) {
+      yield this.error(
+        streamId,
+        `Unknown graph ${name}; expected one of ${this.graphRegistry.names().join(', ')}`,
+      );
+      return;
+    }
+    if (this.runs.has(streamId)) {
+      yield this.error(streamId, `Stream ${streamId} is already running`);
+      return;
+    }
+
+    const parsed = graph.schema.safeParse(input);
+    if (!parsed.success) {
+      yield this.error(
+        streamId,
+        `Invalid input for ${name}: ${formatIssues(parsed.error)}`,
+      );
+      return;
+    }
+
+    const controller = new AbortController();
+    this.runs.set(streamId, { ownerId, controller });
+    this.logger.log(`Started ${name} as ${streamId}`);
+
+    try {
+      yield { streamId, event: 'started', data: { graph: name } };
+
+      let finished = false;
+      for await (const event of graph.stream(parsed.data, controller.signal)) {
+        finished = event.event === 'done' || event.event === 'error';
+        yield { streamId, ...event };
+      }
+
+      // The graph only ends without a terminal event when it was aborted
+      if (!finished) {
+        yield { streamId, event: 'cancelled', data: {} };
+      }
+    } catch (error) {
+      yield controller.signal.aborted
+        ? { streamId, event: 'cancelled', data: {} }
+        : this.error(
+            streamId,
+            error instanceof Error ? error.message : String(error),
+          );
+    } finally {
+      this.runs.delete(streamId);
+    }
+  }
+
+  /**
+   * Aborts a run, including its in-flight LLM calls. Only the client that
+   * started a run may cancel it.
+   */
+  cancel(ownerId: string, streamId: string) {
+    const run = this.runs.get(streamId);
+    if (run?.ownerId !== ownerId) {
+      return false;
+    }
+
+    this.logger.log(`Cancelling ${streamId}`);
+    run.controller.abort();
+    return true;
+  }
+
+  /** Aborts every run of a client, e.g. when it disconnects. */
+  cancelAll(ownerId: string) {
+    for (const [streamId, run] of this.runs) {
+      if (run.ownerId === ownerId) {
+        this.cancel(ownerId, streamId);
+      }
+    }
+  }
+
+  private error(streamId: string, message: string): GraphStreamEvent {
+    return { streamId, event: 'error', data: { message } };
+  }
+}
@@ -0,0 +1,16 @@
+import { Controller, Get } from '@nestjs/common';
+import { ToolCatalogService } from './tool-catalog.service';
+
+@Controller('tools')
+export class ToolCatalogController {
+  constructor(private readonly toolCatalog: ToolCatalogService) {}
+
+  /**
+   * Every registered tool with its argument schema and whether it may be
+   * selected.
+   */
+  @Get()
+  list() {
+    return this.toolCatalog.list();
+  }
+}
@@ -0,0 +1,19 @@
+import { Module, OnModuleInit } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { ToolCatalogService } from './tool-catalog.service';
+import { ToolCatalogController } from './tool-catalog.controller';
+import { localTools } from './tools/local-tools';
+
+@Module({
+  imports: [ConfigModule],
+  controllers: [ToolCatalogController],
+  providers: [ToolCatalogService],
+  exports: [ToolCatalogService],
+})
+export class ToolCatalogModule implements OnModuleInit {
+  constructor(private readonly toolCatalog: ToolCatalogService) {}
+
+  onModuleInit() {
+    this.toolCatalog.register(...localTools);
+  }
+}
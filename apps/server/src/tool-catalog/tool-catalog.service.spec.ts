@@ -0,0 +1,175 @@
+import { ConfigService } from '@nestjs/config';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { z } from 'zod';
+import { tool } from '@langchain/core/tools';
+import { CatalogTool, ToolCatalogService } from './tool-catalog.service';
+import { localTools } from './tools/local-tools';
+import { evaluateExpression } from './tools/calculator';
+
+const secretSearch: CatalogTool = {
+  name: 'secret_search',
+  description: 'Searches secret documents',
+  schema: z.object({ query: z.string() }),
+  tags: ['rag'],
+  permissions: ['read-documents'],
+  create: () =>
+    tool(async () => 'found', {
+      name: 'secret_search',
+      schema: z.object({ query: z.string() }),
+    }),
+};
+
+describe('ToolCatalogService', () => {
+  let catalog: ToolCatalogService;
+
+  const invoke = async (
+    name: string,
+    args: Record<string, unknown>,
+    data?: unknown,
+  ) => {
+    const [selected] = await catalog.select([name], { data });
+    return selected.invoke(args);
+  };
+
+  beforeEach(() => {
+    catalog = new ToolCatalogService(new ConfigService({}));
+    catalog.register(...localTools, secretSearch);
+  });
+
+  it('lists tools with their schema and whether they are allowed', () => {
+    expect(catalog.list()).toContainEqual({
+      name: 'json_query',
+      description: expect.any(String),
+      tags: ['data'],
+      permissions: [],
+      allowed: true,
+      inputSchema: expect.objectContaining({ required: ['path'] }),
+    });
+  });
+
+  it('rejects unknown, duplicate and forbidden tools', async () => {
+    await expect(catalog.select(['secret_search'])).resolves.toHaveLength(1);
+    await expect(catalog.select(['add', 'nope'])).rejects.toThrow(
+      BadRequestException,
+    );
+    expect(() => catalog.register(...localTools)).toThrow(ConflictException);
+
+    const restricted = new ToolCatalogService(
+      new ConfigService({ TOOL_PERMISSIONS: '' }),
+    );
+    restricted.register(...localTools, secretSearch);
+    await expect(restricted.select(['secret_search'])).rejects.toThrow(
+      ForbiddenException,
+    );
+    expect(
+      restricted.list().find(({ name }) => name === 'secret_search'),
+    ).toMatchObject({ allowed: false });
+    await expect(restricted.select(['calculator'])).resolves.toHaveLength(1);
+  });
+
+  describe('calculator', () => {
+    it('evaluates expressions with precedence, functions and constants', () => {
+      expect(evaluateExpression('2 + 3 * 4')).toBe(14);
+      expect(evaluateExpression('(2 + 3) * sqrt(16) / 4')).toBe(5);
+      expect(evaluateExpression('-2^2 + 2**3')).toBe(4);
+      expect(evaluateExpression('max(1, 7, 3) % 4')).toBe(3);
+      expect(evaluateExpression('round(pi * 100) / 100')).toBe(3.14);
+      expect(evaluateExpression('1.5e2 + .5')).toBe(150.5);
+    });
+
+    it('rejects anything that is not arithmetic', () => {
+      expect(() => evaluateExpression('1 / 0')).toThrow('Division by zero');
+      expect(() => evaluateExpression('process.exit()')).toThrow();
+      expect(() => evaluateExpression('2 +')).toThrow(
+        'Unexpected end of expression',
+      );
+      expect(() => evaluateExpression('(1 + 2')).toThrow('Expected ")"');
+      expect(() => evaluateExpression('sqrt(-1)')).toThrow('not a finite');
+      expect(() => evaluateExpression('2; 3')).toThrow('position 2');
+      expect(() => evaluateExpression('constructor(1)')).toThrow(
+        'Unknown function constructor',
+      );
+      expect(() => evaluateExpression('constructor')).toThrow(
+        'Unknown constant constructor',
+      );
+    });
+  });
+
+  describe('date tools', () => {
+    it('adds durations, clamping to the end of the month', async () => {
+      await expect(
+        invoke('date_add', { date: '2024-01-31T00:00:00Z', months: 1 }),
+      ).resolves.toBe('2024-02-29T00:00:00.000Z');
+      await expect(
+        invoke('date_add', { date: '2024-03-10', days: -10, hours: 12 }),
+      ).resolves.toBe('2024-02-29T12:00:00.000Z');
+    });
+
+    it('measures the time between dates', async () => {
+      await expect(
+        invoke('date_diff', { from: '2024-01-01', to: '2024-03-01' }),
+      ).resolves.toBe(60);
+      await expect(
+        invoke('date_diff', {
+          from: '2023-05-31',
+          to: '2024-05-30',
+          unit: 'months',
+        }),
+      ).resolves.toBe(11);
+      await expect(
+        invoke('date_diff', {
+          from: '2024-05-31',
+          to: '2020-06-01',
+          unit: 'years',
+        }),
+      ).resolves.toBe(-3);
+    });
+
+    it('reports invalid dates and time zones', async () => {
+      await expect(
+        invoke('date_add', { date: 'yesterday', days: 1 }),
+      ).rejects.toThrow('Invalid date yesterday');
+      await expect(
+        invoke('current_time', { timeZone: 'Mars/Olympus' }),
+      ).rejects.toThrow();
+    });
+  });
+
+  describe('json_query', () => {
+    const data = {
+      orders: [
+        { id: 'a1', total: 12.5, 'ship to': 'Paris' },
+        { id: 'b2', total: 30 },
+      ],
+    };
+
+    it('looks up values in the request data by path', async () => {
+      await expect(
+        invoke('json_query', { path: '$.orders[0].total' }, data),
+      ).resolves.toBe(12.5);
+      await expect(
+        invoke('json_query', { path: 'orders[*].id' }, data),
+      ).resolves.toEqual(['a1', 'b2']);
+      await expect(
+        invoke('json_query', { path: "$.orders[-2]['ship to']" }, data),
+      ).resolves.toBe('Paris');
+    });
+
+    it('reports missing data and paths', async () => {
+      await expect(
+        invoke('json_query', { path: '$.orders[5]' }, data),
+      ).rejects.toThrow('Nothing found at $.orders[5]');
+      await expect(invoke('json_query', { path: '$.orders' })).rejects.toThrow(
+        'No data was provided',
+      );
+      await expect(
+        invoke('json_query', { path: '$.orders[x]' }, data),
+      ).rejects.toThrow('Invalid path');
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { z } from 'zod';
+import zodToJsonSchema from 'zod-to-json-schema';
+import { RunnableConfig } from '@langchain/core/runnables';
+import { StructuredToolInterface, tool } from '@langchain/core/tools';
+import {
+  RetrievalOptionsDto,
+  ToolDescription,
+  ToolPermission,
+} from '@repo/api';
+
+/** What a request hands to the tools it selected. */
+export interface ToolContext {
+  /** JSON provided with the request, for data tools to work on. */
+  data?: unknown;
+  /** How retrieval tools search the RAG index. */
+  retrieval?: RetrievalOptionsDto;
+}
+
+/**
+ * A tool feature modules make available by name. Tools are created per
+ * request, so they can depend on its context.
+ */
+export interface CatalogTool {
+  name: string;
+  description: string;
+  /** Arguments, as validated before each call. */
+  schema: z.AnyZodObject;
+  tags: string[];
+  permissions: ToolPermission[];
+  /** Bound into every agent alongside the tools it selects. */
+  bound?: boolean;
+  create(
+    context: ToolContext,
+  ): StructuredToolInterface | Promise<StructuredToolInterface>;
+}
+
+/**
+ * Catalog entry for a tool that is a plain function of its arguments and
+ * the request context.
+ */
+export const catalogTool = <Schema extends z.AnyZodObject>({
+  run,
+  tags = [],
+  permissions = [],
+  ...fields
+}: {
+  name: string;
+  description: string;
+  schema: Schema;
+  tags?: string[];
+  permissions?: ToolPermission[];
+  run(
+    input: z.infer<Schema>,
+    context: ToolContext,
+    config: RunnableConfig,
+  ): unknown;
+}): CatalogTool => ({
+  ...fields,
+  tags,
+  permissions,
+  create: (context) =>
+    tool(async (input, config) => run(input, context, config), fields),
+});
+
+const parsePermissions = (value: string) =>
+  value
+    .split(',')
+    .map((permission) => permission.trim())
+    .filter(Boolean) as ToolPermission[];
+
+/**
+ * Tools agents can be configured with, registered once by the modules that
+ * provide them. Permissions are granted through `TOOL_PERMISSIONS`, a comma
+ * separated list (by default `read-documents`).
+ */
+@Injectable()
+export class ToolCatalogService {
+  private readonly tools = new Map<string, CatalogTool>();
+
+  private readonly granted: Set<ToolPermission>;
+
+  constructor(configService: ConfigService) {
+    this.granted = new Set(
+      parsePermissions(configService.get('TOOL_PERMISSIONS', 'read-documents')),
+    );
+  }
+
+  /**
+   * Registers all of `tools` or, if one of them conflicts, none of them.
+   *
+   * @throws ConflictException if a name is already registered or repeated
+   */
+  register(...tools: CatalogTool[]) {
+    const names = new Set<string>();
+    for (const { name } of tools) {
+      if (this.tools.has(name) || names.has(name)) {
+        throw new ConflictException(
+          `A tool named ${name} is already registered`,
+        );
+      }
+      names.add(name);
+    }
+    for (const entry of tools) {
+      this.tools.set(entry.name, entry);
+    }
+  }
+
+  names() {
+    return [...this.tools.keys()];
+  }
+
+  /** Names of the allowed tools every agent gets without selecting them. */
+  bound() {
+    return [...this.tools.values()]
+      .filter(({ bound, permissions }) => bound && this.isAllowed(permissions))
+      .map(({ name }) => name);
+  }
+
+  list(): ToolDescription[] {
+    return [...this.tools.values()].map(
+      ({ name, description, schema, tags, permissions }) => ({
+        name,
+        description,
+        tags,
+        permissions,
+        allowed: this.isAllowed(permissions),
+        inputSchema: zodToJsonSchema(schema),
+      }),
+    );
+  }
+
+  /**
+   * Creates the named tools for one request.
+   *
+   * @throws BadRequestException if a name is not in the catalog
+   * @throws ForbiddenException if a tool needs a permission that is not granted
+   */
+  async select(names: string[], context: ToolContext = {}) {
+    const unknown = names.filter((name) => !this.tools.has(name));
+    if (unknown.length) {
+      throw new BadRequestException(
+        `Unknown tools ${unknown.join(', ')}; expected some of ${this.names().join(', ')}`,
+      );
+    }
+
+    const entries = [...new Set(names)].map((name) => this.tools.get(name)!);
+    for (const { name, permissions } of entries) {
+      if (!this.isAllowed(permissions)) {
+        throw new ForbiddenException(
+          `Tool ${name} needs the ${permissions.join(', ')} permissions`,
+        );
+      }
+    }
+
+    return Promise.all(entries.map((entry) => entry.create(context)));
+  }
+
+  private isAllowed(permissions: ToolPermission[]) {
+    return permissions.every((permission) => this.granted.has(permission));
+  }
+}
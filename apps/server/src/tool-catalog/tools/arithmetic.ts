@@ -0,0 +1,36 @@
+import { z } from 'zod';
+import { catalogTool } from '../tool-catalog.service';
+
+const operands = z.object({
+  a: z.number().describe('first number'),
+  b: z.number().describe('second number'),
+});
+
+export const arithmeticTools = [
+  catalogTool({
+    name: 'add',
+    description: 'Add two numbers together',
+    schema: operands,
+    tags: ['math'],
+    run: ({ a, b }) => a + b,
+  }),
+  catalogTool({
+    name: 'multiply',
+    description: 'multiplies two numbers together',
+    schema: operands,
+    tags: ['math'],
+    run: ({ a, b }) => a * b,
+  }),
+  catalogTool({
+    name: 'divide',
+    description: 'Divide two numbers',
+    schema: operands,
+    tags: ['math'],
+    run: ({ a, b }) => {
+      if (b === 0) {
+        throw new Error('Cannot divide by zero');
+      }
+      return a / b;
+    },
+  }),
+];
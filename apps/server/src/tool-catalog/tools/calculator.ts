@@ -0,0 +1,185 @@
+import { z } from 'zod';
+import { catalogTool } from '../tool-catalog.service';
+
+// Maps rather than object literals, so names like `constructor` or
+// `toString` do not resolve to inherited properties.
+const CONSTANTS = new Map(Object.entries({ pi: Math.PI, e: Math.E }));
+
+const FUNCTIONS = new Map<string, (...args: number[]) => number>(
+  Object.entries({
+    abs: Math.abs,
+    ceil: Math.ceil,
+    floor: Math.floor,
+    round: Math.round,
+    sqrt: Math.sqrt,
+    cbrt: Math.cbrt,
+    exp: Math.exp,
+    ln: Math.log,
+    log: Math.log10,
+    log2: Math.log2,
+    sin: Math.sin,
+    cos: Math.cos,
+    tan: Math.tan,
+    asin: Math.asin,
+    acos: Math.acos,
+    atan: Math.atan,
+    min: Math.min,
+    max: Math.max,
+    pow: Math.pow,
+  }),
+);
+
+const TOKEN =
+  /\s*(?:(\d+(?:\.\d*)?(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?)|([a-z_]\w*)|(\*\*|[-+*/%^(),]))/iy;
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'name' | 'op'; value: string };
+
+const tokenize = (expression: string) => {
+  const tokens: Token[] = [];
+  TOKEN.lastIndex = 0;
+
+  while (TOKEN.lastIndex < expression.length) {
+    const start = TOKEN.lastIndex;
+    const match = TOKEN.exec(expression);
+    if (!match) {
+      if (!expression.slice(start).trim()) {
+        break;
+      }
+      throw new Error(`Unexpected character at position ${start + 1}`);
+    }
+    const [, number, name, op] = match;
+    if (number !== undefined) {
+      tokens.push({ type: 'number', value: Number(number) });
+    } else if (name !== undefined) {
+      tokens.push({ type: 'name', value: name.toLowerCase() });
+    } else {
+      tokens.push({ type: 'op', value: op === '**' ? '^' : op });
+    }
+  }
+  return tokens;
+};
+
+/**
+ * Evaluates an arithmetic expression without `eval`: numbers, `+ - * / % ^`
+ * (`**` works too), parentheses, the constants `pi` and `e`, and the
+ * functions in `FUNCTIONS`. `^` binds tighter than unary minus, so `-2^2`
+ * is -4.
+ *
+ * @throws Error on syntax errors, division by zero or a non-finite result
+ */
+export const evaluateExpression = (expression: string) => {
+  const tokens = tokenize(expression);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const isOp = (value: string) =>
+    peek()?.type === 'op' && peek().value === value;
+  const expect = (value: string) => {
+    if (!isOp(value)) {
+      throw new Error(`Expected "${value}"`);
+    }
+    position++;
+  };
+
+  const parseExpression = (): number => {
+    let value = parseTerm();
+    while (isOp('+') || isOp('-')) {
+      const op = tokens[position++].value;
+      const right = parseTerm();
+      value = op === '+' ? value + right : value - right;
+    }
+    return value;
+  };
+
+  const parseTerm = (): number => {
+    let value = parseUnary();
+    while (isOp('*') || isOp('/') || isOp('%')) {
+      const op = tokens[position++].value;
+      const right = parseUnary();
+      if (op !== '*' && right === 0) {
+        throw new Error('Division by zero');
+      }
+      value =
+        op === '*' ? value * right : op === '/' ? value / right : value % right;
+    }
+    return value;
+  };
+
+  const parseUnary = (): number => {
+    if (isOp('-') || isOp('+')) {
+      const op = tokens[position++].value;
+      const value = parseUnary();
+      return op === '-' ? -value : value;
+    }
+    return parsePower();
+  };
+
+  const parsePower = (): number => {
+    const base = parsePrimary();
+    if (isOp('^')) {
+      position++;
+      return Math.pow(base, parseUnary());
+    }
+    return base;
+  };
+
+  const parsePrimary = (): number => {
+    const token = tokens[position++];
+    if (!token) {
+      throw new Error('Unexpected end of expression');
+    }
+    if (token.type === 'number') {
+      return token.value;
+    }
+    if (token.type === 'op') {
+      if (token.value !== '(') {
+        throw new Error(`Unexpected "${token.value}"`);
+      }
+      const value = parseExpression();
+      expect(')');
+      return value;
+    }
+
+    const name = token.value;
+    if (!isOp('(')) {
+      const constant = CONSTANTS.get(name);
+      if (constant === undefined) {
+        throw new Error(`Unknown constant ${name}`);
+      }
+      return constant;
+    }
+    const fn = FUNCTIONS.get(name);
+    if (!fn) {
+      throw new Error(`Unknown function ${name}`);
+    }
+    position++;
+    const args = [parseExpression()];
+    while (isOp(',')) {
+      position++;
+      args.push(parseExpression());
+    }
+    expect(')');
+    return fn(...args);
+  };
+
+  const result = parseExpression();
+  if (position < tokens.length) {
+    throw new Error(`Unexpected "${tokens[position].value}"`);
+  }
+  if (!Number.isFinite(result)) {
+    throw new Error('The result is not a finite number');
+  }
+  return result;
+};
+
+export const calculatorTool = catalogTool({
+  name: 'calculator',
+  description: `Evaluates an arithmetic expression, e.g. "(2 + 3) * sqrt(16) / 4". Supports + - * / % ^, parentheses, pi, e and the functions ${[...FUNCTIONS.keys()].join(', ')}.`,
+  schema: z.object({
+    expression: z.string().min(1).max(500).describe('expression to evaluate'),
+  }),
+  tags: ['math'],
+  run: ({ expression }) => evaluateExpression(expression),
+});
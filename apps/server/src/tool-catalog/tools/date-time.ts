@@ -0,0 +1,136 @@
+import { z } from 'zod';
+import { catalogTool } from '../tool-catalog.service';
+
+const UNITS = [
+  'seconds',
+  'minutes',
+  'hours',
+  'days',
+  'weeks',
+  'months',
+  'years',
+] as const;
+
+type Unit = (typeof UNITS)[number];
+
+const MILLISECONDS: Record<Exclude<Unit, 'months' | 'years'>, number> = {
+  seconds: 1000,
+  minutes: 60 * 1000,
+  hours: 60 * 60 * 1000,
+  days: 24 * 60 * 60 * 1000,
+  weeks: 7 * 24 * 60 * 60 * 1000,
+};
+
+const amount = (unit: Unit) =>
+  z.number().int().optional().describe(`${unit} to add, negative to subtract`);
+
+export const parseDate = (value: string) => {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid date ${value}; use ISO 8601, e.g. 2024-05-31`);
+  }
+  return date;
+};
+
+/**
+ * Adds calendar months in UTC, clamping to the end of shorter months:
+ * January 31 plus one month is the last day of February.
+ */
+export const addMonths = (date: Date, months: number) => {
+  const result = new Date(date);
+  const day = result.getUTCDate();
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  const lastDay = new Date(
+    Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0),
+  ).getUTCDate();
+  result.setUTCDate(Math.min(day, lastDay));
+  return result;
+};
+
+/** Whole calendar months from `from` to `to`, negative when `to` is earlier. */
+export const monthsBetween = (from: Date, to: Date): number => {
+  if (to < from) {
+    return -monthsBetween(to, from);
+  }
+  let months =
+    (to.getUTCFullYear() - from.getUTCFullYear()) * 12 +
+    (to.getUTCMonth() - from.getUTCMonth());
+  if (addMonths(from, months) > to) {
+    months--;
+  }
+  return months;
+};
+
+export const dateTimeTools = [
+  catalogTool({
+    name: 'current_time',
+    description:
+      'Returns the current date and time, in UTC and in the given IANA time zone.',
+    schema: z.object({
+      timeZone: z
+        .string()
+        .default('UTC')
+        .describe('IANA time zone, e.g. Europe/Paris'),
+    }),
+    tags: ['time'],
+    run: ({ timeZone }) => {
+      const now = new Date();
+      return {
+        utc: now.toISOString(),
+        timeZone,
+        local: new Intl.DateTimeFormat('en-US', {
+          timeZone,
+          dateStyle: 'full',
+          timeStyle: 'long',
+        }).format(now),
+      };
+    },
+  }),
+  catalogTool({
+    name: 'date_add',
+    description:
+      'Adds (or with negative amounts subtracts) a duration to a date and returns the resulting ISO timestamp in UTC.',
+    schema: z.object({
+      date: z.string().describe('ISO 8601 date or timestamp'),
+      years: amount('years'),
+      months: amount('months'),
+      weeks: amount('weeks'),
+      days: amount('days'),
+      hours: amount('hours'),
+      minutes: amount('minutes'),
+      seconds: amount('seconds'),
+    }),
+    tags: ['time'],
+    run: ({ date, years = 0, months = 0, ...durations }) => {
+      const shifted = addMonths(parseDate(date), years * 12 + months);
+      const milliseconds = Object.entries(durations).reduce(
+        (total, [unit, value = 0]) =>
+          total + value * MILLISECONDS[unit as keyof typeof durations],
+        0,
+      );
+      return new Date(shifted.getTime() + milliseconds).toISOString();
+    },
+  }),
+  catalogTool({
+    name: 'date_diff',
+    description:
+      'Returns the time from one date to another in the given unit; months and years count whole calendar months and years.',
+    schema: z.object({
+      from: z.string().describe('ISO 8601 date or timestamp'),
+      to: z.string().describe('ISO 8601 date or timestamp'),
+      unit: z.enum(UNITS).default('days'),
+    }),
+    tags: ['time'],
+    run: ({ from, to, unit }) => {
+      const start = parseDate(from);
+      const end = parseDate(to);
+
+      if (unit === 'months' || unit === 'years') {
+        const months = monthsBetween(start, end);
+        return unit === 'months' ? months : Math.trunc(months / 12);
+      }
+      return (end.getTime() - start.getTime()) / MILLISECONDS[unit];
+    },
+  }),
+];
@@ -0,0 +1,90 @@
+import { z } from 'zod';
+import { catalogTool } from '../tool-catalog.service';
+
+type Segment = string | number | '*';
+
+const SEGMENT =
+  /\.([A-Za-z_$][\w$]*|\*)|\[(-?\d+|\*)\]|\[\s*'((?:[^'\\]|\\.)*)'\s*\]|\[\s*"((?:[^"\\]|\\.)*)"\s*\]/y;
+
+/**
+ * Parses a JSONPath-like path: `$.orders[0].total`, `items[*].name`,
+ * `$['key with spaces']`. The leading `$` is optional; negative indexes
+ * count from the end.
+ */
+export const parsePath = (path: string): Segment[] => {
+  let rest = path.trim().replace(/^\$/, '');
+  if (rest && !/^[.[]/.test(rest)) {
+    rest = `.${rest}`;
+  }
+
+  const segments: Segment[] = [];
+  SEGMENT.lastIndex = 0;
+  while (SEGMENT.lastIndex < rest.length) {
+    const start = SEGMENT.lastIndex;
+    const match = SEGMENT.exec(rest);
+    if (!match) {
+      throw new Error(`Invalid path at "${rest.slice(start)}"`);
+    }
+    const [, name, index, single, double] = match;
+    if (index !== undefined) {
+      segments.push(index === '*' ? '*' : Number(index));
+    } else {
+      segments.push(name ?? (single ?? double).replace(/\\(.)/g, '$1'));
+    }
+  }
+  return segments;
+};
+
+const children = (value: unknown, segment: Segment): unknown[] => {
+  if (value === null || typeof value !== 'object') {
+    return [];
+  }
+  if (segment === '*') {
+    return Object.values(value);
+  }
+  if (Array.isArray(value) && typeof segment === 'number') {
+    const item = value.at(segment);
+    return item === undefined ? [] : [item];
+  }
+  return Object.prototype.hasOwnProperty.call(value, segment)
+    ? [(value as Record<string, unknown>)[segment]]
+    : [];
+};
+
+/**
+ * Values of `data` at `path`. A path with a wildcard returns every match as
+ * an array; otherwise the single value is returned.
+ *
+ * @throws Error if a path without wildcard matches nothing
+ */
+export const queryJson = (data: unknown, path: string) => {
+  const segments = parsePath(path);
+  const matches = segments.reduce<unknown[]>(
+    (values, segment) => values.flatMap((value) => children(value, segment)),
+    [data],
+  );
+
+  if (segments.includes('*')) {
+    return matches;
+  }
+  if (!matches.length) {
+    throw new Error(`Nothing found at ${path}`);
+  }
+  return matches[0];
+};
+
+export const jsonQueryTool = catalogTool({
+  name: 'json_query',
+  description:
+    'Looks up values in the JSON data provided with the request, by path: "$.orders[0].total", "$.orders[*].id", "$.orders[-1]" or "$" for everything.',
+  schema: z.object({
+    path: z.string().min(1).max(500).describe('path of the values to return'),
+  }),
+  tags: ['data'],
+  run: ({ path }, { data }) => {
+    if (data === undefined) {
+      throw new Error('No data was provided with this request');
+    }
+    return queryJson(data, path);
+  },
+});
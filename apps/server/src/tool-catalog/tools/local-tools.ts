@@ -0,0 +1,12 @@
+import { arithmeticTools } from './arithmetic';
+import { calculatorTool } from './calculator';
+import { dateTimeTools } from './date-time';
+import { jsonQueryTool } from './json-query';
+
+/** Tools that run in process and need no permissions. */
+export const localTools = [
+  ...arithmeticTools,
+  calculatorTool,
+  ...dateTimeTools,
+  jsonQueryTool,
+];
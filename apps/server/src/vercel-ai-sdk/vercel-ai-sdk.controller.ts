@@ -1,37 +1,50 @@
-import { Controller, Post, Res } from '@nestjs/common';
+import { Body, Controller, Post, Res } from '@nestjs/common';
 import { VercelAiSdkService } from './vercel-ai-sdk.service';
 import { Response } from 'express';
 import { pipeDataStreamToResponse, streamText } from 'ai';
-import { anthropic } from '@ai-sdk/anthropic';
+import { ModelSpec, ModelSpecSchema } from '@repo/api';
+import { LlmProviderService } from '../llm-provider/llm-provider.service';
+import { ZodValidationPipe } from '../common/pipes/zod-validation.pipe';
+
+const ModelOverridePipe = new ZodValidationPipe(ModelSpecSchema.optional());
 
 @Controller('vercel-ai-sdk')
 export class VercelAiSdkController {
-  constructor(private readonly vercelAiSdkService: VercelAiSdkService) {}
+  constructor(
+    private readonly vercelAiSdkService: VercelAiSdkService,
+    private readonly llmProvider: LlmProviderService,
+  ) {}
 
   @Post('example')
-  async example(@Res() res: Response) {
+  async example(
+    @Body('model', ModelOverridePipe) model: ModelSpec | undefined,
+    @Res() res: Response,
+  ) {
     const result = streamText({
-      model: anthropic('claude-3-haiku-20240307'),
+      model: this.llmProvider.languageModel('vercelAiSdk', model),
       prompt: 'Invent a new holiday and describe its traditions.',
     });
 
-    result.pipeDataStreamToResponse(res)
+    result.pipeDataStreamToResponse(res);
   }
 
   @Post('/stream-data')
-  async streamData(@Res() res: Response) {
+  async streamData(
+    @Body('model', ModelOverridePipe) model: ModelSpec | undefined,
+    @Res() res: Response,
+  ) {
     pipeDataStreamToResponse(res, {
-      execute: async dataStreamWriter => {
+      execute: async (dataStreamWriter) => {
         dataStreamWriter.writeData('initialized call');
 
         const result = streamText({
-          model: anthropic('claude-3-haiku-20240307'),
+          model: this.llmProvider.languageModel('vercelAiSdk', model),
           prompt: 'Invent a new holiday and describe its traditions.',
         });
 
         result.mergeIntoDataStream(dataStreamWriter);
       },
-      onError: error => {
+      onError: (error) => {
         // Error messages are masked by default for security reasons.
         // If you want to expose the error message to the client, you can do so here:
         return error instanceof Error ? error.message : String(error);
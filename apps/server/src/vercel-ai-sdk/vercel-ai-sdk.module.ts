@@ -1,8 +1,10 @@
 import { Module } from '@nestjs/common';
 import { VercelAiSdkService } from './vercel-ai-sdk.service';
 import { VercelAiSdkController } from './vercel-ai-sdk.controller';
+import { LlmProviderModule } from '../llm-provider/llm-provider.module';
 
 @Module({
+  imports: [LlmProviderModule],
   controllers: [VercelAiSdkController],
   providers: [VercelAiSdkService],
 })
@@ -0,0 +1,192 @@
+import { z, ZodTypeAny } from 'zod';
+import {
+  Annotation,
+  BinaryOperator,
+  END,
+  Send,
+  START,
+  StateDefinition,
+  StateGraph,
+} from '@langchain/langgraph';
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { HumanMessage, SystemMessage } from '@langchain/core/messages';
+import {
+  ModelSpecSchema,
+  nextNodes,
+  renderTemplate,
+  valueAtPath,
+  WORKFLOW_END,
+  WorkflowDefinitionDto,
+  WorkflowNodeDto,
+  WorkflowStateFieldDto,
+} from '@repo/api';
+import { AnyCompiledGraph } from '../common/graph-stream';
+import {
+  JsonSchema,
+  jsonSchemaToZodObject,
+} from '../common/json-schema-to-zod';
+
+type Values = Record<string, unknown>;
+
+/** A graph whose node names are only known at runtime. */
+type WorkflowGraph = StateGraph<StateDefinition, Values, Values, string>;
+
+// Field types are checked against reducers when the definition is validated
+const REDUCERS: Record<
+  WorkflowStateFieldDto['reducer'],
+  BinaryOperator<unknown, unknown>
+> = {
+  replace: (_, update) => update,
+  append: (list, update) => (list as unknown[]).concat(update),
+  sum: (total, update) => (total as number) + (update as number),
+  merge: (object, update) => ({ ...(object as Values), ...(update as Values) }),
+};
+
+const INITIAL_VALUES: Record<WorkflowStateFieldDto['reducer'], unknown> = {
+  replace: undefined,
+  append: [],
+  sum: 0,
+  merge: {},
+};
+
+const INPUT_TYPES: Record<WorkflowStateFieldDto['type'], () => ZodTypeAny> = {
+  string: () => z.string().trim().min(1),
+  number: () => z.number(),
+  boolean: () => z.boolean(),
+  array: () => z.array(z.unknown()),
+  object: () => z.record(z.unknown()),
+};
+
+const endpoint = (name: string) => (name === WORKFLOW_END ? END : name);
+
+/** Input a run of the workflow is started with. */
+export const workflowInputSchema = ({ input, state }: WorkflowDefinitionDto) =>
+  z.object({
+    ...Object.fromEntries(
+      input.map((field) => {
+        const { type, description } = state[field];
+        const schema = INPUT_TYPES[type]();
+        return [field, description ? schema.describe(description) : schema];
+      }),
+    ),
+    model: ModelSpecSchema.optional(),
+  });
+
+const stateAnnotation = (state: WorkflowDefinitionDto['state']) =>
+  Annotation.Root(
+    Object.fromEntries(
+      Object.entries(state).map(([field, { reducer, default: value }]) => [
+        field,
+        Annotation<unknown>({
+          reducer: REDUCERS[reducer],
+          default: () => structuredClone(value ?? INITIAL_VALUES[reducer]),
+        }),
+      ]),
+    ),
+  );
+
+const nodeAction = (
+  name: string,
+  node: WorkflowNodeDto,
+  llm: BaseChatModel,
+) => {
+  if (node.type === 'template') {
+    return (values: Values) => ({
+      [node.output]: renderTemplate(node.template, values),
+    });
+  }
+
+  const messages = (values: Values) => [
+    ...(node.system
+      ? [new SystemMessage(renderTemplate(node.system, values))]
+      : []),
+    new HumanMessage(renderTemplate(node.prompt, values)),
+  ];
+
+  if (node.schema) {
+    const properties = Object.keys(node.schema.properties as object);
+    const structuredLlm = llm.withStructuredOutput(
+      jsonSchemaToZodObject(node.schema as JsonSchema),
+      { name },
+    );
+
+    // Only the declared properties are state updates
+    return async (values: Values) => {
+      const answer: Values = await structuredLlm.invoke(messages(values));
+      return Object.fromEntries(
+        properties
+          .filter((property) => property in answer)
+          .map((property) => [property, answer[property]]),
+      );
+    };
+  }
+
+  return async (values: Values) => {
+    const message = await llm.invoke(messages(values));
+    return { [node.output!]: message.content };
+  };
+};
+
+const addNext = (
+  graph: WorkflowGraph,
+  name: string,
+  { next }: WorkflowNodeDto,
+) => {
+  if (typeof next === 'string' || Array.isArray(next)) {
+    for (const target of [next].flat()) {
+      graph.addEdge(name, endpoint(target));
+    }
+  } else if ('route' in next) {
+    const { field, cases, default: fallback } = next.route;
+    graph.addConditionalEdges(
+      name,
+      (state: Values) => {
+        const value = valueAtPath(state, field);
+        const target = cases[String(value)] ?? fallback;
+        if (!target) {
+          throw new Error(
+            `Node ${name} has no route for ${field} = ${JSON.stringify(value)}`,
+          );
+        }
+        return endpoint(target);
+      },
+      nextNodes(next).map(endpoint),
+    );
+  } else {
+    const { over, to, as } = next.fanOut;
+    graph.addConditionalEdges(
+      name,
+      // Each run of `to` sees the state plus its item
+      (state: Values) =>
+        ((valueAtPath(state, over) as unknown[] | undefined) ?? []).map(
+          (item) => new Send(to, { ...state, [as]: item }),
+        ),
+      [to],
+    );
+  }
+};
+
+/**
+ * Builds the `StateGraph` of a definition. The definition is expected to
+ * have been validated with `WorkflowDefinitionSchema`.
+ */
+export const compileWorkflow = (
+  definition: WorkflowDefinitionDto,
+  llm: BaseChatModel,
+): AnyCompiledGraph => {
+  const graph = new StateGraph(
+    stateAnnotation(definition.state),
+  ) as unknown as WorkflowGraph;
+
+  for (const [name, node] of Object.entries(definition.nodes)) {
+    graph.addNode(name, nodeAction(name, node, llm));
+  }
+  for (const name of [definition.start].flat()) {
+    graph.addEdge(START, name);
+  }
+  for (const [name, node] of Object.entries(definition.nodes)) {
+    addNext(graph, name, node);
+  }
+
+  return graph.compile();
+};
@@ -0,0 +1,77 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  Post,
+  Put,
+  Res,
+} from '@nestjs/common';
+import { Response } from 'express';
+import { WorkflowDefinitionDto, WorkflowDefinitionSchema } from '@repo/api';
+import { WorkflowDefinitionService } from './workflow-definition.service';
+import { ZodValidationPipe } from '../common/pipes/zod-validation.pipe';
+import { pipeEventStream } from '../common/event-stream';
+
+@Controller('workflow-definitions')
+export class WorkflowDefinitionController {
+  constructor(
+    private readonly workflowDefinitionService: WorkflowDefinitionService,
+  ) {}
+
+  @Get()
+  list() {
+    return this.workflowDefinitionService.list();
+  }
+
+  @Get(':name')
+  get(@Param('name') name: string) {
+    return this.workflowDefinitionService.get(name);
+  }
+
+  /**
+   * Registers a new workflow. Validation errors name the offending field,
+   * e.g. `nodes.write.prompt`.
+   */
+  @Post()
+  create(
+    @Body(new ZodValidationPipe(WorkflowDefinitionSchema))
+    body: WorkflowDefinitionDto,
+  ) {
+    return this.workflowDefinitionService.create(body);
+  }
+
+  @Put(':name')
+  update(
+    @Param('name') name: string,
+    @Body(new ZodValidationPipe(WorkflowDefinitionSchema))
+    body: WorkflowDefinitionDto,
+  ) {
+    return this.workflowDefinitionService.update(name, body);
+  }
+
+  @Delete(':name')
+  @HttpCode(204)
+  remove(@Param('name') name: string) {
+    this.workflowDefinitionService.remove(name);
+  }
+
+  /** Runs the workflow with the input fields it declares. */
+  @Post(':name/run')
+  run(@Param('name') name: string, @Body() body: unknown) {
+    return this.workflowDefinitionService.run(name, body);
+  }
+
+  @Post(':name/stream')
+  stream(
+    @Param('name') name: string,
+    @Body() body: unknown,
+    @Res() res: Response,
+  ) {
+    return pipeEventStream(res, (signal) =>
+      this.workflowDefinitionService.stream(name, body, signal),
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { LlmProviderModule } from '../llm-provider/llm-provider.module';
+import { LlmProviderService } from '../llm-provider/llm-provider.service';
+import { GraphRegistryModule } from '../graph-registry/graph-registry.module';
+import { GraphRegistryService } from '../graph-registry/graph-registry.service';
+import { RunHistoryModule } from '../run-history/run-history.module';
+import { RunHistoryService } from '../run-history/run-history.service';
+import { WorkflowDefinitionService } from './workflow-definition.service';
+import { WorkflowDefinitionController } from './workflow-definition.controller';
+
+@Module({
+  imports: [
+    ConfigModule,
+    LlmProviderModule,
+    GraphRegistryModule,
+    RunHistoryModule,
+  ],
+  controllers: [WorkflowDefinitionController],
+  providers: [
+    {
+      provide: WorkflowDefinitionService,
+      inject: [
+        ConfigService,
+        GraphRegistryService,
+        LlmProviderService,
+        RunHistoryService,
+      ],
+      useFactory: (
+        configService: ConfigService,
+        graphRegistry: GraphRegistryService,
+        llmProvider: LlmProviderService,
+        runHistory: RunHistoryService,
+      ) =>
+        // an empty `WORKFLOW_DEFINITIONS_DIR` keeps definitions in memory only
+        new WorkflowDefinitionService(
+          configService.get('WORKFLOW_DEFINITIONS_DIR', 'data/workflows') ||
+            undefined,
+          graphRegistry,
+          llmProvider,
+          runHistory,
+        ),
+    },
+  ],
+})
+export class WorkflowDefinitionModule {}
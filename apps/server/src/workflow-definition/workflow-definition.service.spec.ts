@@ -0,0 +1,336 @@
+import { mkdtemp, readFile, readdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Test } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  afterEach,
+  jest,
+} from '@jest/globals';
+import { BaseMessage } from '@langchain/core/messages';
+import { stringify } from 'yaml';
+import { WorkflowDefinitionSchema } from '@repo/api';
+import {
+  parseWorkflowDefinition,
+  WorkflowDefinitionService,
+} from './workflow-definition.service';
+import { GraphRegistryService } from '../graph-registry/graph-registry.service';
+import { LlmProviderService } from '../llm-provider/llm-provider.service';
+import { RunHistoryService } from '../run-history/run-history.service';
+import { FakeChatModel } from '../llm-provider/fake/fake-chat-model';
+
+const report = {
+  name: 'report',
+  description: 'Plans sections, writes each one and joins them.',
+  input: ['topic'],
+  state: {
+    topic: { type: 'string' },
+    sections: { type: 'array' },
+    drafts: { type: 'array', reducer: 'append' },
+    report: { type: 'string' },
+    verdict: { type: 'string' },
+  },
+  start: 'plan',
+  nodes: {
+    plan: {
+      type: 'llm',
+      prompt: 'Plan a report on {{ topic }}',
+      schema: {
+        type: 'object',
+        properties: {
+          sections: { type: 'array', items: { type: 'string' } },
+        },
+        required: ['sections'],
+      },
+      next: { fanOut: { over: 'sections', to: 'write', as: 'section' } },
+    },
+    write: {
+      type: 'llm',
+      prompt: 'Write the {{ section }} section of a report on {{ topic }}',
+      output: 'drafts',
+      next: 'join',
+    },
+    join: { type: 'template', template: '{{ drafts }}', output: 'report' },
+  },
+};
+
+const prompt = (messages: BaseMessage[]) =>
+  String(messages[messages.length - 1]?.content);
+
+describe('WorkflowDefinitionService', () => {
+  let directory: string;
+  let service: WorkflowDefinitionService;
+  let registry: GraphRegistryService;
+  let llm: FakeChatModel;
+
+  const init = async () => {
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        GraphRegistryService,
+        {
+          provide: RunHistoryService,
+          useFactory: () => new RunHistoryService(':memory:').open(),
+        },
+        { provide: LlmProviderService, useValue: { chatModel: () => llm } },
+        {
+          provide: WorkflowDefinitionService,
+          inject: [GraphRegistryService, LlmProviderService, RunHistoryService],
+          useFactory: (
+            graphRegistry: GraphRegistryService,
+            llmProvider: LlmProviderService,
+            runHistory: RunHistoryService,
+          ) =>
+            new WorkflowDefinitionService(
+              directory,
+              graphRegistry,
+              llmProvider,
+              runHistory,
+            ),
+        },
+      ],
+    }).compile();
+    await moduleRef.init();
+
+    service = moduleRef.get(WorkflowDefinitionService);
+    registry = moduleRef.get(GraphRegistryService);
+  };
+
+  const define = (definition: object = report) =>
+    service.create(WorkflowDefinitionSchema.parse(definition));
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'workflow-definitions-'));
+    llm = new FakeChatModel({
+      responses: [
+        { json: { sections: ['intro', 'outlook'] } },
+        (messages) => `Draft of ${prompt(messages).split(' ')[2]}`,
+        (messages) => `Draft of ${prompt(messages).split(' ')[2]}`,
+      ],
+    });
+    await init();
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('fans out over a structured plan and joins the results', async () => {
+    define();
+
+    const state = await service.run('report', { topic: 'tides' });
+
+    expect(state.sections).toEqual(['intro', 'outlook']);
+    expect(state.drafts).toEqual(['Draft of intro', 'Draft of outlook']);
+    expect(state.report).toBe('Draft of intro\n\nDraft of outlook');
+    expect(prompt(llm.calls[0] ?? [])).toBe('Plan a report on tides');
+  });
+
+  it('routes on a state value and fails a run with no matching route', async () => {
+    define({
+      ...report,
+      name: 'reviewed-report',
+      nodes: {
+        ...report.nodes,
+        join: { ...report.nodes.join, next: 'review' },
+        review: {
+          type: 'llm',
+          prompt: 'Answer yes or no: is this good? {{ report }}',
+          output: 'verdict',
+          next: { route: { field: 'verdict', cases: { yes: '__end__' } } },
+        },
+      },
+    });
+    llm = new FakeChatModel({
+      responses: [{ json: { sections: ['intro'] } }, 'Draft', 'yes'],
+    });
+
+    await expect(
+      service.run('reviewed-report', { topic: 'tides' }),
+    ).resolves.toMatchObject({ report: 'Draft', verdict: 'yes' });
+
+    llm = new FakeChatModel({
+      responses: [{ json: { sections: ['intro'] } }, 'Draft', 'maybe'],
+    });
+    await expect(
+      service.run('reviewed-report', { topic: 'tides' }),
+    ).rejects.toThrow('Node review has no route for verdict = "maybe"');
+  });
+
+  it('registers definitions as graphs that stream', async () => {
+    define();
+
+    expect(registry.list()).toContainEqual({
+      name: 'report',
+      description: report.description,
+    });
+    const events = [];
+    for await (const event of registry
+      .get('report')
+      .stream({ topic: 'tides' }, new AbortController().signal)) {
+      events.push(event);
+    }
+    expect(events).toContainEqual({
+      event: 'update',
+      data: {
+        node: 'join',
+        update: { report: 'Draft of intro\n\nDraft of outlook' },
+      },
+    });
+    expect(events.at(-1)).toMatchObject({
+      event: 'done',
+      data: { state: expect.objectContaining({ topic: 'tides' }) },
+    });
+  });
+
+  it('rejects input that does not match the declared fields', () => {
+    define();
+
+    expect(() => service.run('report', { topic: ' ' })).toThrow(
+      BadRequestException,
+    );
+    expect(() => service.run('report', {})).toThrow(
+      'Invalid input for report: topic: Required',
+    );
+  });
+
+  it('saves, updates and removes definition files', async () => {
+    define();
+    const path = join(directory, 'report.yaml');
+    expect(parseWorkflowDefinition(await readFile(path, 'utf8'), path)).toEqual(
+      service.get('report'),
+    );
+
+    service.update(
+      'report',
+      WorkflowDefinitionSchema.parse({ ...report, description: 'Updated' }),
+    );
+    expect(await readFile(path, 'utf8')).toContain('description: Updated');
+    expect(registry.get('report').description).toBe('Updated');
+
+    expect(() =>
+      service.update(
+        'report',
+        WorkflowDefinitionSchema.parse({ ...report, name: 'renamed' }),
+      ),
+    ).toThrow(BadRequestException);
+
+    service.remove('report');
+    expect(await readdir(directory)).toEqual([]);
+    expect(registry.find('report')).toBeUndefined();
+    expect(() => service.get('report')).toThrow(NotFoundException);
+  });
+
+  it('refuses a name another graph already has', () => {
+    define();
+
+    expect(() => define()).toThrow(ConflictException);
+  });
+
+  it('never overwrites a file it did not load', async () => {
+    const path = join(directory, 'report.yaml');
+    await writeFile(path, 'name: [unclosed\n');
+
+    expect(() => define()).toThrow(ConflictException);
+    expect(await readFile(path, 'utf8')).toBe('name: [unclosed\n');
+    expect(registry.find('report')).toBeUndefined();
+  });
+
+  it('keeps the saved definition when an update does not compile', async () => {
+    define();
+    const path = join(directory, 'report.yaml');
+    const saved = await readFile(path, 'utf8');
+    jest.spyOn(service['llmProvider'], 'chatModel').mockImplementation(() => {
+      throw new BadRequestException('Unknown provider nope');
+    });
+
+    expect(() =>
+      service.update(
+        'report',
+        WorkflowDefinitionSchema.parse({ ...report, model: 'nope:model' }),
+      ),
+    ).toThrow('Unknown provider nope');
+    expect(await readFile(path, 'utf8')).toBe(saved);
+    expect(service.get('report').model).toBeUndefined();
+  });
+
+  it('loads definition files at startup and skips invalid ones', async () => {
+    const logged = jest
+      .spyOn(service['logger'], 'error')
+      .mockImplementation(() => undefined);
+    await writeFile(join(directory, 'report.yaml'), stringify(report));
+    await writeFile(
+      join(directory, 'copy.json'),
+      JSON.stringify({ ...report, name: 'copy' }),
+    );
+    await writeFile(join(directory, 'broken.yml'), 'name: [unclosed\n');
+    await writeFile(join(directory, 'notes.txt'), 'ignored');
+
+    service.onModuleInit();
+
+    expect(service.list().map(({ name }) => name)).toEqual(['copy', 'report']);
+    expect(logged).toHaveBeenCalledWith(
+      expect.stringContaining('broken.yml at line'),
+    );
+  });
+
+  describe('validation', () => {
+    const issues = (definition: object) => {
+      const parsed = WorkflowDefinitionSchema.safeParse(definition);
+      return parsed.success
+        ? []
+        : parsed.error.issues.map(({ path }) => path.join('.'));
+    };
+
+    it('accepts the example definition', () => {
+      expect(issues(report)).toEqual([]);
+    });
+
+    it('names the node field that refers to an unknown state field', () => {
+      expect(
+        issues({
+          ...report,
+          nodes: {
+            ...report.nodes,
+            write: { ...report.nodes.write, prompt: 'Write {{ chapter }}' },
+          },
+        }),
+      ).toEqual(['nodes.write.prompt']);
+    });
+
+    it('reports unknown targets and nodes that can never run', () => {
+      expect(
+        issues({
+          ...report,
+          nodes: {
+            ...report.nodes,
+            join: { ...report.nodes.join, next: 'publish' },
+            orphan: { type: 'template', template: '', output: 'report' },
+          },
+        }),
+      ).toEqual(['nodes.join.next', 'nodes.orphan']);
+    });
+
+    it('reports a YAML syntax error with its line', () => {
+      expect(() =>
+        parseWorkflowDefinition('name: report\nstate: [\n', 'report.yaml'),
+      ).toThrow(/^report\.yaml at line \d+:/);
+    });
+
+    it('reports schema errors with the file name', () => {
+      expect(() =>
+        parseWorkflowDefinition(
+          stringify({ ...report, recursionLimit: 0 }),
+          'report.yaml',
+        ),
+      ).toThrow(/^report\.yaml: recursionLimit/);
+    });
+  });
+});
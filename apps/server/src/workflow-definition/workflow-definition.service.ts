@@ -0,0 +1,295 @@
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'fs';
+import { dirname, extname, join } from 'path';
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { parse, stringify, YAMLParseError } from 'yaml';
+import { z } from 'zod';
+import {
+  WorkflowDefinitionDto,
+  WorkflowDefinitionSchema,
+  WorkflowStreamEvent,
+} from '@repo/api';
+import {
+  GraphRegistryService,
+  registeredGraph,
+} from '../graph-registry/graph-registry.service';
+import { LlmProviderService } from '../llm-provider/llm-provider.service';
+import { RunHistoryService } from '../run-history/run-history.service';
+import { streamGraphEvents } from '../common/graph-stream';
+import { formatIssues } from '../common/format-issues';
+import { compileWorkflow, workflowInputSchema } from './workflow-compiler';
+
+const DEFINITION_FILE = /\.(ya?ml|json)$/;
+
+type WorkflowInput = z.infer<ReturnType<typeof workflowInputSchema>>;
+
+/**
+ * Parses a YAML or JSON workflow definition (JSON is valid YAML).
+ *
+ * @throws Error naming `source` and the line or field that is wrong
+ */
+export const parseWorkflowDefinition = (text: string, source: string) => {
+  let value: unknown;
+  try {
+    value = parse(text);
+  } catch (error) {
+    const line =
+      error instanceof YAMLParseError && error.linePos
+        ? ` at line ${error.linePos[0].line}`
+        : '';
+    throw new Error(
+      `${source}${line}: ${error instanceof Error ? error.message : error}`,
+    );
+  }
+
+  const parsed = WorkflowDefinitionSchema.safeParse(value);
+  if (!parsed.success) {
+    throw new Error(`${source}: ${formatIssues(parsed.error)}`);
+  }
+  return parsed.data;
+};
+
+/**
+ * Workflows defined as data rather than code. Definitions are loaded from
+ * the `.yaml`, `.yml` and `.json` files of a directory at startup; the ones
+ * created through the API are saved there as YAML. Every definition is
+ * registered in the graph registry, so it can be streamed and inspected like
+ * the built-in workflows. Without a directory definitions live in memory.
+ */
+@Injectable()
+export class WorkflowDefinitionService implements OnModuleInit {
+  private readonly logger = new Logger(WorkflowDefinitionService.name);
+
+  /** Definitions by name, with the file each one is saved in. */
+  private readonly definitions = new Map<
+    string,
+    { definition: WorkflowDefinitionDto; path?: string }
+  >();
+
+  constructor(
+    private readonly dir: string | undefined,
+    private readonly graphRegistry: GraphRegistryService,
+    private readonly llmProvider: LlmProviderService,
+    private readonly runHistory: RunHistoryService,
+  ) {}
+
+  /**
+   * Loads the definition files. A file that is invalid or clashes with
+   * another graph is logged and skipped rather than aborting startup.
+   */
+  onModuleInit() {
+    if (!this.dir || !existsSync(this.dir)) {
+      return;
+    }
+
+    const files = readdirSync(this.dir)
+      .filter((file) => DEFINITION_FILE.test(file))
+      .sort();
+    for (const file of files) {
+      const path = join(this.dir, file);
+      try {
+        this.register(
+          parseWorkflowDefinition(readFileSync(path, 'utf8'), file),
+          path,
+        );
+      } catch (error) {
+        this.logger.error(
+          `Skipped ${path}: ${error instanceof Error ? error.message : error}`,
+        );
+      }
+    }
+    this.logger.log(
+      `Loaded ${this.definitions.size} workflow definitions from ${this.dir}`,
+    );
+  }
+
+  list() {
+    return [...this.definitions.values()].map(({ definition }) => definition);
+  }
+
+  /**
+   * @throws NotFoundException if no definition has that name
+   */
+  get(name: string) {
+    return this.stored(name).definition;
+  }
+
+  /**
+   * @throws ConflictException if a graph with that name already exists, or
+   * its file does (e.g. a definition skipped at startup)
+   */
+  create(definition: WorkflowDefinitionDto) {
+    const path = this.dir && join(this.dir, `${definition.name}.yaml`);
+    if (this.graphRegistry.find(definition.name)) {
+      throw new ConflictException(
+        `A graph named ${definition.name} already exists`,
+      );
+    }
+    // Only files of registered definitions are ever rewritten
+    if (path && existsSync(path)) {
+      throw new ConflictException(
+        `${path} already exists and does not hold the ${definition.name} definition`,
+      );
+    }
+
+    this.build(definition);
+    this.save(definition, path);
+    this.register(definition, path);
+    return definition;
+  }
+
+  /**
+   * @throws NotFoundException if no definition has that name
+   * @throws BadRequestException if the definition is named differently
+   */
+  update(name: string, definition: WorkflowDefinitionDto) {
+    const { path } = this.stored(name);
+    if (definition.name !== name) {
+      throw new BadRequestException(
+        `Cannot rename ${name} to ${definition.name}; create a new definition instead`,
+      );
+    }
+
+    // Compiled before anything is written, so a failure leaves the old one
+    this.build(definition);
+    this.save(definition, path);
+    this.unregister(name);
+    this.register(definition, path);
+    return definition;
+  }
+
+  /**
+   * @throws NotFoundException if no definition has that name
+   */
+  remove(name: string) {
+    const { path } = this.stored(name);
+    this.unregister(name);
+    if (path) {
+      rmSync(path, { force: true });
+    }
+  }
+
+  /**
+   * Runs a workflow to completion and returns its final state.
+   *
+   * @throws NotFoundException if no definition has that name
+   * @throws BadRequestException if the input does not match the definition
+   */
+  run(name: string, input: unknown) {
+    const definition = this.get(name);
+    const { model, ...values } = this.parseInput(definition, input);
+
+    return this.build(definition, model).invoke(
+      values,
+      this.config(definition),
+    );
+  }
+
+  /**
+   * Streams a run of a workflow.
+   *
+   * @throws NotFoundException if no definition has that name
+   * @throws BadRequestException if the input does not match the definition
+   */
+  stream(name: string, input: unknown, signal?: AbortSignal) {
+    const definition = this.get(name);
+    return this.streamRun(
+      definition,
+      this.parseInput(definition, input),
+      signal,
+    );
+  }
+
+  private streamRun(
+    definition: WorkflowDefinitionDto,
+    { model, ...values }: WorkflowInput,
+    signal?: AbortSignal,
+  ): AsyncGenerator<WorkflowStreamEvent> {
+    return streamGraphEvents(
+      this.build(definition, model),
+      values,
+      this.config(definition, signal),
+    );
+  }
+
+  private build(definition: WorkflowDefinitionDto, model?: string) {
+    return compileWorkflow(
+      definition,
+      this.llmProvider.chatModel('workflow', model ?? definition.model),
+    );
+  }
+
+  /** Records the run in the run history under the workflow's name. */
+  private config(
+    { name, recursionLimit }: WorkflowDefinitionDto,
+    signal?: AbortSignal,
+  ) {
+    return {
+      signal,
+      callbacks: [this.runHistory.tracer(name, signal)],
+      recursionLimit,
+    };
+  }
+
+  private parseInput(definition: WorkflowDefinitionDto, input: unknown) {
+    const parsed = workflowInputSchema(definition).safeParse(input);
+    if (!parsed.success) {
+      throw new BadRequestException(
+        `Invalid input for ${definition.name}: ${formatIssues(parsed.error)}`,
+      );
+    }
+    return parsed.data;
+  }
+
+  private stored(name: string) {
+    const stored = this.definitions.get(name);
+    if (!stored) {
+      throw new NotFoundException(`No workflow definition named ${name}`);
+    }
+    return stored;
+  }
+
+  private register(definition: WorkflowDefinitionDto, path?: string) {
+    this.graphRegistry.register(
+      registeredGraph({
+        name: definition.name,
+        description: definition.description,
+        schema: workflowInputSchema(definition),
+        build: () => this.build(definition),
+        stream: (input, signal) => this.streamRun(definition, input, signal),
+      }),
+    );
+    this.definitions.set(definition.name, { definition, path });
+  }
+
+  private unregister(name: string) {
+    this.graphRegistry.unregister(name);
+    this.definitions.delete(name);
+  }
+
+  private save(definition: WorkflowDefinitionDto, path?: string) {
+    if (!path) {
+      return;
+    }
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(
+      path,
+      extname(path) === '.json'
+        ? `${JSON.stringify(definition, null, 2)}\n`
+        : stringify(definition),
+    );
+  }
+}
@@ -1,51 +1,137 @@
+import { Controller, Post, Body, Res } from '@nestjs/common';
+import { Response } from 'express';
 import {
-  Controller,
-  Get,
-  Post,
-  Body,
-  Patch,
-  Param,
-  Delete,
-  Req,
-} from '@nestjs/common';
+  AgentDto,
+  AgentSchema,
+  AugmentedLlmDto,
+  AugmentedLlmSchema,
+  EvaluatorOptimizerDto,
+  EvaluatorOptimizerSchema,
+  OrchestratorWorkerDto,
+  OrchestratorWorkerSchema,
+  ParallelizationDto,
+  ParallelizationSchema,
+  PromptChainDto,
+  PromptChainSchema,
+  RoutingDto,
+  RoutingSchema,
+} from '@repo/api';
 import { WorkflowService } from './workflow.service';
+import { ZodValidationPipe } from '../common/pipes/zod-validation.pipe';
+import { pipeEventStream } from '../common/event-stream';
 
 @Controller('workflow')
 export class WorkflowController {
   constructor(private readonly workflowService: WorkflowService) {}
 
-  @Get('augmented-llm')
-  augmentedLLM() {
-    return this.workflowService.augmentedLLM();
+  @Post('augmented-llm')
+  augmentedLLM(
+    @Body(new ZodValidationPipe(AugmentedLlmSchema)) body: AugmentedLlmDto,
+  ) {
+    return this.workflowService.augmentedLLM(body);
   }
 
-  @Get('prompt-chain')
-  promptChain() {
-    return this.workflowService.promptChain();
+  @Post('prompt-chain')
+  promptChain(
+    @Body(new ZodValidationPipe(PromptChainSchema)) body: PromptChainDto,
+  ) {
+    return this.workflowService.promptChain(body);
   }
 
-  @Get('parallelization')
-  parallelization() {
-    return this.workflowService.parallelization();
+  @Post('prompt-chain/stream')
+  streamPromptChain(
+    @Body(new ZodValidationPipe(PromptChainSchema)) body: PromptChainDto,
+    @Res() res: Response,
+  ) {
+    return pipeEventStream(res, (signal) =>
+      this.workflowService.streamPromptChain(body, signal),
+    );
   }
 
-  @Get('routing')
-  routing(@Body() body: { input: string }) {
-    return this.workflowService.routing(body.input);
+  @Post('parallelization')
+  parallelization(
+    @Body(new ZodValidationPipe(ParallelizationSchema))
+    body: ParallelizationDto,
+  ) {
+    return this.workflowService.parallelization(body);
   }
 
-  @Get('orchestrator-worker')
-  orchestratorWorker() {
-    return this.workflowService.orchestratorWorker();
+  @Post('parallelization/stream')
+  streamParallelization(
+    @Body(new ZodValidationPipe(ParallelizationSchema))
+    body: ParallelizationDto,
+    @Res() res: Response,
+  ) {
+    return pipeEventStream(res, (signal) =>
+      this.workflowService.streamParallelization(body, signal),
+    );
   }
 
-  @Get('evaluator-optimizer')
-  evaluatorOptimizer() {
-    return this.workflowService.evaluatorOptimizer();
+  @Post('routing')
+  routing(@Body(new ZodValidationPipe(RoutingSchema)) body: RoutingDto) {
+    return this.workflowService.routing(body);
   }
 
-  @Get('agent')
-  agebt() {
-    return this.workflowService.agent();
+  @Post('routing/stream')
+  streamRouting(
+    @Body(new ZodValidationPipe(RoutingSchema)) body: RoutingDto,
+    @Res() res: Response,
+  ) {
+    return pipeEventStream(res, (signal) =>
+      this.workflowService.streamRouting(body, signal),
+    );
+  }
+
+  @Post('orchestrator-worker')
+  orchestratorWorker(
+    @Body(new ZodValidationPipe(OrchestratorWorkerSchema))
+    body: OrchestratorWorkerDto,
+  ) {
+    return this.workflowService.orchestratorWorker(body);
+  }
+
+  @Post('orchestrator-worker/stream')
+  streamOrchestratorWorker(
+    @Body(new ZodValidationPipe(OrchestratorWorkerSchema))
+    body: OrchestratorWorkerDto,
+    @Res() res: Response,
+  ) {
+    return pipeEventStream(res, (signal) =>
+      this.workflowService.streamOrchestratorWorker(body, signal),
+    );
+  }
+
+  @Post('evaluator-optimizer')
+  evaluatorOptimizer(
+    @Body(new ZodValidationPipe(EvaluatorOptimizerSchema))
+    body: EvaluatorOptimizerDto,
+  ) {
+    return this.workflowService.evaluatorOptimizer(body);
+  }
+
+  @Post('evaluator-optimizer/stream')
+  streamEvaluatorOptimizer(
+    @Body(new ZodValidationPipe(EvaluatorOptimizerSchema))
+    body: EvaluatorOptimizerDto,
+    @Res() res: Response,
+  ) {
+    return pipeEventStream(res, (signal) =>
+      this.workflowService.streamEvaluatorOptimizer(body, signal),
+    );
+  }
+
+  @Post('agent')
+  agent(@Body(new ZodValidationPipe(AgentSchema)) body: AgentDto) {
+    return this.workflowService.agent(body);
+  }
+
+  @Post('agent/stream')
+  streamAgent(
+    @Body(new ZodValidationPipe(AgentSchema)) body: AgentDto,
+    @Res() res: Response,
+  ) {
+    return pipeEventStream(res, (signal) =>
+      this.workflowService.streamAgent(body, signal),
+    );
   }
 }
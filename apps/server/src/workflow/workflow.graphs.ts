@@ -0,0 +1,71 @@
+import {
+  AgentSchema,
+  EvaluatorOptimizerSchema,
+  OrchestratorWorkerSchema,
+  ParallelizationSchema,
+  PromptChainSchema,
+  RoutingSchema,
+} from '@repo/api';
+import { WorkflowService } from './workflow.service';
+import {
+  RegisteredGraph,
+  registeredGraph,
+} from '../graph-registry/graph-registry.service';
+
+/**
+ * The workflow patterns, as registered in the graph registry.
+ */
+export const workflowGraphs = (
+  workflowService: WorkflowService,
+): RegisteredGraph[] => [
+  registeredGraph({
+    name: 'prompt-chain',
+    description:
+      'Writes a joke, then improves and polishes it if it has a punchline.',
+    schema: PromptChainSchema,
+    build: () => workflowService.compile('prompt-chain'),
+    stream: (input, signal) => workflowService.streamPromptChain(input, signal),
+  }),
+  registeredGraph({
+    name: 'parallelization',
+    description:
+      'Writes a joke, a story and a poem in parallel and combines them.',
+    schema: ParallelizationSchema,
+    build: () => workflowService.compile('parallelization'),
+    stream: (input, signal) =>
+      workflowService.streamParallelization(input, signal),
+  }),
+  registeredGraph({
+    name: 'routing',
+    description: 'Routes a request to a story, joke or poem writer.',
+    schema: RoutingSchema,
+    build: () => workflowService.compile('routing'),
+    stream: (input, signal) => workflowService.streamRouting(input, signal),
+  }),
+  registeredGraph({
+    name: 'orchestrator-worker',
+    description:
+      'Plans report sections, writes them in parallel and assembles the report.',
+    schema: OrchestratorWorkerSchema,
+    build: () => workflowService.compile('orchestrator-worker'),
+    stream: (input, signal) =>
+      workflowService.streamOrchestratorWorker(input, signal),
+  }),
+  registeredGraph({
+    name: 'evaluator-optimizer',
+    description:
+      'Rewrites a joke from evaluator feedback until it is accepted or out of iterations.',
+    schema: EvaluatorOptimizerSchema,
+    build: () => workflowService.compile('evaluator-optimizer'),
+    stream: (input, signal) =>
+      workflowService.streamEvaluatorOptimizer(input, signal),
+  }),
+  registeredGraph({
+    name: 'agent',
+    description:
+      'Agent that calls the catalog tools chosen by the request, plus the tools of attached MCP servers, in a loop until it answers.',
+    schema: AgentSchema,
+    build: () => workflowService.compile('agent'),
+    stream: (input, signal) => workflowService.streamAgent(input, signal),
+  }),
+];
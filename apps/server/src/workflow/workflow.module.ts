@@ -1,9 +1,30 @@
-import { Module } from '@nestjs/common';
+import { Module, OnModuleInit } from '@nestjs/common';
 import { WorkflowService } from './workflow.service';
 import { WorkflowController } from './workflow.controller';
+import { workflowGraphs } from './workflow.graphs';
+import { LlmProviderModule } from '../llm-provider/llm-provider.module';
+import { GraphRegistryModule } from '../graph-registry/graph-registry.module';
+import { GraphRegistryService } from '../graph-registry/graph-registry.service';
+import { RunHistoryModule } from '../run-history/run-history.module';
+import { ToolCatalogModule } from '../tool-catalog/tool-catalog.module';
 
 @Module({
+  imports: [
+    LlmProviderModule,
+    GraphRegistryModule,
+    RunHistoryModule,
+    ToolCatalogModule,
+  ],
   controllers: [WorkflowController],
   providers: [WorkflowService],
 })
-export class WorkflowModule {}
+export class WorkflowModule implements OnModuleInit {
+  constructor(
+    private readonly graphRegistry: GraphRegistryService,
+    private readonly workflowService: WorkflowService,
+  ) {}
+
+  onModuleInit() {
+    this.graphRegistry.register(...workflowGraphs(this.workflowService));
+  }
+}
@@ -0,0 +1,481 @@
+import { Test } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { z } from 'zod';
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { AIMessage, BaseMessage, ToolMessage } from '@langchain/core/messages';
+import { AgentSchema, EvaluatorOptimizerSchema } from '@repo/api';
+import { WorkflowService } from './workflow.service';
+import { LlmProviderService } from '../llm-provider/llm-provider.service';
+import { ToolCatalogModule } from '../tool-catalog/tool-catalog.module';
+import { catalogTool } from '../tool-catalog/tool-catalog.service';
+import { RunHistoryService } from '../run-history/run-history.service';
+import {
+  FakeChatModel,
+  FakeChatModelInput,
+} from '../llm-provider/fake/fake-chat-model';
+
+describe('WorkflowService', () => {
+  let service: WorkflowService;
+  let llm: FakeChatModel;
+
+  const script = (responses: FakeChatModelInput['responses']) => {
+    llm = new FakeChatModel({ responses });
+  };
+
+  beforeEach(async () => {
+    llm = new FakeChatModel();
+
+    const moduleRef = await Test.createTestingModule({
+      imports: [ToolCatalogModule],
+      providers: [
+        WorkflowService,
+        {
+          provide: RunHistoryService,
+          useFactory: () => new RunHistoryService(':memory:').open(),
+        },
+        { provide: LlmProviderService, useValue: { chatModel: () => llm } },
+      ],
+    }).compile();
+    await moduleRef.init();
+
+    service = moduleRef.get(WorkflowService);
+  });
+
+  describe('augmentedLLM', () => {
+    it('returns the structured search query and the tool call', async () => {
+      script([
+        { json: { searchQuery: 'calcium score', justification: 'relevant' } },
+        { toolCalls: [{ name: 'multiply', args: { a: 2, b: 3 } }] },
+      ]);
+
+      const result = await service.augmentedLLM({
+        query: 'How does Calcium CT score relate to high cholesterol?',
+        toolInput: 'What is 2 times 3',
+      });
+
+      expect(result.searchQuery).toEqual({
+        searchQuery: 'calcium score',
+        justification: 'relevant',
+      });
+      expect(result.message.tool_calls).toEqual([
+        expect.objectContaining({ name: 'multiply', args: { a: 2, b: 3 } }),
+      ]);
+    });
+  });
+
+  describe('promptChain', () => {
+    it('improves and polishes a joke that passes the punchline gate', async () => {
+      script(['Why did the cat sit on the computer?', 'improved', 'polished']);
+
+      const state = await service.promptChain({ topic: 'cats' });
+
+      expect(state).toMatchObject({
+        joke: 'Why did the cat sit on the computer?',
+        improvedJoke: 'improved',
+        finalJoke: 'polished',
+      });
+      expect(llm.calls[0]?.[0]?.content).toBe('Write a short joke about cats');
+    });
+
+    it('stops after the first call when the joke has no punchline', async () => {
+      script(['A cat.']);
+
+      const state = await service.promptChain({ topic: 'cats' });
+
+      expect(state.joke).toBe('A cat.');
+      expect(state.improvedJoke).toBeUndefined();
+      expect(llm.calls).toHaveLength(1);
+    });
+
+    it('streams node updates followed by the final state', async () => {
+      script(['Why?', 'improved', 'polished']);
+
+      const events = [];
+      for await (const event of service.streamPromptChain({ topic: 'cats' })) {
+        events.push(event);
+      }
+
+      const updates = events.filter(({ event }) => event === 'update');
+      expect(
+        updates.map(({ data }) => (data as { node: string }).node),
+      ).toEqual(['generateJoke', 'improveJoke', 'polishJoke']);
+      expect(events.at(-1)).toEqual({
+        event: 'done',
+        data: {
+          state: {
+            topic: 'cats',
+            joke: 'Why?',
+            improvedJoke: 'improved',
+            finalJoke: 'polished',
+          },
+        },
+      });
+    });
+
+    it('ends the stream with an error event when a node fails', async () => {
+      script([
+        () => {
+          throw new Error('rate limited');
+        },
+      ]);
+
+      const events = [];
+      for await (const event of service.streamPromptChain({ topic: 'cats' })) {
+        events.push(event);
+      }
+
+      expect(events.at(-1)).toEqual({
+        event: 'error',
+        data: { message: 'rate limited' },
+      });
+    });
+  });
+
+  describe('parallelization', () => {
+    it('combines the story, joke and poem', async () => {
+      const reply = (messages) => `${messages[0].content.split(' ')[2]} output`;
+      script([reply, reply, reply]);
+
+      const state = await service.parallelization({ topic: 'cats' });
+
+      expect(state).toMatchObject({
+        joke: 'joke output',
+        story: 'story output',
+        poem: 'poem output',
+      });
+      expect(state.combinedOutput).toContain('STORY:\nstory output');
+    });
+  });
+
+  describe('routing', () => {
+    it.each([
+      ['story', 'You are an expert storyteller'],
+      ['joke', 'You are an expert comedian.'],
+      ['poem', 'You are an expert poet.'],
+    ])('routes %s requests to the matching writer', async (step, system) => {
+      script([{ json: { step } }, `a ${step}`]);
+
+      const state = await service.routing({ input: `Write me a ${step}` });
+
+      expect(state).toMatchObject({ decision: step, output: `a ${step}` });
+      expect(llm.calls[1]?.[0]?.content).toBe(system);
+    });
+  });
+
+  describe('orchestratorWorker', () => {
+    it('writes every planned section and joins them', async () => {
+      const writeSection = (messages) =>
+        `## ${messages[1].content.match(/section name: (\w+)/)[1]}`;
+      script([
+        {
+          json: {
+            sections: [
+              { name: 'Intro', description: 'what' },
+              { name: 'Outlook', description: 'next' },
+            ],
+          },
+        },
+        writeSection,
+        writeSection,
+      ]);
+
+      const report = await service.orchestratorWorker({ topic: 'LLMs' });
+
+      expect(report).toBe('## Intro\n\n---\n\n## Outlook');
+    });
+  });
+
+  describe('evaluatorOptimizer', () => {
+    const run = (input: object) =>
+      service.evaluatorOptimizer(EvaluatorOptimizerSchema.parse(input));
+
+    it('regenerates with feedback until the joke is funny', async () => {
+      script([
+        'first joke',
+        { json: { grade: 'not funny', feedback: 'add a pun' } },
+        'second joke',
+        { json: { grade: 'funny', feedback: '' } },
+      ]);
+
+      const state = await run({ topic: 'furniture', maxIterations: 3 });
+
+      expect(state).toMatchObject({
+        joke: 'second joke',
+        funnyOrNot: 'funny',
+        iterations: 2,
+        stopReason: 'accepted',
+        best: { iteration: 2, joke: 'second joke', accepted: true },
+      });
+      expect(state.history).toEqual([
+        {
+          iteration: 1,
+          joke: 'first joke',
+          grade: 'not funny',
+          feedback: 'add a pun',
+          accepted: false,
+        },
+        {
+          iteration: 2,
+          joke: 'second joke',
+          grade: 'funny',
+          feedback: '',
+          accepted: true,
+        },
+      ]);
+      expect(llm.calls[2]?.[0]?.content).toContain(
+        'take into account the feedback: add a pun',
+      );
+    });
+
+    it('gives up after maxIterations', async () => {
+      script([
+        'first joke',
+        { json: { grade: 'not funny', feedback: 'meh' } },
+        'second joke',
+        { json: { grade: 'not funny', feedback: 'still meh' } },
+      ]);
+
+      const state = await run({ topic: 'furniture', maxIterations: 2 });
+
+      expect(state).toMatchObject({
+        joke: 'second joke',
+        iterations: 2,
+        stopReason: 'max-iterations',
+      });
+      expect(state.history).toHaveLength(2);
+      expect(llm.calls).toHaveLength(4);
+    });
+
+    it('stops at the score threshold and keeps the best draft', async () => {
+      script([
+        'first joke',
+        { json: { score: 6, feedback: 'sharper' } },
+        'second joke',
+        { json: { score: 4, feedback: 'worse' } },
+        'third joke',
+        { json: { score: 5, feedback: 'closer' } },
+      ]);
+
+      const state = await run({
+        topic: 'furniture',
+        maxIterations: 3,
+        mode: 'score',
+        scoreThreshold: 7,
+      });
+
+      expect(state).toMatchObject({
+        joke: 'third joke',
+        stopReason: 'max-iterations',
+        best: { iteration: 1, joke: 'first joke', score: 6 },
+      });
+      expect(state.history.map(({ score }) => score)).toEqual([6, 4, 5]);
+      expect(llm.calls[1]?.[0]?.content).toContain('Score the joke');
+    });
+
+    it('accepts a draft that reaches the score threshold', async () => {
+      script(['first joke', { json: { score: 8, feedback: '' } }]);
+
+      const state = await run({
+        topic: 'furniture',
+        mode: 'score',
+        scoreThreshold: 8,
+      });
+
+      expect(state).toMatchObject({
+        stopReason: 'accepted',
+        iterations: 1,
+        best: { joke: 'first joke', score: 8, accepted: true },
+      });
+    });
+  });
+
+  describe('agent', () => {
+    const run = (input: object) => service.agent(AgentSchema.parse(input));
+
+    const toolMessages = (messages: BaseMessage[]) =>
+      messages.filter(
+        (message): message is ToolMessage => message instanceof ToolMessage,
+      );
+
+    it('runs tool calls until the model answers', async () => {
+      script([
+        { toolCalls: [{ name: 'add', args: { a: 3, b: 4 } }] },
+        { toolCalls: [{ name: 'multiply', args: { a: 7, b: 2 } }] },
+        'The result is 14.',
+      ]);
+
+      const { status, steps, messages } = await run({
+        messages: [{ role: 'user', content: 'Add 3 and 4, then double it.' }],
+      });
+
+      expect(status).toBe('completed');
+      expect(steps).toBe(3);
+      expect(toolMessages(messages).map(({ content }) => content)).toEqual([
+        '7',
+        '14',
+      ]);
+      expect(messages.at(-1)).toBeInstanceOf(AIMessage);
+      expect(messages.at(-1)?.content).toBe('The result is 14.');
+    });
+
+    it('answers every tool call of a turn, reporting failures to the model', async () => {
+      script([
+        {
+          toolCalls: [
+            { name: 'add', args: { a: 1, b: 2 } },
+            { name: 'divide', args: { a: 1, b: 0 } },
+            { name: 'multiply', args: { a: 'two', b: 3 } },
+            { name: 'power', args: { a: 2, b: 8 } },
+          ],
+        },
+        'Only the sum worked.',
+      ]);
+
+      const { status, messages } = await run({
+        messages: [{ role: 'user', content: 'Crunch some numbers.' }],
+      });
+
+      expect(status).toBe('completed');
+      expect(
+        toolMessages(messages).map(({ tool_call_id, status, content }) => ({
+          tool_call_id,
+          status,
+          content,
+        })),
+      ).toEqual([
+        { tool_call_id: 'call_1', status: undefined, content: '3' },
+        {
+          tool_call_id: 'call_2',
+          status: 'error',
+          content: 'Error: Cannot divide by zero',
+        },
+        {
+          tool_call_id: 'call_3',
+          status: 'error',
+          content: expect.stringMatching(
+            /^Error: Invalid arguments for multiply: a: /,
+          ),
+        },
+        {
+          tool_call_id: 'call_4',
+          status: 'error',
+          content:
+            'Error: Unknown tool power; available tools are add, multiply, divide',
+        },
+      ]);
+      // The model sees the errors on its next call
+      expect(llm.calls[1].at(-1)?.content).toBe(
+        'Error: Unknown tool power; available tools are add, multiply, divide',
+      );
+    });
+
+    it('uses the catalog tools selected by the request', async () => {
+      script([
+        {
+          toolCalls: [
+            { name: 'json_query', args: { path: '$.orders[*].total' } },
+            { name: 'calculator', args: { expression: '12.5 + 30' } },
+          ],
+        },
+        'The orders total 42.5.',
+      ]);
+
+      const { messages } = await run({
+        messages: [{ role: 'user', content: 'What do my orders total?' }],
+        tools: ['json_query', 'calculator'],
+        data: { orders: [{ total: 12.5 }, { total: 30 }] },
+      });
+
+      expect(toolMessages(messages).map(({ content }) => content)).toEqual([
+        '[12.5,30]',
+        '42.5',
+      ]);
+    });
+
+    it('binds the bound catalog tools without selecting them', async () => {
+      service['toolCatalog'].register({
+        ...catalogTool({
+          name: 'tracker__search',
+          description: 'Searches issues',
+          schema: z.object({ query: z.string() }),
+          run: ({ query }) => `2 issues match ${query}`,
+        }),
+        bound: true,
+      });
+      script([
+        { toolCalls: [{ name: 'tracker__search', args: { query: 'login' } }] },
+        'Two issues.',
+      ]);
+
+      const { messages } = await run({
+        messages: [{ role: 'user', content: 'Any login issues?' }],
+        tools: ['add'],
+      });
+
+      expect(toolMessages(messages).map(({ content }) => content)).toEqual([
+        '2 issues match login',
+      ]);
+    });
+
+    it('rejects tools that are not in the catalog', async () => {
+      await expect(
+        run({
+          messages: [{ role: 'user', content: 'Hi' }],
+          tools: ['rm_rf'],
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('stops with max-steps when the model keeps calling tools', async () => {
+      script([
+        { toolCalls: [{ name: 'add', args: { a: 1, b: 1 } }] },
+        { toolCalls: [{ name: 'add', args: { a: 2, b: 2 } }] },
+        { toolCalls: [{ name: 'add', args: { a: 3, b: 3 } }] },
+      ]);
+
+      const { status, steps, messages } = await run({
+        messages: [{ role: 'user', content: 'Keep adding.' }],
+        maxSteps: 2,
+      });
+
+      expect(status).toBe('max-steps');
+      expect(steps).toBe(2);
+      expect(llm.calls).toHaveLength(2);
+      expect(toolMessages(messages)).toHaveLength(1);
+    });
+  });
+
+  describe('with the fake provider', () => {
+    it('answers structured output without a script', async () => {
+      const moduleRef = await Test.createTestingModule({
+        imports: [ToolCatalogModule],
+        providers: [
+          WorkflowService,
+          {
+            provide: LlmProviderService,
+            useValue: new LlmProviderService(
+              new ConfigService({ LLM_CHAT_MODEL: 'fake:local' }),
+            ),
+          },
+          {
+            provide: RunHistoryService,
+            useFactory: () => new RunHistoryService(':memory:').open(),
+          },
+        ],
+      }).compile();
+      await moduleRef.init();
+      const workflows = moduleRef.get(WorkflowService);
+
+      await expect(
+        workflows.routing({ input: 'Write me something' }),
+      ).resolves.toMatchObject({
+        decision: 'poem',
+        output: 'You said: Write me something',
+      });
+      await expect(
+        workflows.orchestratorWorker({ topic: 'tides' }),
+      ).resolves.toEqual(expect.stringContaining('You said:'));
+    });
+  });
+});
@@ -1,20 +1,101 @@
 import { Injectable } from '@nestjs/common';
 import { z } from 'zod';
-import { ChatAnthropic } from '@langchain/anthropic';
+import {
+  AgentDto,
+  AgentResult,
+  AgentSchema,
+  AgentStatus,
+  AugmentedLlmDto,
+  EvaluatorIteration,
+  EvaluatorOptimizerDto,
+  EvaluatorStopReason,
+  OrchestratorWorkerDto,
+  ParallelizationDto,
+  PromptChainDto,
+  RoutingDto,
+  WorkflowStreamEvent,
+} from '@repo/api';
 import {
   StateGraph,
   Annotation,
   Send,
   MessagesAnnotation,
+  LangGraphRunnableConfig,
 } from '@langchain/langgraph';
-import { tool } from '@langchain/core/tools';
-import { AIMessage, ToolMessage, HumanMessage, SystemMessage, BaseMessage } from '@langchain/core/messages';
+import { StructuredToolInterface } from '@langchain/core/tools';
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import {
+  AIMessage,
+  ToolMessage,
+  HumanMessage,
+  SystemMessage,
+  BaseMessage,
+} from '@langchain/core/messages';
+import { LlmProviderService } from '../llm-provider/llm-provider.service';
+import { streamGraphEvents } from '../common/graph-stream';
+import { executeToolCalls } from '../common/tool-calls';
+import { RunHistoryService } from '../run-history/run-history.service';
+import { ToolCatalogService } from '../tool-catalog/tool-catalog.service';
+
+/** Workflow patterns that are built as graphs. */
+export type WorkflowPattern =
+  | 'prompt-chain'
+  | 'parallelization'
+  | 'routing'
+  | 'orchestrator-worker'
+  | 'evaluator-optimizer'
+  | 'agent';
 
 @Injectable()
 export class WorkflowService {
-  llm = new ChatAnthropic({
-    model: 'claude-3-5-sonnet-latest',
-  });
+  constructor(
+    private readonly llmProvider: LlmProviderService,
+    private readonly runHistory: RunHistoryService,
+    private readonly toolCatalog: ToolCatalogService,
+  ) {}
+
+  /**
+   * Chat model configured for workflows, unless the request names another one.
+   */
+  private chatModel(model?: string) {
+    return this.llmProvider.chatModel('workflow', model);
+  }
+
+  /**
+   * Config for running a pattern's graph, which records the run in the run
+   * history.
+   */
+  private traced(pattern: WorkflowPattern, signal?: AbortSignal) {
+    return { signal, callbacks: [this.runHistory.tracer(pattern, signal)] };
+  }
+
+  /**
+   * Compiles the graph of a pattern without running it.
+   */
+  async compile(pattern: WorkflowPattern, model?: string) {
+    const llm = this.chatModel(model);
+
+    switch (pattern) {
+      case 'prompt-chain':
+        return this.buildPromptChain(llm);
+      case 'parallelization':
+        return this.buildParallelization(llm);
+      case 'routing':
+        return this.buildRouting(llm);
+      case 'orchestrator-worker':
+        return this.buildOrchestratorWorker(llm);
+      case 'evaluator-optimizer':
+        return this.buildEvaluatorOptimizer(llm);
+      case 'agent':
+        return this.buildAgent(
+          llm,
+          // The tools an agent request gets by default
+          await this.toolCatalog.select(
+            AgentSchema.shape.tools.parse(undefined),
+          ),
+        );
+    }
+  }
 
   /**
    * The Augmented LLM
@@ -22,7 +103,9 @@ export class WorkflowService {
    * These include structured outputs and tool calling
    * @returns
    */
-  async augmentedLLM() {
+  async augmentedLLM({ query, toolInput, model }: AugmentedLlmDto) {
+    const llm = this.chatModel(model);
+
     const searchQuerySchema = z.object({
       searchQuery: z.string().describe('Query that is optimized web search.'),
       justification: z
@@ -31,38 +114,25 @@ export class WorkflowService {
     });
 
     // Augment the LLM with schema for structured output
-    const structuredLLM = this.llm.withStructuredOutput(searchQuerySchema, {
+    const structuredLLM = llm.withStructuredOutput(searchQuerySchema, {
       name: 'searchQuery',
     });
 
     // Invoke the augmented LLM
-    const output = await structuredLLM.invoke(
-      'How does Calcium CT score relate to high cholesterol?',
-    );
+    const output = await structuredLLM.invoke(query);
 
-    const multiply = tool(
-      async ({ a, b }) => {
-        return a * b;
-      },
-      {
-        name: 'multiply',
-        description: 'multiplies two numbers together',
-        schema: z.object({
-          a: z.number().describe('the first number'),
-          b: z.number().describe('the second number'),
-        }),
-      },
-    );
+    const [multiply] = await this.toolCatalog.select(['multiply']);
 
     // Augment the LLM with tools
-    const llmWithTools = this.llm.bindTools([multiply]);
+    if (!llm.bindTools) {
+      throw new Error(`${llm._llmType()} does not support tool calling`);
+    }
+    const llmWithTools = llm.bindTools([multiply]);
 
     // Invoke the LLM with input that triggers the tool call
-    const message = await llmWithTools.invoke('What is 2 times 3');
+    const message = await llmWithTools.invoke(toolInput);
 
-    console.log(message.tool_calls);
-
-    return { message };
+    return { searchQuery: output, message };
   }
 
   /**
@@ -74,7 +144,7 @@ export class WorkflowService {
    * ensure that the process is still on track.
    * @returns
    */
-  async promptChain() {
+  private buildPromptChain(llm: BaseChatModel) {
     const StateAnnotation = Annotation.Root({
       topic: Annotation<string>,
       joke: Annotation<string>,
@@ -86,9 +156,7 @@ export class WorkflowService {
 
     // First LLM call to generate initial joke
     const generateJoke = async (state: typeof StateAnnotation.State) => {
-      const msg = await this.llm.invoke(
-        `Write a short joke about ${state.topic}`,
-      );
+      const msg = await llm.invoke(`Write a short joke about ${state.topic}`);
       return { joke: msg.content };
     };
 
@@ -103,7 +171,7 @@ export class WorkflowService {
 
     // Second LLM call to improve the joke
     const improveJoke = async (state: typeof StateAnnotation.State) => {
-      const msg = await this.llm.invoke(
+      const msg = await llm.invoke(
         `Make this joke funnier by adding wordplay: ${state.joke}`,
       );
 
@@ -112,7 +180,7 @@ export class WorkflowService {
 
     // Third LLM call for final polish
     const polishJoke = async (state: typeof StateAnnotation.State) => {
-      const msg = await this.llm.invoke(
+      const msg = await llm.invoke(
         `Add a surprising twist to this joke: ${state.improvedJoke}`,
       );
 
@@ -120,23 +188,33 @@ export class WorkflowService {
     };
 
     // Build workflow
-    const chain = new StateGraph(StateAnnotation)
+    return new StateGraph(StateAnnotation)
       .addNode('generateJoke', generateJoke)
       .addNode('improveJoke', improveJoke)
       .addNode('polishJoke', polishJoke)
       .addEdge('__start__', 'generateJoke')
       .addConditionalEdges('generateJoke', checkPunchline, {
         Pass: 'improveJoke',
-        End: '__end__',
+        Fail: '__end__',
       })
       .addEdge('improveJoke', 'polishJoke')
       .addEdge('polishJoke', '__end__')
       .compile();
+  }
 
-    // Invoke
-    const state = await chain.invoke({ topic: 'cats' });
+  async promptChain({ topic, model }: PromptChainDto) {
+    return this.buildPromptChain(this.chatModel(model)).invoke(
+      { topic },
+      this.traced('prompt-chain'),
+    );
+  }
 
-    return state;
+  streamPromptChain({ topic, model }: PromptChainDto, signal?: AbortSignal) {
+    return streamGraphEvents(
+      this.buildPromptChain(this.chatModel(model)),
+      { topic },
+      this.traced('prompt-chain', signal),
+    );
   }
 
   /**
@@ -148,7 +226,7 @@ export class WorkflowService {
    *  - Voting: Running the same task multiple times to get diverse outputs.
    * @returns
    */
-  async parallelization() {
+  private buildParallelization(llm: BaseChatModel) {
     // Graph state
     const StateAnnotation = Annotation.Root({
       topic: Annotation<string>,
@@ -161,19 +239,19 @@ export class WorkflowService {
     // Nodes
     // First LLM call to generate initial joke
     const callLlm1 = async (state: typeof StateAnnotation.State) => {
-      const msg = await this.llm.invoke(`Write a joke about ${state.topic}`);
+      const msg = await llm.invoke(`Write a joke about ${state.topic}`);
       return { joke: msg.content };
     };
 
     // Second LLM call to generate story
     const callLlm2 = async (state: typeof StateAnnotation.State) => {
-      const msg = await this.llm.invoke(`Write a story about ${state.topic}`);
+      const msg = await llm.invoke(`Write a story about ${state.topic}`);
       return { story: msg.content };
     };
 
     // Third LLM call to generate poem
     const callLlm3 = async (state: typeof StateAnnotation.State) => {
-      const msg = await this.llm.invoke(`Write a poem about ${state.topic}`);
+      const msg = await llm.invoke(`Write a poem about ${state.topic}`);
       return { poem: msg.content };
     };
 
@@ -188,7 +266,7 @@ export class WorkflowService {
     };
 
     // Build wokflow
-    const parallelWorkflow = new StateGraph(StateAnnotation)
+    return new StateGraph(StateAnnotation)
       .addNode('callLlm1', callLlm1)
       .addNode('callLlm2', callLlm2)
       .addNode('callLlm3', callLlm3)
@@ -201,10 +279,24 @@ export class WorkflowService {
       .addEdge('callLlm3', 'aggregator')
       .addEdge('aggregator', '__end__')
       .compile();
+  }
 
-    const result = await parallelWorkflow.invoke({ topic: 'cats' });
+  async parallelization({ topic, model }: ParallelizationDto) {
+    return this.buildParallelization(this.chatModel(model)).invoke(
+      { topic },
+      this.traced('parallelization'),
+    );
+  }
 
-    return result;
+  streamParallelization(
+    { topic, model }: ParallelizationDto,
+    signal?: AbortSignal,
+  ) {
+    return streamGraphEvents(
+      this.buildParallelization(this.chatModel(model)),
+      { topic },
+      this.traced('parallelization', signal),
+    );
   }
 
   /**
@@ -212,7 +304,7 @@ export class WorkflowService {
    * This workflow allows for separation of concerns, and building more specialized prompts.
    * Without this workflow, optimizing for one kind of input can hurt performance on other inputs.
    */
-  async routing(input: string) {
+  private buildRouting(llm: BaseChatModel) {
     const routeSchema = z.object({
       step: z
         .enum(['poem', 'story', 'joke'])
@@ -220,7 +312,7 @@ export class WorkflowService {
     });
 
     // Augment the LLM with schema for strucured output
-    const router = this.llm.withStructuredOutput(routeSchema);
+    const router = llm.withStructuredOutput(routeSchema);
 
     // Graph state
     const StateAnnotation = Annotation.Root({
@@ -232,7 +324,7 @@ export class WorkflowService {
     // Nodes
     // Write a story
     const llmCall1 = async (state: typeof StateAnnotation.State) => {
-      const result = await this.llm.invoke([
+      const result = await llm.invoke([
         {
           role: 'system',
           content: 'You are an expert storyteller',
@@ -248,7 +340,7 @@ export class WorkflowService {
 
     // Write a joke
     const llmCall2 = async (state: typeof StateAnnotation.State) => {
-      const result = await this.llm.invoke([
+      const result = await llm.invoke([
         {
           role: 'system',
           content: 'You are an expert comedian.',
@@ -263,7 +355,7 @@ export class WorkflowService {
 
     // Write a poem
     const llmCall3 = async (state: typeof StateAnnotation.State) => {
-      const result = await this.llm.invoke([
+      const result = await llm.invoke([
         {
           role: 'system',
           content: 'You are an expert poet.',
@@ -305,7 +397,7 @@ export class WorkflowService {
     };
 
     // Build workflow
-    const routerWorkflow = new StateGraph(StateAnnotation)
+    return new StateGraph(StateAnnotation)
       .addNode('llmCall1', llmCall1)
       .addNode('llmCall2', llmCall2)
       .addNode('llmCall3', llmCall3)
@@ -320,19 +412,28 @@ export class WorkflowService {
       .addEdge('llmCall2', '__end__')
       .addEdge('llmCall3', '__end__')
       .compile();
+  }
 
-    const state = await routerWorkflow.invoke({
-      input,
-    });
+  async routing({ input, model }: RoutingDto) {
+    return this.buildRouting(this.chatModel(model)).invoke(
+      { input },
+      this.traced('routing'),
+    );
+  }
 
-    return state;
+  streamRouting({ input, model }: RoutingDto, signal?: AbortSignal) {
+    return streamGraphEvents(
+      this.buildRouting(this.chatModel(model)),
+      { input },
+      this.traced('routing', signal),
+    );
   }
 
   /**
    * In the orchestrator-workers workflow, a central LLM dynamically breaks down tasks,
    * delegates them to worker LLMs, and synthesizes their results.
    */
-  async orchestratorWorker() {
+  private buildOrchestratorWorker(llm: BaseChatModel) {
     const sectionSchema = z.object({
       name: z.string().describe('Name for this section of the report.'),
       description: z
@@ -347,7 +448,7 @@ export class WorkflowService {
     });
 
     // Augment the LLM with schema for strucured output
-    const planner = this.llm.withStructuredOutput(sectionsSchema);
+    const planner = llm.withStructuredOutput(sectionsSchema);
 
     // Graph state
     const StateAnnotation = Annotation.Root({
@@ -382,7 +483,7 @@ export class WorkflowService {
 
     const llmCall = async (state: typeof WorkerStateAnnotation.State) => {
       // Generate section
-      const section = await this.llm.invoke([
+      const section = await llm.invoke([
         {
           role: 'system',
           content:
@@ -415,7 +516,7 @@ export class WorkflowService {
     };
 
     // Build workflow
-    const orchestratorWorker = new StateGraph(StateAnnotation)
+    return new StateGraph(StateAnnotation)
       .addNode('orchestrator', orchestrator)
       .addNode('llmCall', llmCall)
       .addNode('synthesizer', synthesizer)
@@ -424,28 +525,56 @@ export class WorkflowService {
       .addEdge('llmCall', 'synthesizer')
       .addEdge('synthesizer', '__end__')
       .compile();
+  }
 
-    // Invoke
-    const state = await orchestratorWorker.invoke({
-      topic: 'Create a report on LLM scaling laws',
-    });
-
-    console.log({ state });
+  async orchestratorWorker({ topic, model }: OrchestratorWorkerDto) {
+    const state = await this.buildOrchestratorWorker(
+      this.chatModel(model),
+    ).invoke({ topic }, this.traced('orchestrator-worker'));
 
     return state.finalReport;
   }
 
+  streamOrchestratorWorker(
+    { topic, model }: OrchestratorWorkerDto,
+    signal?: AbortSignal,
+  ) {
+    return streamGraphEvents(
+      this.buildOrchestratorWorker(this.chatModel(model)),
+      { topic },
+      this.traced('orchestrator-worker', signal),
+    );
+  }
+
   /**
    * In the evaluator-optimizer workflow, one LLM call generates a response
    * while another provides evaluation and feedback in a loop.
+   *
+   * The loop ends when a joke is accepted (graded funny, or scored at least
+   * `scoreThreshold` in score mode) or after `maxIterations` rounds. Every
+   * round is kept in `history` and the best joke so far in `best`.
    */
-  async evaluatorOptimizer() {
+  private buildEvaluatorOptimizer(llm: BaseChatModel) {
     // Graph state
     const StateAnnotation = Annotation.Root({
       joke: Annotation<string>,
       topic: Annotation<string>,
       feedback: Annotation<string>,
       funnyOrNot: Annotation<string>,
+      score: Annotation<number>,
+      maxIterations: Annotation<number>,
+      mode: Annotation<EvaluatorOptimizerDto['mode']>,
+      scoreThreshold: Annotation<number>,
+      iterations: Annotation<number>({
+        default: () => 0,
+        reducer: (_, b) => b,
+      }),
+      history: Annotation<EvaluatorIteration[]>({
+        default: () => [],
+        reducer: (a, b) => a.concat(b),
+      }),
+      best: Annotation<EvaluatorIteration | undefined>,
+      stopReason: Annotation<EvaluatorStopReason | undefined>,
     });
 
     const feedbackSchema = z.object({
@@ -459,42 +588,99 @@ export class WorkflowService {
         ),
     });
 
+    const scoreSchema = z.object({
+      score: z
+        .number()
+        .int()
+        .min(1)
+        .max(10)
+        .describe('How funny the joke is, from 1 (not at all) to 10.'),
+      feedback: z
+        .string()
+        .describe('Feedback on how to make the joke funnier.'),
+    });
+
     // Augment the LLM with schema for structured output
-    const evaluator = this.llm.withStructuredOutput(feedbackSchema);
+    const evaluator = llm.withStructuredOutput(feedbackSchema);
+    const scorer = llm.withStructuredOutput(scoreSchema);
+
+    // Rounds are compared by score, or by grade in grade mode; ties go to the
+    // later round, which took more feedback into account
+    const rank = ({ score, grade }: EvaluatorIteration) =>
+      score ?? (grade === 'funny' ? 1 : 0);
 
     // Nodes
     const llmCallGenerator = async (state: typeof StateAnnotation.State) => {
       // LLM generates a joke
       let msg;
       if (state.feedback) {
-        msg = await this.llm.invoke(
+        msg = await llm.invoke(
           `Write a joke about ${state.topic} but take into account the feedback: ${state.feedback}`,
         );
       } else {
-        msg = await this.llm.invoke(`Write a joke about ${state.topic}`);
+        msg = await llm.invoke(`Write a joke about ${state.topic}`);
       }
 
-      return { joke: msg.content };
+      return { joke: msg.content, iterations: state.iterations + 1 };
     };
 
     const llmCallEvaluator = async (state: typeof StateAnnotation.State) => {
       // LLM evaluates the joke
-      const grade = await evaluator.invoke(`Grade the joke ${state.joke}`);
-      return { funnyOrNot: grade.grade, feedback: grade.feedback };
+      let round: EvaluatorIteration;
+      if (state.mode === 'score') {
+        const { score, feedback } = await scorer.invoke(
+          `Score the joke ${state.joke}`,
+        );
+        round = {
+          iteration: state.iterations,
+          joke: state.joke,
+          score,
+          feedback,
+          accepted: score >= state.scoreThreshold,
+        };
+      } else {
+        const { grade, feedback } = await evaluator.invoke(
+          `Grade the joke ${state.joke}`,
+        );
+        round = {
+          iteration: state.iterations,
+          joke: state.joke,
+          grade,
+          feedback,
+          accepted: grade === 'funny',
+        };
+      }
+
+      const best =
+        state.best && rank(state.best) > rank(round) ? state.best : round;
+      const stopReason = round.accepted
+        ? 'accepted'
+        : state.iterations >= state.maxIterations
+          ? 'max-iterations'
+          : undefined;
+
+      return {
+        funnyOrNot: round.grade,
+        score: round.score,
+        feedback: round.feedback,
+        history: [round],
+        best,
+        stopReason,
+      };
     };
 
     // Conditional edge function to route back to joke generator or end based upon feedback from the evaluator
     const routeJoke = (state: typeof StateAnnotation.State) => {
-      // Route back to joke generator or end based upon feedback from the evaluator
-      if (state.funnyOrNot === 'funny') {
+      if (state.stopReason === 'accepted') {
         return 'Accepted';
-      } else if (state.funnyOrNot === 'not funny') {
-        return 'Rejected + Feedback';
+      } else if (state.stopReason === 'max-iterations') {
+        return 'Out of iterations';
       }
+      return 'Rejected + Feedback';
     };
 
     // Build workflow
-    const optimizerWorkflow = new StateGraph(StateAnnotation)
+    return new StateGraph(StateAnnotation)
       .addNode('llmCallGenerator', llmCallGenerator)
       .addNode('llmCallEvaluator', llmCallEvaluator)
       .addEdge('__start__', 'llmCallGenerator')
@@ -502,76 +688,77 @@ export class WorkflowService {
       .addConditionalEdges('llmCallEvaluator', routeJoke, {
         // Name returned by routeJoke : Name of next node to visit
         Accepted: '__end__',
+        'Out of iterations': '__end__',
         'Rejected + Feedback': 'llmCallGenerator',
       })
       .compile();
-
-    const state = await optimizerWorkflow.invoke({ topic: 'Funrniture' });
-    console.log(state.joke);
-
-    return state;
   }
 
   /**
-   * Agents can handle sophisticated tasks, but their implementation is often straightforward.
-   * They are typically just LLMs using tools based on environmental feedback in a loop.
+   * Each round is two graph steps; the limit stops a runaway loop even if
+   * the routing above were wrong.
    */
-  async agent() {
-    // Define tools
-    const multiply = tool(
-      async ({ a, b }) => {
-        return a * b;
-      },
-      {
-        name: 'multiply',
-        description: 'multiplies two numbers together',
-        schema: z.object({
-          a: z.number().describe('the first number'),
-          b: z.number().describe('the second number'),
-        }),
-      },
-    );
+  private evaluatorOptimizerConfig(
+    { maxIterations }: EvaluatorOptimizerDto,
+    signal?: AbortSignal,
+  ) {
+    return {
+      ...this.traced('evaluator-optimizer', signal),
+      recursionLimit: maxIterations * 2 + 1,
+    };
+  }
 
-    const add = tool(
-      async ({ a, b }) => {
-        return a + b;
-      },
-      {
-        name: 'add',
-        description: 'Add two numbers together',
-        schema: z.object({
-          a: z.number().describe('first number'),
-          b: z.number().describe('second number'),
-        }),
-      },
+  async evaluatorOptimizer(dto: EvaluatorOptimizerDto) {
+    const { topic, maxIterations, mode, scoreThreshold, model } = dto;
+
+    return this.buildEvaluatorOptimizer(this.chatModel(model)).invoke(
+      { topic, maxIterations, mode, scoreThreshold },
+      this.evaluatorOptimizerConfig(dto),
     );
+  }
+
+  streamEvaluatorOptimizer(dto: EvaluatorOptimizerDto, signal?: AbortSignal) {
+    const { topic, maxIterations, mode, scoreThreshold, model } = dto;
 
-    const divide = tool(
-      async ({ a, b }) => {
-        return a / b;
-      },
-      {
-        name: 'divide',
-        description: 'Divide two numbers',
-        schema: z.object({
-          a: z.number().describe('first number'),
-          b: z.number().describe('second number'),
-        }),
-      },
+    return streamGraphEvents(
+      this.buildEvaluatorOptimizer(this.chatModel(model)),
+      { topic, maxIterations, mode, scoreThreshold },
+      this.evaluatorOptimizerConfig(dto, signal),
     );
+  }
 
+  /**
+   * Agents can handle sophisticated tasks, but their implementation is often straightforward.
+   * They are typically just LLMs using tools based on environmental feedback in a loop.
+   */
+  private buildAgent(llm: BaseChatModel, tools: StructuredToolInterface[]) {
     // Augment the LLM with tools
-    const tools = [add, multiply, divide];
-    const toolsByName = Object.fromEntries(tools.map((tool) => [tool.name, tool]));
-    const llmWithTools = this.llm.bindTools(tools);
+    if (!llm.bindTools) {
+      throw new Error(`${llm._llmType()} does not support tool calling`);
+    }
+    const llmWithTools = llm.bindTools(tools);
+
+    // Graph state
+    const StateAnnotation = Annotation.Root({
+      ...MessagesAnnotation.spec,
+      maxSteps: Annotation<number>,
+      steps: Annotation<number>({
+        default: () => 0,
+        reducer: (_, b) => b,
+      }),
+      status: Annotation<AgentStatus | undefined>,
+    });
+
+    const requestsTools = (message?: BaseMessage) =>
+      message instanceof AIMessage && !!message.tool_calls?.length;
 
     // Nodes
-    const llmCall = async (state: typeof MessagesAnnotation.State) => {
+    const llmCall = async (state: typeof StateAnnotation.State) => {
       const systemMessage = new SystemMessage(
-        'You are a helpful assistant tasked with performing arithmetic on a set of inputs.'
+        'You are a helpful assistant. Use the tools available to you whenever they help to answer accurately.',
       );
 
-      const ensureStringContent = (content: unknown): string => 
+      const ensureStringContent = (content: unknown): string =>
         typeof content === 'string' ? content : JSON.stringify(content);
 
       const createTypedMessage = (msg: BaseMessage) => {
@@ -597,44 +784,47 @@ export class WorkflowService {
 
       const messages = state.messages.map(createTypedMessage);
       const result = await llmWithTools.invoke([systemMessage, ...messages]);
+      const steps = state.steps + 1;
+
+      // Stop once the step budget is spent, even if the model wants more tools
+      let status: AgentStatus | undefined;
+      if (!requestsTools(result)) {
+        status = 'completed';
+      } else if (steps >= state.maxSteps) {
+        status = 'max-steps';
+      }
 
       return {
         messages: [result],
+        steps,
+        status,
       };
     };
 
-    const toolNode = async (state: typeof MessagesAnnotation.State) => {
-      const results: ToolMessage[] = [];
-      const lastMessage = state.messages.at(-1);
-
-      if (lastMessage instanceof AIMessage && lastMessage?.tool_calls?.length) {
-        for (const toolCall of lastMessage.tool_calls) {
-          const tool = toolsByName[toolCall.name];
-          const observation = await tool.invoke(toolCall.args);
-          results.push(
-            new ToolMessage({
-              content: observation,
-              tool_call_id: toolCall.id,
-            }),
-          );
-        }
-      }
+    const toolNode = async (
+      state: typeof StateAnnotation.State,
+      config: LangGraphRunnableConfig,
+    ) => {
+      const lastMessage = state.messages.at(-1) as AIMessage;
 
-      return { messages: results };
+      return {
+        messages: await executeToolCalls(
+          tools,
+          lastMessage.tool_calls ?? [],
+          config,
+        ),
+      };
     };
 
-    const shouldContinue = (state: typeof MessagesAnnotation.State) => {
-      const messages = state.messages;
-      const lastMessage = messages.at(-1);
-
-      if (lastMessage instanceof AIMessage && lastMessage?.tool_calls?.length) {
-        return 'Action';
+    const shouldContinue = (state: typeof StateAnnotation.State) => {
+      if (state.status) {
+        return '__end__';
       }
-      return '__end__';
+      return 'Action';
     };
 
     // Build workflow
-    const agentBuilder = new StateGraph(MessagesAnnotation)
+    return new StateGraph(StateAnnotation)
       .addNode('llmCall', llmCall)
       .addNode('tools', toolNode)
       .addEdge('__start__', 'llmCall')
@@ -644,15 +834,74 @@ export class WorkflowService {
       })
       .addEdge('tools', 'llmCall')
       .compile();
+  }
 
-    // Invoke
-    const messages = [
-      new HumanMessage({
-        content: 'Add 3 and 4.'
-      })
-    ];
-    const result = await agentBuilder.invoke({ messages });
+  /**
+   * Each step is a model call plus its tool calls; the limit is a backstop
+   * for the step budget enforced by the graph.
+   */
+  private agentConfig({ maxSteps }: AgentDto, signal?: AbortSignal) {
+    return {
+      ...this.traced('agent', signal),
+      recursionLimit: maxSteps * 2 + 1,
+    };
+  }
 
-    return result.messages;
+  /**
+   * Tools selected by an agent request plus the bound ones, such as those of
+   * attached MCP servers, created with its context.
+   */
+  private agentTools({ tools, data, retrieval }: AgentDto) {
+    return this.toolCatalog.select([...tools, ...this.toolCatalog.bound()], {
+      data,
+      retrieval,
+    });
+  }
+
+  async agent(dto: AgentDto): Promise<AgentResult<BaseMessage>> {
+    const { messages, maxSteps, model } = dto;
+    const { status, steps, ...state } = await this.buildAgent(
+      this.chatModel(model),
+      await this.agentTools(dto),
+    ).invoke(
+      { messages: this.toAgentMessages(messages), maxSteps },
+      this.agentConfig(dto),
+    );
+
+    return { status: status!, steps, messages: state.messages };
+  }
+
+  async *streamAgent(
+    dto: AgentDto,
+    signal?: AbortSignal,
+  ): AsyncGenerator<WorkflowStreamEvent> {
+    const { messages, maxSteps, model } = dto;
+
+    let tools: StructuredToolInterface[];
+    try {
+      tools = await this.agentTools(dto);
+    } catch (error) {
+      yield {
+        event: 'error',
+        data: {
+          message: error instanceof Error ? error.message : String(error),
+        },
+      };
+      return;
+    }
+
+    yield* streamGraphEvents(
+      this.buildAgent(this.chatModel(model), tools),
+      { messages: this.toAgentMessages(messages), maxSteps },
+      this.agentConfig(dto, signal),
+    );
+  }
+
+  private toAgentMessages(messages: AgentDto['messages']) {
+    return messages.map(({ role, content }) =>
+      role === 'assistant'
+        ? new AIMessage({ content })
+        : new HumanMessage({ content }),
+    );
   }
 }
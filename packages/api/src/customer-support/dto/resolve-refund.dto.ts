@@ -0,0 +1,13 @@
+import { z } from 'zod';
+
+export const ResolveRefundSchema = z.object({
+  note: z
+    .string()
+    .trim()
+    .min(1)
+    .max(500)
+    .optional()
+    .describe('Supervisor note; for denials it is shown to the customer.'),
+});
+
+export type ResolveRefundDto = z.infer<typeof ResolveRefundSchema>;
@@ -0,0 +1,16 @@
+export type RefundApprovalStatus = 'pending' | 'approved' | 'denied';
+
+export class RefundApprovalMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export class RefundApproval {
+  threadId: string;
+  status: RefundApprovalStatus;
+  reason: string;
+  messages: RefundApprovalMessage[];
+  requestedAt: string;
+  resolvedAt?: string;
+  note?: string;
+}
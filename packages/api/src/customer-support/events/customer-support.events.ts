@@ -0,0 +1,147 @@
+import { z } from 'zod';
+
+/**
+ * Wire contract of the `/customer-support` socket.io namespace. Bump the
+ * version on breaking changes; every server event carries it and clients may
+ * send it to pin the contract they speak.
+ */
+export const CUSTOMER_SUPPORT_EVENTS_VERSION = 1;
+
+export const CUSTOMER_SUPPORT_NAMESPACE = '/customer-support';
+
+/** socket.io event names used in both directions. */
+export const CustomerSupportSocketEvent = {
+  /** Client → server: a customer message. Server → client: every event below. */
+  Message: 'message',
+  /** Client → server: follow a thread without sending anything. */
+  Join: 'join',
+} as const;
+
+const VersionSchema = z
+  .literal(CUSTOMER_SUPPORT_EVENTS_VERSION)
+  .default(CUSTOMER_SUPPORT_EVENTS_VERSION);
+
+const ThreadIdSchema = z.string().trim().min(1).max(200);
+
+export const RepresentativeSchema = z.enum([
+  'INITIAL SUPPORT',
+  'BILLING SUPPORT',
+  'TECHNICAL SUPPORT',
+  'HANDLE REFUND',
+]);
+
+export const CustomerSupportErrorCodeSchema = z.enum([
+  /** The client event failed validation; see `issues`. */
+  'INVALID_PAYLOAD',
+  /** The client asked for a contract version this server does not speak. */
+  'UNSUPPORTED_VERSION',
+  /** The graph failed while answering. */
+  'PROCESSING_FAILED',
+]);
+
+// Client → server
+
+export const SendMessageEventSchema = z.object({
+  version: VersionSchema,
+  message: z.string().trim().min(1).max(4000),
+  threadId: ThreadIdSchema.optional().describe(
+    'Conversation to continue; a new thread is started when omitted.',
+  ),
+});
+
+export const JoinThreadEventSchema = z.object({
+  version: VersionSchema,
+  threadId: ThreadIdSchema,
+});
+
+// Server → client, all sent as `message` and told apart by `type`
+
+const serverEvent = <Type extends string, Shape extends z.ZodRawShape>(
+  type: Type,
+  shape: Shape,
+) =>
+  z.object({
+    version: z.literal(CUSTOMER_SUPPORT_EVENTS_VERSION),
+    type: z.literal(type),
+    ...shape,
+  });
+
+export const ConnectionEventSchema = serverEvent('connection', {
+  clientId: z.string(),
+  content: z.string(),
+});
+
+export const ThreadEventSchema = serverEvent('thread', {
+  threadId: z.string(),
+  resumed: z.boolean(),
+});
+
+export const JoinedEventSchema = serverEvent('joined', {
+  threadId: z.string(),
+});
+
+/** What another tab on the same thread sent. */
+export const UserMessageEventSchema = serverEvent('user_message', {
+  threadId: z.string(),
+  content: z.string(),
+});
+
+/** A token of a reply that is still being written. */
+export const DeltaEventSchema = serverEvent('delta', {
+  threadId: z.string(),
+  messageId: z.string(),
+  representative: RepresentativeSchema,
+  content: z.string(),
+});
+
+/** A finished reply; `messageId` matches the deltas that streamed it. */
+export const ResponseEventSchema = serverEvent('response', {
+  threadId: z.string(),
+  stepCount: z.number().int().positive(),
+  messageId: z.string().optional(),
+  representative: RepresentativeSchema,
+  content: z.string(),
+});
+
+export const RefundPendingEventSchema = serverEvent('refund_pending', {
+  threadId: z.string(),
+  content: z.string(),
+});
+
+export const CompletedEventSchema = serverEvent('completed', {
+  threadId: z.string(),
+  totalSteps: z.number().int().nonnegative(),
+  refund: z.enum(['approved', 'denied']).optional(),
+});
+
+export const ErrorEventSchema = serverEvent('error', {
+  code: CustomerSupportErrorCodeSchema,
+  content: z.string(),
+  threadId: z.string().optional(),
+  details: z.string().optional(),
+  issues: z
+    .array(z.object({ path: z.string(), message: z.string() }))
+    .optional(),
+});
+
+export const CustomerSupportServerEventSchema = z.discriminatedUnion('type', [
+  ConnectionEventSchema,
+  ThreadEventSchema,
+  JoinedEventSchema,
+  UserMessageEventSchema,
+  DeltaEventSchema,
+  ResponseEventSchema,
+  RefundPendingEventSchema,
+  CompletedEventSchema,
+  ErrorEventSchema,
+]);
+
+export type Representative = z.infer<typeof RepresentativeSchema>;
+export type CustomerSupportErrorCode = z.infer<
+  typeof CustomerSupportErrorCodeSchema
+>;
+export type SendMessageEvent = z.input<typeof SendMessageEventSchema>;
+export type JoinThreadEvent = z.input<typeof JoinThreadEventSchema>;
+export type CustomerSupportServerEvent = z.infer<
+  typeof CustomerSupportServerEventSchema
+>;
@@ -0,0 +1,25 @@
+export class GraphSummary {
+  /** Name used to start the graph, e.g. over the stream gateway. */
+  name: string;
+  description: string;
+}
+
+export class GraphNode {
+  id: string;
+}
+
+export class GraphEdge {
+  source: string;
+  target: string;
+  /** Whether the edge is taken only for some states. */
+  conditional: boolean;
+  /** Route name of a conditional edge. */
+  label?: string;
+}
+
+export class GraphDescription extends GraphSummary {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  /** JSON Schema of the input the graph is started with. */
+  inputSchema: Record<string, unknown>;
+}
@@ -1,7 +1,7 @@
-import { Link } from 'links/entities/link.entity';
+import { Link } from './links/entities/link.entity';
 
-import { CreateLinkDto } from 'links/dto/create-link.dto';
-import { UpdateLinkDto } from 'links/dto/update-link.dto';
+import { CreateLinkDto } from './links/dto/create-link.dto';
+import { UpdateLinkDto } from './links/dto/update-link.dto';
 
 export const links = {
   dto: {
@@ -12,3 +12,45 @@ export const links = {
     Link,
   },
 };
+
+export * from './llm/model-spec';
+export * from './workflows/dto/augmented-llm.dto';
+export * from './workflows/dto/prompt-chain.dto';
+export * from './workflows/dto/parallelization.dto';
+export * from './workflows/dto/routing.dto';
+export * from './workflows/dto/orchestrator-worker.dto';
+export * from './workflows/dto/evaluator-optimizer.dto';
+export * from './workflows/dto/agent.dto';
+export * from './workflows/dto/workflow-definition.dto';
+export * from './workflows/workflow-template';
+export * from './workflows/entities/evaluator-iteration.entity';
+export * from './workflows/entities/agent-result.entity';
+
+export * from './workflows/events/workflow-stream.event';
+
+export * from './stream/dto/create-stream.dto';
+export * from './stream/dto/cancel-stream.dto';
+export * from './stream/events/graph-stream.event';
+
+export * from './graphs/entities/graph-description.entity';
+
+export * from './tools/entities/tool-description.entity';
+
+export * from './mcp/entities/mcp-server-status.entity';
+
+export * from './runs/dto/list-runs.dto';
+export * from './runs/entities/run.entity';
+
+export * from './customer-support/dto/resolve-refund.dto';
+export * from './customer-support/entities/refund-approval.entity';
+export * from './customer-support/events/customer-support.events';
+
+export * from './rag/dto/ask-rag-agent.dto';
+export * from './rag/dto/splitter-options.dto';
+export * from './rag/dto/ingest-files.dto';
+export * from './rag/dto/ingest-directory.dto';
+export * from './rag/dto/document-tags.dto';
+export * from './rag/dto/retrieval-options.dto';
+export * from './rag/entities/rag-document.entity';
+export * from './rag/entities/rag-index-status.entity';
+export * from './rag/entities/rag-citation.entity';
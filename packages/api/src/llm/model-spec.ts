@@ -0,0 +1,10 @@
+import { z } from 'zod';
+
+export const ModelSpecSchema = z
+  .string()
+  .regex(/^[\w-]+(:.+)?$/, 'Expected "<provider>:<model>"')
+  .describe(
+    'Model to use instead of the configured one, as "<provider>:<model>".',
+  );
+
+export type ModelSpec = z.infer<typeof ModelSpecSchema>;
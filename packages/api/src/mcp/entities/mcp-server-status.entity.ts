@@ -0,0 +1,10 @@
+export type McpServerState = 'connecting' | 'connected' | 'failed';
+
+export class McpServerStatus {
+  /** Name of the server in the MCP configuration. */
+  name: string;
+  state: McpServerState;
+  /** Catalog names of the tools registered from this server. */
+  tools: string[];
+  error?: string;
+}
@@ -0,0 +1,16 @@
+import { z } from 'zod';
+import { ModelSpecSchema } from '../../llm/model-spec';
+import { RetrievalOptionsSchema } from './retrieval-options.dto';
+
+export const AskRagAgentSchema = z.object({
+  question: z
+    .string()
+    .trim()
+    .min(1)
+    .max(2000)
+    .describe('Question to answer from the indexed corpus.'),
+  model: ModelSpecSchema.optional(),
+  retrieval: RetrievalOptionsSchema.optional(),
+});
+
+export type AskRagAgentDto = z.infer<typeof AskRagAgentSchema>;
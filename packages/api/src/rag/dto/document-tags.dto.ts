@@ -0,0 +1,16 @@
+import { z } from 'zod';
+
+/**
+ * Labels to filter retrieval by. Multipart uploads may send them as a single
+ * comma separated field.
+ */
+export const DocumentTagsSchema = z.preprocess(
+  (value) =>
+    typeof value === 'string'
+      ? value
+          .split(',')
+          .map((tag) => tag.trim())
+          .filter(Boolean)
+      : value,
+  z.array(z.string().trim().min(1).max(50)).max(20),
+);
@@ -0,0 +1,17 @@
+import { z } from 'zod';
+import { DocumentTagsSchema } from './document-tags.dto';
+import { SplitterOptionsSchema } from './splitter-options.dto';
+
+export const IngestDirectorySchema = z
+  .object({
+    path: z
+      .string()
+      .trim()
+      .min(1)
+      .describe('Directory on the server to ingest supported files from.'),
+    recursive: z.boolean().default(true),
+    tags: DocumentTagsSchema.optional(),
+  })
+  .and(SplitterOptionsSchema);
+
+export type IngestDirectoryDto = z.infer<typeof IngestDirectorySchema>;
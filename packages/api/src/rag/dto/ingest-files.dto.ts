@@ -0,0 +1,20 @@
+import { z } from 'zod';
+import { DocumentTagsSchema } from './document-tags.dto';
+import { SplitterOptionsSchema } from './splitter-options.dto';
+
+export const IngestFilesSchema = z
+  .object({
+    documentId: z
+      .string()
+      .trim()
+      .min(1)
+      .max(200)
+      .optional()
+      .describe(
+        'Replaces the document with this id. Only valid for a single file.',
+      ),
+    tags: DocumentTagsSchema.optional(),
+  })
+  .and(SplitterOptionsSchema);
+
+export type IngestFilesDto = z.infer<typeof IngestFilesSchema>;
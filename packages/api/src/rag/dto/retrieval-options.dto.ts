@@ -0,0 +1,54 @@
+import { z } from 'zod';
+
+export const RetrievalFilterSchema = z.object({
+  sources: z
+    .array(z.string().min(1))
+    .optional()
+    .describe('Only search documents whose source contains one of these.'),
+  tags: z
+    .array(z.string().min(1))
+    .optional()
+    .describe('Only search documents with at least one of these tags.'),
+  ingestedAfter: z.coerce.date().optional(),
+  ingestedBefore: z.coerce.date().optional(),
+});
+
+/**
+ * How the retrieval tool searches the corpus: candidates from keyword (BM25)
+ * and vector search are fused, then optionally diversified with MMR.
+ */
+export const RetrievalOptionsSchema = z
+  .object({
+    k: z
+      .number()
+      .int()
+      .min(1)
+      .max(20)
+      .default(4)
+      .describe('Passages returned per search.'),
+    fetchK: z
+      .number()
+      .int()
+      .min(1)
+      .max(100)
+      .default(20)
+      .describe('Candidates taken from each search before fusion.'),
+    mmr: z
+      .boolean()
+      .default(true)
+      .describe('Diversify results with maximal marginal relevance.'),
+    mmrLambda: z
+      .number()
+      .min(0)
+      .max(1)
+      .default(0.5)
+      .describe('1 ranks purely by relevance, 0 purely by diversity.'),
+    filter: RetrievalFilterSchema.optional(),
+  })
+  .refine(({ k, fetchK }) => k <= fetchK, {
+    message: 'fetchK must be at least k',
+    path: ['fetchK'],
+  });
+
+export type RetrievalFilterDto = z.infer<typeof RetrievalFilterSchema>;
+export type RetrievalOptionsDto = z.infer<typeof RetrievalOptionsSchema>;
@@ -0,0 +1,28 @@
+import { z } from 'zod';
+
+/**
+ * `RecursiveCharacterTextSplitter` settings. Numbers are coerced because
+ * uploads send them as multipart form fields.
+ */
+export const SplitterOptionsSchema = z
+  .object({
+    chunkSize: z.coerce
+      .number()
+      .int()
+      .min(100)
+      .max(8000)
+      .default(500)
+      .describe('Maximum characters per chunk.'),
+    chunkOverlap: z.coerce
+      .number()
+      .int()
+      .min(0)
+      .default(50)
+      .describe('Characters shared by consecutive chunks.'),
+  })
+  .refine(({ chunkSize, chunkOverlap }) => chunkOverlap < chunkSize, {
+    message: 'chunkOverlap must be smaller than chunkSize',
+    path: ['chunkOverlap'],
+  });
+
+export type SplitterOptionsDto = z.infer<typeof SplitterOptionsSchema>;
@@ -0,0 +1,20 @@
+/** A retrieved passage an answer refers to with an inline `[id]` marker. */
+export class RagCitation {
+  /** Number used in the inline marker. */
+  id: number;
+  documentId: string;
+  /** File name, server path or URL the passage was ingested from. */
+  source: string;
+  title: string;
+  /** Set when the source is a web page, so clients can link to it. */
+  url?: string;
+  /** Character range of the passage in the extracted document text. */
+  start?: number;
+  end?: number;
+}
+
+export class RagAnswer {
+  answer: string;
+  /** Sources cited in `answer`, in marker order. */
+  citations: RagCitation[];
+}
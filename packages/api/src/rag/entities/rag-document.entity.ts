@@ -0,0 +1,27 @@
+export type RagDocumentFormat = 'markdown' | 'text' | 'html' | 'pdf';
+
+export class RagDocument {
+  id: string;
+  /** File name for uploads, absolute path for directory ingests. */
+  source: string;
+  title: string;
+  format: RagDocumentFormat;
+  tags: string[];
+  chunks: number;
+  /** Chunks embedded by the last ingest; the others reused stored vectors. */
+  embeddedChunks: number;
+  ingestedAt: string;
+}
+
+export class IngestResult {
+  documents: RagDocument[];
+  /** Files that were not ingested, with the reason. */
+  skipped: { source: string; reason: string }[];
+  /** Files that could not be read or parsed, with the error. */
+  failed: { source: string; error: string }[];
+  /**
+   * Sources dropped by a directory ingest because their file was deleted,
+   * emptied or is no longer supported.
+   */
+  removed: string[];
+}
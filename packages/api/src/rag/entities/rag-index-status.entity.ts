@@ -0,0 +1,11 @@
+export type RagIndexState = 'initializing' | 'ready' | 'failed';
+
+export class RagIndexStatus {
+  state: RagIndexState;
+  documents: number;
+  chunks: number;
+  /** When a document was last ingested, if ever. */
+  lastIngestAt: string | null;
+  /** Why loading the index failed. */
+  error?: string;
+}
@@ -0,0 +1,10 @@
+import { z } from 'zod';
+
+/** Query of `GET /runs`; newest runs come first. */
+export const ListRunsSchema = z.object({
+  graph: z.string().min(1).optional(),
+  status: z.enum(['running', 'succeeded', 'failed', 'cancelled']).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export type ListRunsDto = z.infer<typeof ListRunsSchema>;
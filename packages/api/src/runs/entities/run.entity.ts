@@ -0,0 +1,61 @@
+export type RunStatus = 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export class TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/** A chat message as sent to or received from an LLM. */
+export class TracedMessage {
+  role: string;
+  content: unknown;
+  toolCalls?: Array<{ id?: string; name: string; args: unknown }>;
+  toolCallId?: string;
+}
+
+export class NodeTrace {
+  id: string;
+  node: string;
+  startedAt: string;
+  endedAt?: string;
+  /** State the node was called with. */
+  input: unknown;
+  /** Update the node returned. */
+  output?: unknown;
+  error?: string;
+}
+
+export class LlmCallTrace {
+  id: string;
+  /** Node that made the call. */
+  node: string | null;
+  model: string;
+  prompt: TracedMessage[];
+  response?: TracedMessage;
+  /** As reported by the provider, when it does. */
+  tokenUsage?: TokenUsage;
+  startedAt: string;
+  endedAt?: string;
+  error?: string;
+}
+
+export class RunSummary {
+  id: string;
+  /** Name of the graph that ran, e.g. `prompt-chain`. */
+  graph: string;
+  status: RunStatus;
+  startedAt: string;
+  endedAt?: string;
+  error?: string;
+  /** Summed over the LLM calls of the run. */
+  tokenUsage: TokenUsage;
+}
+
+export class Run extends RunSummary {
+  input: unknown;
+  /** Final state of the graph. */
+  output?: unknown;
+  nodes: NodeTrace[];
+  llmCalls: LlmCallTrace[];
+}
@@ -0,0 +1,7 @@
+import { z } from 'zod';
+
+export const CancelStreamSchema = z.object({
+  streamId: z.string().trim().min(1),
+});
+
+export type CancelStreamDto = z.infer<typeof CancelStreamSchema>;
@@ -0,0 +1,22 @@
+import { z } from 'zod';
+
+export const CreateStreamSchema = z.object({
+  graph: z
+    .string()
+    .trim()
+    .min(1)
+    .describe('Name of the registered graph to run, e.g. `prompt-chain`.'),
+  input: z
+    .unknown()
+    .default({})
+    .describe("The graph's request body, validated by its own schema."),
+  streamId: z
+    .string()
+    .trim()
+    .min(1)
+    .max(200)
+    .optional()
+    .describe('Id used to cancel the run; generated when omitted.'),
+});
+
+export type CreateStreamDto = z.infer<typeof CreateStreamSchema>;
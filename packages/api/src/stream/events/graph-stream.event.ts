@@ -0,0 +1,13 @@
+import { WorkflowStreamEvent } from '../../workflows/events/workflow-stream.event';
+
+/**
+ * Socket.io events (`streamEvent`) of a graph run started with
+ * `createStream`. A run always starts with `started` and ends with exactly
+ * one `done`, `error` or `cancelled` event. `streamId` is null only for the
+ * error reporting an invalid `createStream` payload.
+ */
+export type GraphStreamEvent = { streamId: string | null } & (
+  | { event: 'started'; data: { graph: string } }
+  | WorkflowStreamEvent
+  | { event: 'cancelled'; data: Record<string, never> }
+);
@@ -0,0 +1,17 @@
+/**
+ * Capabilities a tool needs beyond pure computation. A tool can only be
+ * selected when the server grants all of its permissions.
+ */
+export type ToolPermission = 'read-documents';
+
+export class ToolDescription {
+  /** Name used to select the tool, e.g. in an agent request. */
+  name: string;
+  description: string;
+  tags: string[];
+  permissions: ToolPermission[];
+  /** Whether the server grants every permission the tool needs. */
+  allowed: boolean;
+  /** JSON Schema of the tool arguments. */
+  inputSchema: Record<string, unknown>;
+}
@@ -0,0 +1,41 @@
+import { z } from 'zod';
+import { ModelSpecSchema } from '../../llm/model-spec';
+import { RetrievalOptionsSchema } from '../../rag/dto/retrieval-options.dto';
+
+export const AgentMessageSchema = z.object({
+  role: z.enum(['user', 'assistant']),
+  content: z.string().trim().min(1),
+});
+
+export const AgentSchema = z.object({
+  messages: z
+    .array(AgentMessageSchema)
+    .min(1)
+    .describe('Conversation handed to the agent, oldest message first.'),
+  maxSteps: z
+    .number()
+    .int()
+    .min(1)
+    .max(25)
+    .default(10)
+    .describe('Maximum number of model calls before the run is stopped.'),
+  tools: z
+    .array(z.string().min(1))
+    .min(1)
+    .max(20)
+    .default(['add', 'multiply', 'divide'])
+    .describe(
+      'Names of the catalog tools the agent may call; the allowed tools of attached MCP servers, named `<server>__<tool>`, are always available.',
+    ),
+  data: z
+    .unknown()
+    .optional()
+    .describe('JSON the `json_query` tool answers questions about.'),
+  retrieval: RetrievalOptionsSchema.optional().describe(
+    'How `retrieve_documents` searches the RAG index.',
+  ),
+  model: ModelSpecSchema.optional(),
+});
+
+export type AgentMessageDto = z.infer<typeof AgentMessageSchema>;
+export type AgentDto = z.infer<typeof AgentSchema>;
@@ -0,0 +1,18 @@
+import { z } from 'zod';
+import { ModelSpecSchema } from '../../llm/model-spec';
+
+export const AugmentedLlmSchema = z.object({
+  query: z
+    .string()
+    .trim()
+    .min(1)
+    .describe('Question to turn into an optimized web search query.'),
+  toolInput: z
+    .string()
+    .trim()
+    .min(1)
+    .describe('Prompt that should trigger a tool call.'),
+  model: ModelSpecSchema.optional(),
+});
+
+export type AugmentedLlmDto = z.infer<typeof AugmentedLlmSchema>;
@@ -0,0 +1,29 @@
+import { z } from 'zod';
+import { ModelSpecSchema } from '../../llm/model-spec';
+
+export const EvaluatorOptimizerSchema = z.object({
+  topic: z.string().trim().min(1).describe('Topic of the joke.'),
+  maxIterations: z
+    .number()
+    .int()
+    .min(1)
+    .max(10)
+    .default(3)
+    .describe('Maximum number of generate/evaluate rounds.'),
+  mode: z
+    .enum(['grade', 'score'])
+    .default('grade')
+    .describe(
+      '`grade` accepts the first joke graded funny; `score` rates each joke from 1 to 10 and accepts one that reaches `scoreThreshold`.',
+    ),
+  scoreThreshold: z
+    .number()
+    .int()
+    .min(1)
+    .max(10)
+    .default(8)
+    .describe('Lowest accepted score in `score` mode.'),
+  model: ModelSpecSchema.optional(),
+});
+
+export type EvaluatorOptimizerDto = z.infer<typeof EvaluatorOptimizerSchema>;
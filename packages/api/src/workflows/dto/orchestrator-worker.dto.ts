@@ -0,0 +1,9 @@
+import { z } from 'zod';
+import { ModelSpecSchema } from '../../llm/model-spec';
+
+export const OrchestratorWorkerSchema = z.object({
+  topic: z.string().trim().min(1).describe('Topic of the report.'),
+  model: ModelSpecSchema.optional(),
+});
+
+export type OrchestratorWorkerDto = z.infer<typeof OrchestratorWorkerSchema>;
@@ -0,0 +1,13 @@
+import { z } from 'zod';
+import { ModelSpecSchema } from '../../llm/model-spec';
+
+export const ParallelizationSchema = z.object({
+  topic: z
+    .string()
+    .trim()
+    .min(1)
+    .describe('Topic of the generated story, joke and poem.'),
+  model: ModelSpecSchema.optional(),
+});
+
+export type ParallelizationDto = z.infer<typeof ParallelizationSchema>;
@@ -0,0 +1,9 @@
+import { z } from 'zod';
+import { ModelSpecSchema } from '../../llm/model-spec';
+
+export const PromptChainSchema = z.object({
+  topic: z.string().trim().min(1).describe('Topic of the joke.'),
+  model: ModelSpecSchema.optional(),
+});
+
+export type PromptChainDto = z.infer<typeof PromptChainSchema>;
@@ -0,0 +1,13 @@
+import { z } from 'zod';
+import { ModelSpecSchema } from '../../llm/model-spec';
+
+export const RoutingSchema = z.object({
+  input: z
+    .string()
+    .trim()
+    .min(1)
+    .describe('Request routed to the story, joke or poem writer.'),
+  model: ModelSpecSchema.optional(),
+});
+
+export type RoutingDto = z.infer<typeof RoutingSchema>;
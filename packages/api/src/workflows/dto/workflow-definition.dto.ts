@@ -0,0 +1,339 @@
+import { z } from 'zod';
+import { ModelSpecSchema } from '../../llm/model-spec';
+import { templatePaths } from '../workflow-template';
+
+/** Where a workflow starts and ends, as node names in `next`. */
+export const WORKFLOW_START = '__start__';
+export const WORKFLOW_END = '__end__';
+
+const IdentifierSchema = z
+  .string()
+  .regex(
+    /^[A-Za-z_]\w*$/,
+    'Expected letters, digits and _, not starting with a digit',
+  );
+
+const NodeNameSchema = z.string().min(1);
+
+export const WorkflowStateFieldSchema = z
+  .object({
+    type: z.enum(['string', 'number', 'boolean', 'array', 'object']),
+    reducer: z
+      .enum(['replace', 'append', 'sum', 'merge'])
+      .default('replace')
+      .describe(
+        'How node updates combine with the value: replace it, append to a list, add to a number or merge into an object.',
+      ),
+    default: z.unknown().optional(),
+    description: z.string().optional(),
+  })
+  .strict();
+
+export const WorkflowRouteSchema = z
+  .object({
+    route: z
+      .object({
+        field: z
+          .string()
+          .min(1)
+          .describe('State value to route on, as a dotted path.'),
+        cases: z.record(NodeNameSchema).describe('Next node for each value.'),
+        default: NodeNameSchema.optional().describe(
+          'Next node for any other value; without it such a value fails the run.',
+        ),
+      })
+      .strict(),
+  })
+  .strict();
+
+export const WorkflowFanOutSchema = z
+  .object({
+    fanOut: z
+      .object({
+        over: IdentifierSchema.describe('List field with one item per run.'),
+        to: NodeNameSchema,
+        as: IdentifierSchema.default('item').describe(
+          'Name of the item in the templates of the node run for it.',
+        ),
+      })
+      .strict(),
+  })
+  .strict();
+
+/**
+ * What runs after a node: one node, several in parallel, a node chosen by a
+ * state value, or one run of a node per item of a list (`Send`).
+ */
+export const WorkflowNextSchema = z.union([
+  NodeNameSchema,
+  z.array(NodeNameSchema).min(1),
+  WorkflowRouteSchema,
+  WorkflowFanOutSchema,
+]);
+
+const nodeFields = {
+  description: z.string().optional(),
+  next: WorkflowNextSchema.default(WORKFLOW_END),
+};
+
+export const WorkflowLlmNodeSchema = z
+  .object({
+    type: z.literal('llm'),
+    system: z.string().optional(),
+    prompt: z.string().min(1),
+    output: IdentifierSchema.optional().describe(
+      'State field receiving the text of the answer.',
+    ),
+    schema: z
+      .record(z.unknown())
+      .optional()
+      .describe(
+        'JSON Schema of a structured answer; its properties update the state fields of the same name.',
+      ),
+    ...nodeFields,
+  })
+  .strict();
+
+export const WorkflowTemplateNodeSchema = z
+  .object({
+    type: z.literal('template'),
+    template: z.string(),
+    output: IdentifierSchema,
+    ...nodeFields,
+  })
+  .strict();
+
+export const WorkflowNodeSchema = z.discriminatedUnion('type', [
+  WorkflowLlmNodeSchema,
+  WorkflowTemplateNodeSchema,
+]);
+
+type WorkflowNext = z.infer<typeof WorkflowNextSchema>;
+
+/** Nodes `next` can lead to. */
+export const nextNodes = (next: WorkflowNext): string[] => {
+  if (typeof next === 'string') {
+    return [next];
+  }
+  if (Array.isArray(next)) {
+    return next;
+  }
+  if ('route' in next) {
+    const { cases, default: fallback } = next.route;
+    return [
+      ...new Set([...Object.values(cases), ...(fallback ? [fallback] : [])]),
+    ];
+  }
+  return [next.fanOut.to];
+};
+
+const REDUCER_TYPES = {
+  append: 'array',
+  sum: 'number',
+  merge: 'object',
+} as const;
+
+/**
+ * Cross-references of a definition, reported at the offending node: node
+ * names, state fields in outputs, templates and routes, and nodes that can
+ * never run.
+ */
+const validateReferences = (
+  { input, state, start, nodes }: z.infer<typeof WorkflowDefinitionBaseSchema>,
+  ctx: z.RefinementCtx,
+) => {
+  const issue = (path: (string | number)[], message: string) =>
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path, message });
+
+  const fields = Object.keys(state);
+  const names = Object.keys(nodes);
+  const root = (path: string) => path.replace(/\..*/, '');
+  const isField = (path: string) => fields.includes(root(path));
+  const checkNode = (path: (string | number)[], name: string, end = true) => {
+    if (!names.includes(name) && !(end && name === WORKFLOW_END)) {
+      issue(
+        path,
+        `Unknown node ${name}; expected one of ${[...names, ...(end ? [WORKFLOW_END] : [])].join(', ')}`,
+      );
+    }
+  };
+
+  input.forEach((field, index) => {
+    if (!isField(field)) {
+      issue(['input', index], `Unknown state field ${field}`);
+    } else if (field === 'model') {
+      issue(['input', index], 'model is reserved for choosing the model');
+    }
+  });
+  for (const [field, { type, reducer }] of Object.entries(state)) {
+    if (reducer !== 'replace' && REDUCER_TYPES[reducer] !== type) {
+      issue(
+        ['state', field, 'reducer'],
+        `The ${reducer} reducer needs a field of type ${REDUCER_TYPES[reducer]}`,
+      );
+    }
+  }
+  [start].flat().forEach((name) => checkNode(['start'], name, false));
+
+  // Fan-outs name the item their target node's templates may refer to
+  const items = new Map<string, string[]>();
+  for (const { next } of Object.values(nodes)) {
+    if (typeof next === 'object' && 'fanOut' in next) {
+      const { to, as } = next.fanOut;
+      items.set(to, [...(items.get(to) ?? []), as]);
+    }
+  }
+
+  for (const [name, node] of Object.entries(nodes)) {
+    const path = ['nodes', name];
+    if (name === WORKFLOW_START || name === WORKFLOW_END) {
+      issue(path, `${name} is reserved`);
+    } else if (fields.includes(name)) {
+      issue(path, `${name} is already a state field`);
+    }
+
+    if (node.output !== undefined && !isField(node.output)) {
+      issue([...path, 'output'], `Unknown state field ${node.output}`);
+    }
+    if (node.type === 'llm') {
+      if ((node.output === undefined) === (node.schema === undefined)) {
+        issue(
+          path,
+          'An llm node needs either output (for a text answer) or schema (for a structured one)',
+        );
+      }
+      if (node.schema) {
+        const { type, properties } = node.schema;
+        if (
+          type !== 'object' ||
+          !properties ||
+          typeof properties !== 'object'
+        ) {
+          issue(
+            [...path, 'schema'],
+            'Expected a JSON Schema of type object with properties',
+          );
+        } else {
+          for (const property of Object.keys(properties)) {
+            if (!isField(property)) {
+              issue(
+                [...path, 'schema', 'properties', property],
+                `Unknown state field ${property}`,
+              );
+            }
+          }
+        }
+      }
+    }
+
+    const scope = [...fields, ...(items.get(name) ?? [])];
+    const templates =
+      node.type === 'llm'
+        ? (['system', 'prompt'] as const)
+        : (['template'] as const);
+    for (const key of templates) {
+      const template = (node as Record<string, unknown>)[key];
+      for (const reference of templatePaths(
+        typeof template === 'string' ? template : '',
+      )) {
+        if (!scope.includes(root(reference))) {
+          issue(
+            [...path, key],
+            `Unknown state field ${reference}; expected one of ${scope.join(', ')}`,
+          );
+        }
+      }
+    }
+
+    const { next } = node;
+    if (typeof next === 'string' || Array.isArray(next)) {
+      [next].flat().forEach((target) => checkNode([...path, 'next'], target));
+    } else if ('route' in next) {
+      const { field, cases, default: fallback } = next.route;
+      if (!isField(field)) {
+        issue(
+          [...path, 'next', 'route', 'field'],
+          `Unknown state field ${field}`,
+        );
+      }
+      for (const [value, target] of Object.entries(cases)) {
+        checkNode([...path, 'next', 'route', 'cases', value], target);
+      }
+      if (fallback) {
+        checkNode([...path, 'next', 'route', 'default'], fallback);
+      }
+    } else {
+      const { over, to, as } = next.fanOut;
+      if (state[over]?.type !== 'array') {
+        issue(
+          [...path, 'next', 'fanOut', 'over'],
+          `${over} is not a state field of type array`,
+        );
+      }
+      checkNode([...path, 'next', 'fanOut', 'to'], to, false);
+      if (fields.includes(as)) {
+        issue(
+          [...path, 'next', 'fanOut', 'as'],
+          `${as} is already a state field`,
+        );
+      }
+    }
+  }
+
+  const reached = new Set<string>();
+  const pending = [start].flat();
+  while (pending.length) {
+    const name = pending.pop()!;
+    if (!reached.has(name) && nodes[name]) {
+      reached.add(name);
+      pending.push(...nextNodes(nodes[name].next));
+    }
+  }
+  for (const name of names) {
+    if (!reached.has(name)) {
+      issue(
+        ['nodes', name],
+        `Node ${name} can never run; no path leads to it from start`,
+      );
+    }
+  }
+};
+
+const WorkflowDefinitionBaseSchema = z
+  .object({
+    name: z
+      .string()
+      .regex(/^[a-z0-9][a-z0-9-]*$/, 'Expected lowercase letters, digits and -')
+      .max(64)
+      .describe('Name the workflow is registered and started with.'),
+    description: z.string().min(1),
+    model: ModelSpecSchema.optional(),
+    input: z
+      .array(IdentifierSchema)
+      .default([])
+      .describe('State fields a run must be started with.'),
+    state: z.record(IdentifierSchema, WorkflowStateFieldSchema),
+    start: z.union([NodeNameSchema, z.array(NodeNameSchema).min(1)]),
+    nodes: z.record(IdentifierSchema, WorkflowNodeSchema),
+    recursionLimit: z
+      .number()
+      .int()
+      .min(1)
+      .max(100)
+      .default(25)
+      .describe('Most steps a run may take, as a guard against endless loops.'),
+  })
+  .strict();
+
+/**
+ * A workflow described as data: state fields with reducers, nodes that call
+ * the LLM or fill a template, and what runs after each node. It compiles to a
+ * LangGraph `StateGraph`; templates refer to state as `{{ field.path }}`.
+ */
+export const WorkflowDefinitionSchema =
+  WorkflowDefinitionBaseSchema.superRefine(validateReferences);
+
+export type WorkflowStateFieldDto = z.infer<typeof WorkflowStateFieldSchema>;
+export type WorkflowNodeDto = z.infer<typeof WorkflowNodeSchema>;
+export type WorkflowNextDto = z.infer<typeof WorkflowNextSchema>;
+export type WorkflowDefinitionDto = z.infer<typeof WorkflowDefinitionSchema>;
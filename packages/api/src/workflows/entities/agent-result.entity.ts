@@ -0,0 +1,12 @@
+/**
+ * `completed` when the model answered without calling more tools,
+ * `max-steps` when it was stopped after `maxSteps` model calls.
+ */
+export type AgentStatus = 'completed' | 'max-steps';
+
+export class AgentResult<Message = unknown> {
+  status: AgentStatus;
+  /** Model calls made. */
+  steps: number;
+  messages: Message[];
+}
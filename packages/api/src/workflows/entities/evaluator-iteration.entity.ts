@@ -0,0 +1,14 @@
+export type EvaluatorStopReason = 'accepted' | 'max-iterations';
+
+/** One generate/evaluate round of the evaluator-optimizer workflow. */
+export class EvaluatorIteration {
+  /** 1-based. */
+  iteration: number;
+  joke: string;
+  /** Set in `grade` mode. */
+  grade?: 'funny' | 'not funny';
+  /** Set in `score` mode, from 1 to 10. */
+  score?: number;
+  feedback: string;
+  accepted: boolean;
+}
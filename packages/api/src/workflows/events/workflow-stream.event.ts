@@ -0,0 +1,9 @@
+/**
+ * Server-Sent Events emitted by the `/workflow/<pattern>/stream` routes.
+ * A stream always ends with exactly one `done` or `error` event.
+ */
+export type WorkflowStreamEvent =
+  | { event: 'update'; data: { node: string; update: unknown } }
+  | { event: 'token'; data: { node: string; content: string } }
+  | { event: 'done'; data: { state: unknown } }
+  | { event: 'error'; data: { message: string } };
@@ -0,0 +1,41 @@
+const PLACEHOLDER = /\{\{\s*([A-Za-z_]\w*(?:\.\w+)*)\s*\}\}/g;
+
+/** Paths a template refers to, e.g. `section.name` for `{{ section.name }}`. */
+export const templatePaths = (template: string) =>
+  [...template.matchAll(PLACEHOLDER)].map((match) => match[1] as string);
+
+/** Value at a dotted path (`sections.0.name`), or undefined. */
+export const valueAtPath = (value: unknown, path: string) =>
+  path
+    .split('.')
+    .reduce<unknown>(
+      (current, key) =>
+        current !== null && typeof current === 'object'
+          ? (current as Record<string, unknown>)[key]
+          : undefined,
+      value,
+    );
+
+const format = (value: unknown): string => {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (Array.isArray(value) && value.every((item) => typeof item === 'string')) {
+    return value.join('\n\n');
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+/**
+ * Fills the `{{ path }}` placeholders of a template from `values`. Strings
+ * are inserted as is, lists of strings separated by blank lines, missing
+ * values as nothing and anything else as JSON.
+ */
+export const renderTemplate = (
+  template: string,
+  values: Record<string, unknown>,
+) =>
+  template.replace(PLACEHOLDER, (_, path) => format(valueAtPath(values, path)));